@@ -0,0 +1,474 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { PublicKey } from '@solana/web3.js';
+import { BillingInterval, Merchant, Payment, Subscription, SubscriptionStatus } from '../src/types';
+import { MerchantRegistry } from '../src/utils/merchants';
+import { PaymentQuery, PaymentRepository } from '../src/utils/paymentRepository';
+import { CreateInvoiceParams, createInvoice, validateInvoice } from '../src/utils/invoices';
+import { SUPPORTED_CURRENCIES } from '../src/utils/pricing';
+import { CreatePlanParams, validatePlan } from '../src/utils/subscriptions';
+import { HttpError, Route, RouteRequest, RouteResponse, matchPath, parseJson, readBody, sendJson } from './http';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyStore } from './idempotency';
+import { CreatePaymentRequest, PaymentService, validatePaymentRequest } from './payments';
+import { InvoiceStore } from './invoices';
+import { SubscriptionService } from './subscriptions';
+import { EscrowService, createEscrowRoutes } from './escrow';
+import { TRANSACTION_REQUEST_HEADERS, createTransactionRequestRoutes, getTransactionRequestURL } from './solanaPay';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const PAYMENT_STATUSES: Payment['status'][] = ['pending', 'processing', 'completed', 'failed', 'refunded'];
+const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['incomplete', 'active', 'past_due', 'canceled'];
+
+export interface ApiContext {
+  // API key → id of the merchant it acts for
+  apiKeys: Map<string, string>;
+  merchants: MerchantRegistry;
+  repository: PaymentRepository;
+  invoices: InvoiceStore;
+  payments: PaymentService;
+  idempotency: IdempotencyStore;
+  // Unset when the server has no delegate key to charge subscriptions with
+  subscriptions?: SubscriptionService;
+  // Unset when the server has no escrow key to hold payments with
+  escrow?: EscrowService;
+  // Public URL wallets reach the server at; the request's Host header when unset
+  publicUrl?: string;
+}
+
+interface MerchantRouteRequest extends RouteRequest {
+  // The merchant the request's API key acts for
+  merchant: Merchant;
+}
+
+function parseInvoiceRequest(body: Record<string, unknown>, merchantId: string): CreateInvoiceParams {
+  const errors: string[] = [];
+  const lineItems = Array.isArray(body.lineItems) ? body.lineItems : [];
+  if (!Array.isArray(body.lineItems)) errors.push('lineItems must be an array');
+  lineItems.forEach((item, index) => {
+    if (typeof item?.description !== 'string' || typeof item?.quantity !== 'number' ||
+        typeof item?.unitPrice !== 'number') {
+      errors.push(`lineItems[${index}] needs a description, quantity and unitPrice`);
+    }
+  });
+  if (typeof body.currency !== 'string' || !SUPPORTED_CURRENCIES.includes(body.currency)) {
+    errors.push(`currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}`);
+  }
+  if (typeof body.expiresInMs !== 'number') errors.push('expiresInMs must be a number');
+  for (const field of ['taxRate', 'quoteWindowMinutes'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'number') errors.push(`${field} must be a number`);
+  }
+  for (const field of ['customerName', 'customerEmail', 'memo'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') errors.push(`${field} must be a string`);
+  }
+  if (errors.length > 0) {
+    throw new HttpError(400, 'Invalid invoice', errors);
+  }
+
+  const params: CreateInvoiceParams = {
+    merchantId,
+    lineItems: lineItems.map(({ description, quantity, unitPrice }) => ({ description, quantity, unitPrice })),
+    taxRate: (body.taxRate as number | undefined) ?? 0,
+    currency: body.currency as string,
+    expiresInMs: body.expiresInMs as number,
+    quoteWindowMinutes: body.quoteWindowMinutes as number | undefined,
+    customerName: body.customerName as string | undefined,
+    customerEmail: body.customerEmail as string | undefined,
+    memo: body.memo as string | undefined
+  };
+  const invalid = validateInvoice(params);
+  if (invalid.length > 0) {
+    throw new HttpError(400, 'Invalid invoice', invalid);
+  }
+  return params;
+}
+
+function parsePlanRequest(body: Record<string, unknown>, merchant: Merchant): CreatePlanParams {
+  const errors: string[] = [];
+  for (const field of ['name', 'interval'] as const) {
+    if (typeof body[field] !== 'string') errors.push(`${field} must be a string`);
+  }
+  if (body.token !== undefined && typeof body.token !== 'string') errors.push('token must be a string');
+  if (typeof body.amount !== 'number') errors.push('amount must be a number');
+  for (const field of ['intervalCount', 'allowancePeriods'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'number') errors.push(`${field} must be a number`);
+  }
+  if (errors.length > 0) {
+    throw new HttpError(400, 'Invalid plan', errors);
+  }
+
+  const params: CreatePlanParams = {
+    merchantId: merchant.id,
+    name: body.name as string,
+    amount: body.amount as number,
+    token: (body.token as string | undefined) || merchant.preferredToken,
+    interval: body.interval as BillingInterval,
+    intervalCount: body.intervalCount as number | undefined,
+    allowancePeriods: body.allowancePeriods as number | undefined
+  };
+  const invalid = validatePlan(params);
+  if (invalid.length > 0) {
+    throw new HttpError(400, 'Invalid plan', invalid);
+  }
+  return params;
+}
+
+function requireSubscriptions(subscriptions?: SubscriptionService): SubscriptionService {
+  if (!subscriptions) {
+    throw new HttpError(503, 'Subscriptions are disabled; set GATEWAY_DELEGATE_KEYPAIR to enable them');
+  }
+  return subscriptions;
+}
+
+function requireEscrow(escrow?: EscrowService): EscrowService {
+  if (!escrow) {
+    throw new HttpError(503, 'Escrow is disabled; set GATEWAY_ESCROW_KEYPAIR to enable it');
+  }
+  return escrow;
+}
+
+// Timestamps are accepted in milliseconds or as ISO 8601 dates
+function parseTime(value: string | null, name: string): number | undefined {
+  if (value === null) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new HttpError(400, `${name} must be a timestamp or ISO 8601 date`);
+  }
+  return time;
+}
+
+function parsePaymentQuery(query: URLSearchParams, merchantId: string): PaymentQuery {
+  const status = query.get('status');
+  if (status !== null && !(PAYMENT_STATUSES as string[]).includes(status)) {
+    throw new HttpError(400, `status must be one of ${PAYMENT_STATUSES.join(', ')}`);
+  }
+  const offset = Number(query.get('offset') ?? 0);
+  const limit = Number(query.get('limit') ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, 'offset must be a whole number');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return {
+    merchantId,
+    status: (status as Payment['status'] | null) ?? undefined,
+    token: query.get('token') ?? undefined,
+    from: parseTime(query.get('from'), 'from'),
+    to: parseTime(query.get('to'), 'to'),
+    offset,
+    limit
+  };
+}
+
+function createRoutes({
+  repository,
+  invoices,
+  payments,
+  subscriptions,
+  escrow
+}: ApiContext): Route<MerchantRouteRequest>[] {
+  // Another merchant's payment is reported as missing rather than forbidden
+  const getPayment = async (merchant: Merchant, id: string): Promise<Payment> => {
+    const payment = await repository.get(id);
+    if (!payment || payment.merchantId !== merchant.id) {
+      throw new HttpError(404, `Payment not found: ${id}`);
+    }
+    return payment;
+  };
+
+
+  // Another merchant's subscription is reported as missing rather than forbidden
+  const getSubscription = async (merchant: Merchant, id: string): Promise<Subscription> => {
+    const subscription = await requireSubscriptions(subscriptions).get(id);
+    if (!subscription || subscription.merchantId !== merchant.id) {
+      throw new HttpError(404, `Subscription not found: ${id}`);
+    }
+    return subscription;
+  };
+
+  const getPlan = async (merchant: Merchant, id: string) => {
+    const plan = await requireSubscriptions(subscriptions).getPlan(id);
+    if (!plan || plan.merchantId !== merchant.id) {
+      throw new HttpError(404, `Plan not found: ${id}`);
+    }
+    return plan;
+  };
+
+  return [
+    {
+      method: 'POST',
+      pattern: '/payments',
+      async handle({ merchant, body, baseUrl }) {
+        const errors = validatePaymentRequest(body);
+        if (errors.length > 0) {
+          throw new HttpError(400, 'Invalid payment request', errors);
+        }
+        const request = body as CreatePaymentRequest;
+        const created = await payments.create(merchant, request);
+        // Lets any Solana Pay wallet pay without knowing the merchant's token
+        const transactionRequestUrl = getTransactionRequestURL(baseUrl, created.payment.id, {
+          inputToken: request.inputToken,
+          label: request.label || merchant.name,
+          message: request.message
+        });
+        const url = created.payment.splits || created.payment.escrow ? transactionRequestUrl : created.url;
+        return { status: 201, body: { ...created, url, transactionRequestUrl } };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: '/payments/:id',
+      async handle({ merchant, params }) {
+        return { status: 200, body: await getPayment(merchant, params.id) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/payments/:id/release',
+      async handle({ merchant, params }) {
+        const payment = await getPayment(merchant, params.id);
+        return { status: 200, body: await requireEscrow(escrow).release(payment.id, merchant) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/payments/:id/refund',
+      async handle({ merchant, params, body }) {
+        if (body.reason !== undefined && typeof body.reason !== 'string') {
+          throw new HttpError(400, 'reason must be a string');
+        }
+        const payment = await getPayment(merchant, params.id);
+        if (!payment.escrow) {
+          // The gateway never holds these funds; the settlement wallet has to sign their refund
+          throw new HttpError(409, 'Only escrowed payments can be refunded through the API');
+        }
+        const refunded = await requireEscrow(escrow).refund(payment.id, body.reason as string | undefined);
+        return { status: 200, body: refunded };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/invoices',
+      async handle({ merchant, body }) {
+        const invoice = createInvoice(parseInvoiceRequest(body, merchant.id));
+        return { status: 201, body: await invoices.save(invoice) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/plans',
+      async handle({ merchant, body }) {
+        const plan = await requireSubscriptions(subscriptions).createPlan(parsePlanRequest(body, merchant));
+        return { status: 201, body: plan };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: '/plans/:id',
+      async handle({ merchant, params }) {
+        return { status: 200, body: await getPlan(merchant, params.id) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/subscriptions',
+      async handle({ merchant, body }) {
+        if (typeof body.planId !== 'string') {
+          throw new HttpError(400, 'planId must be a string');
+        }
+        let account: string;
+        try {
+          account = new PublicKey(body.account as string).toBase58();
+        } catch {
+          throw new HttpError(400, 'account must be a valid Solana address');
+        }
+        const plan = await getPlan(merchant, body.planId);
+        return { status: 201, body: await requireSubscriptions(subscriptions).subscribe(plan, merchant, account) };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: '/subscriptions/:id',
+      async handle({ merchant, params }) {
+        return { status: 200, body: await getSubscription(merchant, params.id) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/subscriptions/:id/approval',
+      async handle({ merchant, params }) {
+        const subscription = await getSubscription(merchant, params.id);
+        return { status: 200, body: await requireSubscriptions(subscriptions).createApproval(subscription, merchant) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: '/subscriptions/:id/cancel',
+      async handle({ merchant, params, body }) {
+        if (body.reason !== undefined && typeof body.reason !== 'string') {
+          throw new HttpError(400, 'reason must be a string');
+        }
+        const subscription = await getSubscription(merchant, params.id);
+        const canceled = await requireSubscriptions(subscriptions).cancel(subscription, body.reason as string | undefined);
+        return { status: 200, body: canceled };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: '/merchants/:id/subscriptions',
+      async handle({ merchant, params, query }) {
+        if (params.id !== merchant.id) {
+          throw new HttpError(403, 'API key does not belong to this merchant');
+        }
+        const status = query.get('status');
+        if (status !== null && !(SUBSCRIPTION_STATUSES as string[]).includes(status)) {
+          throw new HttpError(400, `status must be one of ${SUBSCRIPTION_STATUSES.join(', ')}`);
+        }
+        const all = await requireSubscriptions(subscriptions).list(merchant.id);
+        return { status: 200, body: status ? all.filter(subscription => subscription.status === status) : all };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: '/merchants/:id/payments',
+      async handle({ merchant, params, query }) {
+        if (params.id !== merchant.id) {
+          throw new HttpError(403, 'API key does not belong to this merchant');
+        }
+        return { status: 200, body: await repository.query(parsePaymentQuery(query, merchant.id)) };
+      }
+    }
+  ];
+}
+
+interface RouteMatch<R extends RouteRequest> {
+  // Every route on the path, whatever its method
+  routes: Route<R>[];
+  params: Record<string, string>;
+}
+
+function findRoute<R extends RouteRequest>(routes: Route<R>[], path: string): RouteMatch<R> | null {
+  for (const route of routes) {
+    const params = matchPath(route.pattern, path);
+    if (params) {
+      return { routes: routes.filter(other => other.pattern === route.pattern), params };
+    }
+  }
+  return null;
+}
+
+function getAllowedRoute<R extends RouteRequest>(
+  match: RouteMatch<R>,
+  method: string | undefined,
+  path: string
+): { route: Route<R>; params: Record<string, string> } {
+  const route = match.routes.find(candidate => candidate.method === method);
+  if (!route) {
+    throw new HttpError(405, `${method} is not allowed on ${path}`);
+  }
+  return { route, params: match.params };
+}
+
+function toErrorBody(error: HttpError) {
+  return error.details ? { error: error.message, details: error.details } : { error: error.message };
+}
+
+// Handles every request the server receives. POST requests carrying an Idempotency-Key are
+// run once per key: retries with the same body get the first response back.
+export function createApiHandler(context: ApiContext) {
+  const routes = createRoutes(context);
+  const publicRoutes = [
+    ...createTransactionRequestRoutes(context.repository, context.merchants, context.payments),
+    ...(context.escrow ? createEscrowRoutes(context.repository, context.merchants, context.escrow) : [])
+  ];
+
+  const authenticate = async (request: IncomingMessage): Promise<Merchant> => {
+    const [scheme, key] = (request.headers.authorization || '').split(' ');
+    const merchantId = scheme === 'Bearer' && key ? context.apiKeys.get(key) : undefined;
+    if (!merchantId) {
+      throw new HttpError(401, 'Missing or invalid API key');
+    }
+    const merchant = await context.merchants.get(merchantId);
+    if (!merchant) {
+      throw new HttpError(401, `API key is for an unknown merchant: ${merchantId}`);
+    }
+    return merchant;
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const baseUrl = context.publicUrl || `http://${request.headers.host}`;
+
+    const publicMatch = findRoute(publicRoutes, url.pathname);
+    if (publicMatch) {
+      Object.entries(TRANSACTION_REQUEST_HEADERS).forEach(([name, value]) => response.setHeader(name, value));
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204).end();
+        return;
+      }
+      const { route, params } = getAllowedRoute(publicMatch, request.method, url.pathname);
+      const body = parseJson(request.method === 'POST' ? await readBody(request) : '');
+      const result = await route.handle({ params, query: url.searchParams, body, baseUrl });
+      sendJson(response, result.status, result.body);
+      return;
+    }
+
+    const match = findRoute(routes, url.pathname);
+    if (!match) {
+      throw new HttpError(404, `No route for ${url.pathname}`);
+    }
+    const { route, params } = getAllowedRoute(match, request.method, url.pathname);
+
+    const merchant = await authenticate(request);
+    const rawBody = request.method === 'POST' ? await readBody(request) : '';
+    const routeRequest = { merchant, params, query: url.searchParams, body: parseJson(rawBody), baseUrl };
+
+    const idempotencyKey = request.method === 'POST' ? request.headers[IDEMPOTENCY_KEY_HEADER] : undefined;
+    if (typeof idempotencyKey !== 'string') {
+      const { status, body } = await route.handle(routeRequest);
+      sendJson(response, status, body);
+      return;
+    }
+
+    // Keys are per merchant, so two merchants can't collide on the same one
+    const key = `${merchant.id}:${idempotencyKey}`;
+    const claim = await context.idempotency.begin(key, `${request.method} ${url.pathname} ${rawBody}`);
+    if (claim.state === 'replay') {
+      sendJson(response, claim.response.status, claim.response.body, { 'Idempotent-Replayed': 'true' });
+      return;
+    }
+    if (claim.state === 'in_progress') {
+      throw new HttpError(409, 'A request with this Idempotency-Key is still being processed');
+    }
+    if (claim.state === 'mismatch') {
+      throw new HttpError(422, 'Idempotency-Key was already used with a different request');
+    }
+
+    let result: RouteResponse;
+    try {
+      result = await route.handle(routeRequest);
+    } catch (error) {
+      // Client errors are final and replay like any response; anything else may succeed on retry
+      if (error instanceof HttpError && error.status < 500) {
+        await context.idempotency.complete(key, { status: error.status, body: toErrorBody(error) });
+      } else {
+        await context.idempotency.release(key);
+      }
+      throw error;
+    }
+    await context.idempotency.complete(key, result);
+    sendJson(response, result.status, result.body);
+  };
+
+  return (request: IncomingMessage, response: ServerResponse) => {
+    handle(request, response).catch(error => {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, toErrorBody(error));
+        return;
+      }
+      console.error(`Error handling ${request.method} ${request.url}:`, error);
+      sendJson(response, 500, { error: 'Internal server error' });
+    });
+  };
+}
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { Keypair } from '@solana/web3.js';
+import { Merchant } from '../src/types';
+import { CLUSTERS, Cluster, DEFAULT_RPC_URLS, NetworkConfig } from '../src/utils/network';
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  // Where the file storage keeps merchants, payments, invoices and idempotency records
+  dataDir: string;
+  // API key → id of the merchant it acts for
+  apiKeys: Map<string, string>;
+  // Seed the merchant registry until merchants are saved to storage
+  merchants: Merchant[];
+  // Unset leaves the network the bundle was built for
+  network?: NetworkConfig;
+  jupiterApiUrl?: string;
+  // How wallets reach the server for Solana Pay transaction requests; must be https for
+  // real wallets. Links use the request's Host header when unset.
+  publicUrl?: string;
+  // Key customers approve to pull subscription charges; it signs and pays the fee for each
+  // one. Subscriptions are disabled when unset.
+  delegate?: Keypair;
+  // How often due subscriptions are charged
+  subscriptionCheckIntervalMs?: number;
+  // Key whose wallet holds escrowed payments; it signs and pays the fee for every release and
+  // refund. Escrow is disabled when unset.
+  escrow?: Keypair;
+  // How often escrowed payments past their timeout are refunded
+  escrowCheckIntervalMs?: number;
+}
+
+const DEFAULT_PORT = 8787;
+
+// `key:merchantId` pairs, comma separated
+function parseApiKeys(value: string = ''): Map<string, string> {
+  const apiKeys = new Map<string, string>();
+  for (const entry of value.split(',')) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+    apiKeys.set(entry.slice(0, separator).trim(), entry.slice(separator + 1).trim());
+  }
+  return apiKeys;
+}
+
+function parseNetwork(env: NodeJS.ProcessEnv): NetworkConfig | undefined {
+  if (!env.SOLANA_CLUSTER && !env.SOLANA_RPC_URL) return undefined;
+
+  const cluster = (CLUSTERS as string[]).includes(env.SOLANA_CLUSTER || '')
+    ? env.SOLANA_CLUSTER as Cluster
+    : 'localnet';
+  return {
+    cluster,
+    rpcUrl: env.SOLANA_RPC_URL || DEFAULT_RPC_URLS[cluster],
+    wsUrl: env.SOLANA_WS_URL || undefined
+  };
+}
+
+function loadMerchants(path?: string): Merchant[] {
+  if (!path) return [];
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as Merchant[];
+  } catch (error) {
+    console.error('Error loading merchants file:', error);
+    throw new Error(`Failed to load merchants from ${path}`);
+  }
+}
+
+// A keypair file as written by `solana-keygen new`: the secret key as a JSON array of bytes
+function loadKeypair(path?: string): Keypair | undefined {
+  if (!path) return undefined;
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8')) as number[]));
+  } catch (error) {
+    console.error('Error loading keypair file:', error);
+    throw new Error(`Failed to load a keypair from ${path}`);
+  }
+}
+
+// Everything the server reads from its environment; see "Payment API Server" in the README
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const apiKeys = parseApiKeys(env.GATEWAY_API_KEYS);
+  if (apiKeys.size === 0) {
+    throw new Error('GATEWAY_API_KEYS must list at least one key:merchantId pair');
+  }
+
+  return {
+    host: env.HOST || '127.0.0.1',
+    port: Number(env.PORT) || DEFAULT_PORT,
+    dataDir: env.GATEWAY_DATA_DIR || '.gateway-data',
+    apiKeys,
+    merchants: loadMerchants(env.GATEWAY_MERCHANTS_FILE),
+    network: parseNetwork(env),
+    jupiterApiUrl: env.JUPITER_API_URL || undefined,
+    publicUrl: env.GATEWAY_PUBLIC_URL || undefined,
+    delegate: loadKeypair(env.GATEWAY_DELEGATE_KEYPAIR),
+    subscriptionCheckIntervalMs: Number(env.GATEWAY_SUBSCRIPTION_CHECK_MS) || undefined,
+    escrow: loadKeypair(env.GATEWAY_ESCROW_KEYPAIR),
+    escrowCheckIntervalMs: Number(env.GATEWAY_ESCROW_CHECK_MS) || undefined
+  };
+}
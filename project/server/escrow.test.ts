@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { sign } from 'crypto';
+import bs58 from 'bs58';
+import { Keypair } from '@solana/web3.js';
+import { deriveEscrowKeypair, isSignedBy } from './escrow';
+
+describe('deriveEscrowKeypair', () => {
+  const escrowKey = Keypair.generate();
+
+  it('derives the same wallet for a payment every time', () => {
+    expect(deriveEscrowKeypair(escrowKey, 'pay_1').publicKey.toBase58())
+      .toBe(deriveEscrowKeypair(escrowKey, 'pay_1').publicKey.toBase58());
+  });
+
+  it('gives every payment and every escrow key a wallet of its own', () => {
+    const wallets = new Set([
+      deriveEscrowKeypair(escrowKey, 'pay_1'),
+      deriveEscrowKeypair(escrowKey, 'pay_2'),
+      deriveEscrowKeypair(Keypair.generate(), 'pay_1'),
+      escrowKey
+    ].map(keypair => keypair.publicKey.toBase58()));
+    expect(wallets.size).toBe(4);
+  });
+});
+
+describe('isSignedBy', () => {
+  const customer = Keypair.generate();
+  // A Solana secret key is the Ed25519 seed followed by the public key
+  const signMessage = (message: string) => bs58.encode(sign(null, Buffer.from(message), {
+    key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), customer.secretKey.slice(0, 32)]),
+    format: 'der',
+    type: 'pkcs8'
+  }));
+
+  it('accepts the wallet\'s signature of the message', () => {
+    expect(isSignedBy('hello', signMessage('hello'), customer.publicKey.toBase58())).toBe(true);
+  });
+
+  it('rejects another message, another wallet and garbage', () => {
+    expect(isSignedBy('hello!', signMessage('hello'), customer.publicKey.toBase58())).toBe(false);
+    expect(isSignedBy('hello', signMessage('hello'), Keypair.generate().publicKey.toBase58())).toBe(false);
+    expect(isSignedBy('hello', 'not-a-signature', customer.publicKey.toBase58())).toBe(false);
+  });
+});
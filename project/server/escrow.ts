@@ -0,0 +1,425 @@
+import { createHmac, createPublicKey, verify } from 'node:crypto';
+import bs58 from 'bs58';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { EscrowPayout, EscrowStatus, Merchant, Payment, PaymentEscrow, PaymentSplit, Refund } from '../src/types';
+import { connection, createSplitTransferInstructions } from '../src/utils/solana';
+import { createComputeBudgetInstructions } from '../src/utils/priorityFees';
+import {
+  ESCROW_SIGNATURE_MAX_AGE_MS,
+  EscrowAction,
+  canRefundEscrow,
+  canReleaseEscrow,
+  getEscrowActionMessage,
+  getEscrowedAmount,
+  getRestingStatus,
+  isEscrowRefundDue,
+  openDispute,
+  withdrawDispute
+} from '../src/utils/escrow';
+import { sendTransactionWithRetry } from '../src/utils/transactionSender';
+import { findReferenceSignature } from '../src/utils/paymentWatcher';
+import { createPaymentReference } from '../src/utils/solanaPay';
+import { resolveToken } from '../src/utils/tokenRegistry';
+import { MerchantRegistry, getSettlementWallet } from '../src/utils/merchants';
+import { PaymentRepository } from '../src/utils/paymentRepository';
+import { calculateSplits } from '../src/utils/splits';
+import { applyRefund } from '../src/utils/refunds';
+import { EventBus } from '../src/utils/events';
+import { createId } from '../src/utils/ids';
+import { HttpError, Route } from './http';
+
+export const ESCROW_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+const ESCROW_PATH = '/escrow';
+const MAX_DISPUTE_REASON_LENGTH = 1000;
+const TIMEOUT_REFUND_REASON = 'Not released before the escrow timed out';
+
+// DER header of an Ed25519 public key; the key's 32 bytes follow it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// A customer's request to act on their escrowed payment, signed by the wallet that paid
+export interface SignedEscrowAction {
+  // Base58 signature of getEscrowActionMessage for the payment, action and `signedAt`
+  signature: string;
+  signedAt: number;
+}
+
+export interface EscrowService {
+  // Pay the held funds to the merchant's settlement wallet, routing any split cuts
+  release(paymentId: string, merchant: Merchant): Promise<Payment>;
+  // Send the held funds back to the customer; settles a dispute in the customer's favour
+  refund(paymentId: string, reason?: string): Promise<Payment>;
+  dispute(paymentId: string, action: SignedEscrowAction, reason: string): Promise<Payment>;
+  withdrawDispute(paymentId: string, action: SignedEscrowAction): Promise<Payment>;
+  // Refund every held payment whose timeout has passed
+  refundDue(): Promise<void>;
+  // Run refundDue on a timer until closed
+  start(intervalMs?: number): void;
+  close(): void;
+}
+
+// The wallet holding one payment's escrowed funds, so no payout can reach another payment's.
+// Its key comes from the escrow key and the payment id, so there are no per-payment secrets
+// to store, but whoever holds the escrow key controls every escrow wallet.
+export function deriveEscrowKeypair(escrowKey: Keypair, paymentId: string): Keypair {
+  const seed = createHmac('sha256', escrowKey.secretKey).update(`escrow:${paymentId}`).digest();
+  return Keypair.fromSeed(seed);
+}
+
+// Whether `signature` is `wallet`'s Ed25519 signature of `message`, as a wallet's signMessage makes
+export function isSignedBy(message: string, signature: string, wallet: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(wallet).toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, Buffer.from(message), key, bs58.decode(signature));
+  } catch {
+    return false;
+  }
+}
+
+// Holds each escrowed payment in its own wallet until the merchant releases it or it goes back
+// to the customer. The escrow key pays the network fee and any account rent for every payout.
+export function createEscrowService(
+  repository: PaymentRepository,
+  eventBus: EventBus,
+  escrowKey: Keypair
+): EscrowService {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running: Promise<void> | null = null;
+  let closed = false;
+  // Payouts take a while, so changes to one payment's escrow run one at a time
+  const locks = new Map<string, Promise<unknown>>();
+
+  const exclusive = <T>(paymentId: string, run: () => Promise<T>): Promise<T> => {
+    const result = (locks.get(paymentId) || Promise.resolve()).then(run);
+    const done = result.catch(() => undefined);
+    locks.set(paymentId, done);
+    done.then(() => {
+      if (locks.get(paymentId) === done) locks.delete(paymentId);
+    });
+    return result;
+  };
+
+  // The payment's wallet signs for its funds; the escrow key pays, since that wallet may hold
+  // no SOL at all
+  const createPayoutTransaction = async (
+    payment: Payment,
+    holder: PublicKey,
+    recipient: PublicKey,
+    reference: PublicKey,
+    splits?: PaymentSplit[]
+  ): Promise<Transaction> => {
+    const instructions = await createSplitTransferInstructions(
+      getEscrowedAmount(payment),
+      payment.token,
+      holder,
+      recipient,
+      reference,
+      splits || [],
+      { payer: escrowKey.publicKey }
+    );
+    const [computeBudget, { blockhash, lastValidBlockHeight }] = await Promise.all([
+      createComputeBudgetInstructions(instructions, escrowKey.publicKey, 'normal'),
+      connection.getLatestBlockhash('confirmed')
+    ]);
+    return new Transaction({ feePayer: escrowKey.publicKey, blockhash, lastValidBlockHeight })
+      .add(...computeBudget, ...instructions);
+  };
+
+  // The latest record, checked against what the action needs
+  const load = async (paymentId: string, allowed: (payment: Payment) => boolean, action: string) => {
+    const payment = await repository.get(paymentId);
+    if (!payment?.escrow) {
+      throw new HttpError(404, `Escrowed payment not found: ${paymentId}`);
+    }
+    if (!allowed(payment)) {
+      throw new HttpError(409, payment.status === 'completed'
+        ? `Escrow is ${payment.escrow.status} and can't be ${action}`
+        : `Payment is ${payment.status}; nothing is held in escrow`);
+    }
+    return payment as Payment & { escrow: PaymentEscrow };
+  };
+
+  const verifyCustomer = (payment: Payment, action: EscrowAction, { signature, signedAt }: SignedEscrowAction) => {
+    if (Math.abs(Date.now() - signedAt) > ESCROW_SIGNATURE_MAX_AGE_MS) {
+      throw new HttpError(401, 'Signature has expired; sign the request again');
+    }
+    const message = getEscrowActionMessage(payment.id, action, signedAt);
+    if (!payment.customerWallet || !isSignedBy(message, signature, payment.customerWallet)) {
+      throw new HttpError(401, 'Signature is not from the wallet that paid');
+    }
+  };
+
+  // Move the held funds out as `request` says. The last payout may have landed after its
+  // attempt gave up, whatever it was for; the payment's wallet is empty then, so that payout is
+  // returned to be settled instead of sending another. One that failed on chain, or a stranger's
+  // transaction carrying its public reference, moved nothing and doesn't count.
+  const payOut = async (
+    payment: Payment & { escrow: PaymentEscrow },
+    request: Pick<EscrowPayout, 'action' | 'recipient' | 'splits' | 'reason'>
+  ): Promise<EscrowPayout> => {
+    const previous = payment.escrow.payout;
+    const landed = previous && previous.status !== 'completed'
+      ? await findReferenceSignature(previous.reference, escrowKey.publicKey.toBase58())
+      : null;
+    if (previous && landed) {
+      return { ...previous, status: 'completed', txSignature: landed, failureReason: undefined };
+    }
+
+    const holder = deriveEscrowKeypair(escrowKey, payment.id);
+    if (holder.publicKey.toBase58() !== payment.escrow.wallet) {
+      throw new HttpError(409, 'The payment was not paid into a wallet this escrow key controls');
+    }
+    const payout: EscrowPayout = {
+      ...request,
+      // Kept for a retry to the same wallet, so whichever attempt lands is found
+      reference: previous?.recipient === request.recipient ? previous.reference : createPaymentReference(),
+      status: 'pending',
+      timestamp: Date.now()
+    };
+    const status: EscrowStatus = request.action === 'release' ? 'releasing' : 'refunding';
+    await repository.save({ ...payment, escrow: { ...payment.escrow, status, payout } });
+
+    try {
+      const { signature } = await sendTransactionWithRetry(
+        () => createPayoutTransaction(
+          payment,
+          holder.publicKey,
+          new PublicKey(request.recipient),
+          new PublicKey(payout.reference),
+          request.splits
+        ),
+        async transaction => {
+          (transaction as Transaction).sign(escrowKey, holder);
+          return transaction;
+        },
+        // Nobody has to sign again, so an expired payout is always worth rebuilding
+        { onBlockhashExpired: async () => true }
+      );
+      return { ...payout, status: 'completed', txSignature: signature };
+    } catch (error) {
+      console.error('Error sending escrow payout:', error);
+      return {
+        ...payout,
+        status: 'failed',
+        failureReason: error instanceof Error ? error.message : 'Failed to send the payout'
+      };
+    }
+  };
+
+  // Record where the payout took the funds. A failed one leaves them in escrow, and its
+  // reference is kept so the next attempt can find it if it lands after all.
+  const settle = async (payment: Payment & { escrow: PaymentEscrow }, payout: EscrowPayout): Promise<Payment> => {
+    if (payout.status !== 'completed') {
+      const escrow = { ...payment.escrow, status: getRestingStatus(payment.escrow), payout };
+      await repository.save({ ...payment, escrow });
+      throw new HttpError(502, payout.failureReason || 'Failed to move the funds out of escrow');
+    }
+
+    if (payout.action === 'release') {
+      const released = await repository.save({
+        ...payment,
+        splits: payout.splits,
+        escrow: { ...payment.escrow, status: 'released', payout }
+      });
+      eventBus.publish('escrow.released', released);
+      return released;
+    }
+
+    // Recorded as a refund too, so the payment reads `refunded` and totals net it out
+    const amount = getEscrowedAmount(payment);
+    const record: Refund = {
+      id: createId('refund'),
+      paymentId: payment.id,
+      amount,
+      outputToken: payment.token,
+      outputAmount: amount,
+      recipient: payout.recipient,
+      status: 'completed',
+      timestamp: payout.timestamp,
+      reference: payout.reference,
+      txSignature: payout.txSignature,
+      reason: payout.reason
+    };
+    const refunded = await repository.save(
+      applyRefund({ ...payment, escrow: { ...payment.escrow, status: 'refunded', payout } }, record)
+    );
+    eventBus.publish('payment.refunded', refunded);
+    return refunded;
+  };
+
+  const refund = (
+    paymentId: string,
+    reason: string,
+    allowed: (payment: Payment) => boolean = canRefundEscrow
+  ) => exclusive(paymentId, async () => {
+    const payment = await load(paymentId, allowed, 'refunded');
+    if (!payment.customerWallet) {
+      throw new HttpError(409, 'The payment has no customer wallet to refund to');
+    }
+    return settle(payment, await payOut(payment, { action: 'refund', recipient: payment.customerWallet, reason }));
+  });
+
+  // A payout cut short by a restart is marked failed; the next attempt finds it if it landed
+  const recover = async () => {
+    const isInterrupted = (payment: Payment | null) =>
+      payment?.escrow?.status === 'releasing' || payment?.escrow?.status === 'refunding';
+
+    const { payments } = await repository.query({ status: 'completed' });
+    for (const { id } of payments.filter(isInterrupted)) {
+      await exclusive(id, async () => {
+        const payment = await repository.get(id);
+        const payout = payment?.escrow?.payout;
+        if (!payment?.escrow || !payout || !isInterrupted(payment)) return;
+        await repository.save({
+          ...payment,
+          escrow: {
+            ...payment.escrow,
+            status: getRestingStatus(payment.escrow),
+            payout: { ...payout, status: 'failed', failureReason: 'Interrupted before it confirmed' }
+          }
+        });
+      });
+    }
+  };
+
+  const refundDue = async () => {
+    const { payments } = await repository.query({ status: 'completed' });
+    for (const payment of payments.filter(candidate => isEscrowRefundDue(candidate))) {
+      if (closed) return;
+      try {
+        await refund(payment.id, TIMEOUT_REFUND_REASON, candidate => isEscrowRefundDue(candidate));
+      } catch (error) {
+        // Released or disputed since the list was read
+        if (error instanceof HttpError && error.status === 409) continue;
+        console.error(`Error refunding escrowed payment ${payment.id}:`, error);
+      }
+    }
+  };
+
+  return {
+    release(paymentId, merchant) {
+      return exclusive(paymentId, async () => {
+        const payment = await load(paymentId, canReleaseEscrow, 'released');
+        const { decimals } = await resolveToken(payment.token);
+        // Taken from what escrow holds, so the cuts come out of any overpayment too
+        const splits = calculateSplits(getEscrowedAmount(payment), decimals, merchant.splits);
+        return settle(
+          payment,
+          await payOut(payment, { action: 'release', recipient: getSettlementWallet(merchant), splits })
+        );
+      });
+    },
+
+    refund(paymentId, reason = 'Refunded by the merchant') {
+      return refund(paymentId, reason);
+    },
+
+    dispute(paymentId, action, reason) {
+      return exclusive(paymentId, async () => {
+        const payment = await load(paymentId, canReleaseEscrow, 'disputed');
+        verifyCustomer(payment, 'dispute', action);
+        const disputed = await repository.save({ ...payment, escrow: openDispute(payment.escrow, reason) });
+        eventBus.publish('escrow.disputed', disputed);
+        return disputed;
+      });
+    },
+
+    withdrawDispute(paymentId, action) {
+      return exclusive(paymentId, async () => {
+        const payment = await load(
+          paymentId,
+          candidate => candidate.status === 'completed' && candidate.escrow?.status === 'disputed',
+          'withdrawn from dispute'
+        );
+        verifyCustomer(payment, 'withdraw', action);
+        const held = await repository.save({ ...payment, escrow: withdrawDispute(payment.escrow) });
+        eventBus.publish('escrow.dispute_withdrawn', held);
+        return held;
+      });
+    },
+
+    refundDue,
+
+    start(intervalMs = ESCROW_CHECK_INTERVAL_MS) {
+      const tick = () => {
+        // A slow run is left to finish rather than overlapped
+        if (running) return;
+        running = refundDue()
+          .catch(error => console.error('Error refunding escrowed payments:', error))
+          .finally(() => {
+            running = null;
+          });
+      };
+      running = recover()
+        .catch(error => console.error('Error recovering escrow payouts:', error))
+        .finally(() => {
+          running = null;
+          if (!closed) tick();
+        });
+      timer = setInterval(tick, intervalMs);
+    },
+
+    close() {
+      closed = true;
+      clearInterval(timer);
+    }
+  };
+}
+
+function parseSignedAction(body: Record<string, unknown>): SignedEscrowAction {
+  if (typeof body.signature !== 'string' || typeof body.signedAt !== 'number') {
+    throw new HttpError(400, 'signature (base58) and signedAt (milliseconds) are required');
+  }
+  return { signature: body.signature, signedAt: body.signedAt };
+}
+
+// The customer's side of escrow. These carry no API key: the payment id is on the customer's
+// receipt, and only the wallet that paid can sign a dispute or withdraw it.
+export function createEscrowRoutes(
+  repository: PaymentRepository,
+  merchants: MerchantRegistry,
+  escrow: EscrowService
+): Route[] {
+  return [
+    {
+      method: 'GET',
+      pattern: `${ESCROW_PATH}/:id`,
+      async handle({ params }) {
+        const payment = await repository.get(params.id);
+        const merchant = payment && await merchants.get(payment.merchantId);
+        if (!payment?.escrow || !merchant) {
+          throw new HttpError(404, `Escrowed payment not found: ${params.id}`);
+        }
+        const { id, amount, token, status, receivedAmount, refundedAmount, escrow } = payment;
+        return {
+          status: 200,
+          body: { id, merchant: merchant.name, amount, token, status, receivedAmount, refundedAmount, escrow }
+        };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: `${ESCROW_PATH}/:id/dispute`,
+      async handle({ params, body }) {
+        const action = parseSignedAction(body);
+        if (typeof body.reason !== 'string' || !body.reason.trim()) {
+          throw new HttpError(400, 'reason must say what went wrong');
+        }
+        if (body.reason.length > MAX_DISPUTE_REASON_LENGTH) {
+          throw new HttpError(400, `reason must be at most ${MAX_DISPUTE_REASON_LENGTH} characters`);
+        }
+        return { status: 200, body: await escrow.dispute(params.id, action, body.reason.trim()) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: `${ESCROW_PATH}/:id/withdraw`,
+      async handle({ params, body }) {
+        return { status: 200, body: await escrow.withdrawDispute(params.id, parseSignedAction(body)) };
+      }
+    }
+  ];
+}
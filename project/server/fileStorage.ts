@@ -0,0 +1,34 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { StorageAdapter } from '../src/utils/storage';
+
+// One JSON file per key. Writes go through a temporary file and a rename, so a crash
+// mid-write leaves the previous value rather than half a file.
+export function createFileStorageAdapter(directory: string): StorageAdapter {
+  const ready = mkdir(directory, { recursive: true });
+  const toPath = (key: string) => join(directory, `${encodeURIComponent(key)}.json`);
+  let writes = 0;
+
+  return {
+    async getItem<T>(key: string): Promise<T | null> {
+      await ready;
+      try {
+        return JSON.parse(await readFile(toPath(key), 'utf8')) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async setItem<T>(key: string, value: T): Promise<void> {
+      await ready;
+      const path = toPath(key);
+      const temporary = `${path}.${process.pid}.${writes++}.tmp`;
+      await writeFile(temporary, JSON.stringify(value));
+      await rename(temporary, path);
+    },
+    async removeItem(key: string): Promise<void> {
+      await ready;
+      await rm(toPath(key), { force: true });
+    }
+  };
+}
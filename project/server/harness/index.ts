@@ -0,0 +1,450 @@
+import assert from 'node:assert/strict';
+import { createPrivateKey, sign } from 'node:crypto';
+import bs58 from 'bs58';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { createMint, getAccount, getOrCreateAssociatedTokenAccount, mintTo } from '@solana/spl-token';
+import { Invoice, Merchant, Payment, Subscription, SubscriptionPlan } from '../../src/types';
+import { TOKENS } from '../../src/utils/solana';
+import { EscrowAction, getEscrowActionMessage } from '../../src/utils/escrow';
+import { DEFAULT_RPC_URLS } from '../../src/utils/network';
+import { createMemoryStorageAdapter } from '../../src/utils/storage';
+import { PaymentPage } from '../../src/utils/paymentRepository';
+import { startGatewayServer } from '../server';
+import { deriveEscrowKeypair } from '../escrow';
+import { CreatePaymentResponse } from '../payments';
+import { CanceledSubscription, SubscriptionTransaction } from '../subscriptions';
+import { startStubJupiter } from './stubJupiter';
+
+// Runs the API end to end against solana-test-validator and a stubbed Jupiter: payments are
+// created through the API, signed and sent by a customer wallet, and watched until settled.
+// Exits non-zero on the first failed step.
+
+const RPC_URL = process.env.SOLANA_RPC_URL || DEFAULT_RPC_URLS.localnet;
+const SETTLE_TIMEOUT_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 1000;
+const MINT_DECIMALS = 6;
+
+const API_KEY = 'harness-key';
+const OTHER_API_KEY = 'harness-other-key';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const connection = new Connection(RPC_URL, 'confirmed');
+
+// DER header of an Ed25519 private key; the key's 32-byte seed follows it
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+async function airdrop(wallet: PublicKey, sol: number) {
+  const signature = await connection.requestAirdrop(wallet, sol * LAMPORTS_PER_SOL);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+}
+
+// Sign an escrow action the way a wallet's signMessage would
+function signEscrowAction(signer: Keypair, paymentId: string, action: EscrowAction) {
+  const signedAt = Date.now();
+  const key = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(signer.secretKey.slice(0, 32))]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const message = Buffer.from(getEscrowActionMessage(paymentId, action, signedAt));
+  return { signature: bs58.encode(sign(null, message, key)), signedAt };
+}
+
+function createMerchant(id: string, preferredToken: string): Merchant {
+  return {
+    id,
+    name: `Harness ${id}`,
+    walletAddress: Keypair.generate().publicKey.toBase58(),
+    preferredToken,
+    maxSlippageBps: 50,
+    createdAt: Date.now()
+  };
+}
+
+async function main() {
+  try {
+    await connection.getVersion();
+  } catch {
+    throw new Error(`No validator at ${RPC_URL}; start one with \`solana-test-validator --reset\``);
+  }
+
+  const customer = Keypair.generate();
+  const delegate = Keypair.generate();
+  const escrow = Keypair.generate();
+  await airdrop(customer.publicKey, 10);
+  await airdrop(delegate.publicKey, 1);
+  await airdrop(escrow.publicKey, 1);
+  const mint = await createMint(connection, customer, customer.publicKey, null, MINT_DECIMALS);
+  const customerTokenAccount = await getOrCreateAssociatedTokenAccount(connection, customer, mint, customer.publicKey);
+  await mintTo(connection, customer, mint, customerTokenAccount.address, customer, 1_000 * 10 ** MINT_DECIMALS);
+
+  const merchant = createMerchant('merchant-harness', mint.toBase58());
+  const otherMerchant = createMerchant('merchant-other', mint.toBase58());
+
+  const jupiter = await startStubJupiter();
+  const server = await startGatewayServer({
+    host: '127.0.0.1',
+    port: 0,
+    dataDir: '',
+    apiKeys: new Map([[API_KEY, merchant.id], [OTHER_API_KEY, otherMerchant.id]]),
+    merchants: [merchant, otherMerchant],
+    network: { cluster: 'localnet', rpcUrl: RPC_URL },
+    jupiterApiUrl: jupiter.url,
+    delegate,
+    subscriptionCheckIntervalMs: POLL_INTERVAL_MS,
+    escrow,
+    escrowCheckIntervalMs: POLL_INTERVAL_MS
+  }, createMemoryStorageAdapter());
+
+  const request = async <T>(
+    method: string,
+    path: string,
+    { body, key = API_KEY, headers = {} }: { body?: unknown; key?: string | null; headers?: Record<string, string> } = {}
+  ): Promise<{ status: number; body: T; headers: Headers }> => {
+    const response = await fetch(`${server.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key ? { Authorization: `Bearer ${key}` } : {}),
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as T, headers: response.headers };
+  };
+
+  // Sign the transaction the API built as the customer and wait for the API to settle it
+  const payAndSettle = async (created: CreatePaymentResponse): Promise<Payment> => {
+    assert.ok(created.transaction, 'response should carry a transaction');
+    const transaction = VersionedTransaction.deserialize(Buffer.from(created.transaction, 'base64'));
+    transaction.sign([customer]);
+    await connection.sendRawTransaction(transaction.serialize());
+
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const { body: payment } = await request<Payment>('GET', `/payments/${created.payment.id}`);
+      if (payment.status === 'completed' || payment.status === 'failed') return payment;
+      await wait(POLL_INTERVAL_MS);
+    }
+    throw new Error(`Payment ${created.payment.id} did not settle in ${SETTLE_TIMEOUT_MS / 1000}s`);
+  };
+
+  // Sign a transaction the API built for the customer and wait for it to confirm
+  const signAndConfirm = async (serialized: string) => {
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+    transaction.sign([customer]);
+    const signature = await connection.sendRawTransaction(transaction.serialize());
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  };
+
+  const waitForPayment = async (id: string, done: (payment: Payment) => boolean) => {
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const { body: payment } = await request<Payment>('GET', `/payments/${id}`);
+      if (done(payment)) return payment;
+      await wait(POLL_INTERVAL_MS);
+    }
+    throw new Error(`Payment ${id} did not reach the expected state in ${SETTLE_TIMEOUT_MS / 1000}s`);
+  };
+
+  const payIntoEscrow = async (amount: number, escrowTimeoutMs?: number) => {
+    const { status, body } = await request<CreatePaymentResponse>('POST', '/payments', {
+      body: { amount, account: customer.publicKey.toBase58(), escrow: true, escrowTimeoutMs }
+    });
+    assert.equal(status, 201);
+    const wallet = deriveEscrowKeypair(escrow, body.payment.id).publicKey.toBase58();
+    assert.equal(body.payment.escrow?.wallet, wallet, 'each payment should get its own escrow wallet');
+    const payment = await payAndSettle(body);
+    assert.equal(payment.status, 'completed', payment.failureReason);
+    assert.equal(payment.escrow?.status, 'held');
+    assert.ok(payment.escrow?.refundAt, 'the timeout should start once the payment lands');
+    return payment;
+  };
+
+  const getTokenBalance = async (owner: PublicKey) => {
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+    return value.reduce((sum, { account }) => sum + Number(account.data.parsed.info.tokenAmount.uiAmount), 0);
+  };
+
+  const waitForSubscription = async (id: string, done: (subscription: Subscription) => boolean) => {
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const { body: subscription } = await request<Subscription>('GET', `/subscriptions/${id}`);
+      if (done(subscription)) return subscription;
+      await wait(POLL_INTERVAL_MS);
+    }
+    throw new Error(`Subscription ${id} did not reach the expected state in ${SETTLE_TIMEOUT_MS / 1000}s`);
+  };
+
+  const subscribe = async (plan: { name: string; amount: number }) => {
+    const created = await request<SubscriptionPlan>('POST', '/plans', {
+      body: { ...plan, interval: 'month', allowancePeriods: 3 }
+    });
+    assert.equal(created.status, 201);
+    const { status, body } = await request<SubscriptionTransaction>('POST', '/subscriptions', {
+      body: { planId: created.body.id, account: customer.publicKey.toBase58() }
+    });
+    assert.equal(status, 201);
+    assert.equal(body.subscription.status, 'incomplete');
+    await signAndConfirm(body.transaction);
+    return body.subscription;
+  };
+
+  const subscriptionIds: string[] = [];
+
+  const steps: [string, () => Promise<void>][] = [
+    ['rejects requests without a valid API key', async () => {
+      assert.equal((await request('GET', `/merchants/${merchant.id}/payments`, { key: null })).status, 401);
+      assert.equal((await request('GET', `/merchants/${merchant.id}/payments`, { key: 'wrong' })).status, 401);
+    }],
+
+    ['rejects invalid payment requests', async () => {
+      const { status, body } = await request<{ details: string[] }>('POST', '/payments', { body: { amount: -1 } });
+      assert.equal(status, 400);
+      assert.ok(body.details.length > 0);
+    }],
+
+    ['replays payments created with the same Idempotency-Key', async () => {
+      const body = { amount: 0.5, token: mint.toBase58() };
+      const headers = { 'Idempotency-Key': 'harness-replay' };
+      const first = await request<CreatePaymentResponse>('POST', '/payments', { body, headers });
+      const second = await request<CreatePaymentResponse>('POST', '/payments', { body, headers });
+      assert.equal(first.status, 201);
+      assert.equal(second.status, 201);
+      assert.equal(second.headers.get('Idempotent-Replayed'), 'true');
+      assert.equal(second.body.payment.id, first.body.payment.id);
+
+      const reused = await request('POST', '/payments', { body: { ...body, amount: 1 }, headers });
+      assert.equal(reused.status, 422);
+    }],
+
+    ['settles a SOL payment', async () => {
+      const { status, body } = await request<CreatePaymentResponse>('POST', '/payments', {
+        body: { amount: 0.25, token: TOKENS.SOL.mint, account: customer.publicKey.toBase58() }
+      });
+      assert.equal(status, 201);
+      assert.match(body.url, /^solana:/);
+      const payment = await payAndSettle(body);
+      assert.equal(payment.status, 'completed', payment.failureReason);
+      assert.equal(payment.receivedAmount, 0.25);
+    }],
+
+    ['settles a token payment in the merchant\'s preferred token', async () => {
+      const { body } = await request<CreatePaymentResponse>('POST', '/payments', {
+        body: { amount: 12.5, account: customer.publicKey.toBase58(), speed: 'fast' }
+      });
+      const payment = await payAndSettle(body);
+      assert.equal(payment.status, 'completed', payment.failureReason);
+      assert.equal(payment.receivedAmount, 12.5);
+    }],
+
+    ['settles a swap-and-pay payment through the stubbed Jupiter', async () => {
+      const { body } = await request<CreatePaymentResponse>('POST', '/payments', {
+        body: {
+          amount: 3,
+          account: customer.publicKey.toBase58(),
+          inputToken: TOKENS.SOL.mint
+        }
+      });
+      assert.ok(body.payment.swap, 'payment should record the swap');
+      const payment = await payAndSettle(body);
+      assert.equal(payment.status, 'completed', payment.failureReason);
+      assert.equal(payment.swap?.txSignature, payment.txSignature);
+    }],
+
+    ['settles a payment through a Solana Pay transaction request', async () => {
+      const { body: created } = await request<CreatePaymentResponse & { transactionRequestUrl: string }>(
+        'POST',
+        '/payments',
+        { body: { amount: 2, memo: 'order-42', inputToken: TOKENS.SOL.mint } }
+      );
+      assert.equal(created.transaction, undefined);
+      // solana:<link>, with the link's own query string percent-encoded
+      const link = decodeURIComponent(created.transactionRequestUrl.slice('solana:'.length).split('?')[0]);
+
+      const metadata = await fetch(link);
+      assert.equal(metadata.headers.get('Access-Control-Allow-Origin'), '*');
+      assert.equal((await metadata.json()).label, merchant.name);
+
+      const response = await fetch(link, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ account: customer.publicKey.toBase58() })
+      });
+      assert.equal(response.status, 200);
+      const { transaction, message } = await response.json();
+      assert.match(message, /^Pay /);
+
+      const payment = await payAndSettle({ ...created, transaction });
+      assert.equal(payment.status, 'completed', payment.failureReason);
+      assert.equal(payment.memo, 'order-42');
+      assert.equal(payment.customerWallet, customer.publicKey.toBase58());
+      assert.ok(payment.swap, 'payment should record the swap from the transaction request');
+
+      const again = await fetch(link, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ account: customer.publicKey.toBase58() })
+      });
+      assert.equal(again.status, 409);
+    }],
+
+    ['creates invoices', async () => {
+      const { status, body } = await request<Invoice>('POST', '/invoices', {
+        body: {
+          lineItems: [{ description: 'Consulting', quantity: 2, unitPrice: 50 }],
+          taxRate: 10,
+          currency: 'USD',
+          expiresInMs: 60 * 60 * 1000
+        }
+      });
+      assert.equal(status, 201);
+      assert.equal(body.merchantId, merchant.id);
+      assert.equal(body.total, 110);
+      assert.equal(body.status, 'open');
+    }],
+
+    ['lists and filters the merchant\'s payments', async () => {
+      const all = await request<PaymentPage>('GET', `/merchants/${merchant.id}/payments`);
+      assert.equal(all.status, 200);
+      assert.equal(all.body.total, 5);
+
+      const completed = await request<PaymentPage>('GET', `/merchants/${merchant.id}/payments?status=completed&limit=2`);
+      assert.equal(completed.body.total, 4);
+      assert.equal(completed.body.payments.length, 2);
+
+      const other = await request<Payment>('GET', `/payments/${all.body.payments[0].id}`, { key: OTHER_API_KEY });
+      assert.equal(other.status, 404);
+      assert.equal((await request('GET', `/merchants/${merchant.id}/payments`, { key: OTHER_API_KEY })).status, 403);
+    }],
+
+    ['charges a subscription through the approved delegation', async () => {
+      const { id } = await subscribe({ name: 'Harness monthly', amount: 5 });
+      subscriptionIds.push(id);
+      const subscription = await waitForSubscription(id, current => current.currentPeriodEnd !== undefined);
+      assert.equal(subscription.status, 'active');
+      assert.ok(subscription.nextChargeAt > Date.now());
+
+      // Three periods were approved and one has been charged
+      const account = await getAccount(connection, customerTokenAccount.address);
+      assert.equal(account.delegate?.toBase58(), delegate.publicKey.toBase58());
+      assert.equal(account.delegatedAmount, BigInt(2 * 5 * 10 ** MINT_DECIMALS));
+
+      const { body: page } = await request<PaymentPage>('GET', `/merchants/${merchant.id}/payments?status=completed`);
+      assert.ok(page.payments.some(payment => payment.subscriptionId === id && payment.receivedAmount === 5));
+    }],
+
+    ['puts a subscription past due when the customer can\'t pay', async () => {
+      const { id } = await subscribe({ name: 'Harness premium', amount: 100_000 });
+      subscriptionIds.push(id);
+      const subscription = await waitForSubscription(id, current => current.status === 'past_due');
+      assert.equal(subscription.failedAttempts, 1);
+      assert.equal(subscription.lastFailureReason, 'Insufficient balance');
+      assert.ok(subscription.nextChargeAt > Date.now());
+
+      const { body: payment } = await request<Payment>('GET', `/payments/${subscription.pendingPaymentId}`);
+      assert.equal(payment.status, 'pending');
+    }],
+
+    ['cancels subscriptions and revokes the delegation after the last one', async () => {
+      const [first, second] = subscriptionIds;
+      const { body: kept } = await request<CanceledSubscription>('POST', `/subscriptions/${first}/cancel`);
+      assert.equal(kept.subscription.status, 'canceled');
+      // The second subscription still draws on the same delegation
+      assert.equal(kept.transaction, undefined);
+
+      const { body: last } = await request<CanceledSubscription>('POST', `/subscriptions/${second}/cancel`, {
+        body: { reason: 'Customer downgraded' }
+      });
+      assert.equal(last.subscription.cancelReason, 'Customer downgraded');
+      assert.ok(last.transaction, 'the last cancellation should return a revoke');
+      await signAndConfirm(last.transaction);
+      assert.equal((await getAccount(connection, customerTokenAccount.address)).delegate, null);
+
+      assert.equal((await request('POST', `/subscriptions/${second}/cancel`)).status, 409);
+      assert.equal((await request('GET', `/subscriptions/${second}`, { key: OTHER_API_KEY })).status, 404);
+    }],
+
+    ['releases an escrowed payment to the merchant', async () => {
+      const payment = await payIntoEscrow(4);
+      const settlementWallet = new PublicKey(merchant.walletAddress);
+      const before = await getTokenBalance(settlementWallet);
+
+      assert.equal((await request('POST', `/payments/${payment.id}/release`, { key: OTHER_API_KEY })).status, 404);
+      const { status, body } = await request<Payment>('POST', `/payments/${payment.id}/release`);
+      assert.equal(status, 200);
+      assert.equal(body.escrow?.status, 'released');
+      assert.ok(body.escrow?.payout?.txSignature, 'the release should record its transaction');
+      assert.equal(await getTokenBalance(settlementWallet), before + 4);
+
+      assert.equal((await request('POST', `/payments/${payment.id}/release`)).status, 409);
+    }],
+
+    ['refunds a disputed payment out of escrow', async () => {
+      const payment = await payIntoEscrow(6);
+      const path = `/escrow/${payment.id}`;
+      const post = (action: string, body: unknown) => request<Payment>('POST', `${path}/${action}`, { body, key: null });
+
+      const dispute = (signer: Keypair, reason: string) =>
+        post('dispute', { ...signEscrowAction(signer, payment.id, 'dispute'), reason });
+
+      assert.equal((await dispute(Keypair.generate(), 'Never arrived')).status, 401);
+      const disputed = await dispute(customer, 'Never arrived');
+      assert.equal(disputed.status, 200);
+      assert.equal(disputed.body.escrow?.status, 'disputed');
+      assert.equal((await request('POST', `/payments/${payment.id}/release`)).status, 409);
+
+      const withdrawn = await post('withdraw', signEscrowAction(customer, payment.id, 'withdraw'));
+      assert.equal(withdrawn.body.escrow?.status, 'held');
+      assert.ok((withdrawn.body.escrow?.refundAt ?? 0) >= (payment.escrow?.refundAt ?? 0));
+      await dispute(customer, 'Arrived broken');
+
+      const before = await getTokenBalance(customer.publicKey);
+      const { status, body } = await request<Payment>('POST', `/payments/${payment.id}/refund`, {
+        body: { reason: 'Dispute upheld' }
+      });
+      assert.equal(status, 200);
+      assert.equal(body.status, 'refunded');
+      assert.equal(body.escrow?.status, 'refunded');
+      assert.equal(body.refundedAmount, 6);
+      assert.equal(await getTokenBalance(customer.publicKey), before + 6);
+
+      const { body: view } = await request<{ escrow: Payment['escrow'] }>('GET', path, { key: null });
+      assert.equal(view.escrow?.dispute?.reason, 'Arrived broken');
+    }],
+
+    ['refunds an escrowed payment that is not released in time', async () => {
+      const payment = await payIntoEscrow(1, 1000);
+      const refunded = await waitForPayment(payment.id, current => current.escrow?.status === 'refunded');
+      assert.equal(refunded.status, 'refunded');
+      assert.equal(refunded.refunds?.[0].reason, 'Not released before the escrow timed out');
+    }]
+  ];
+
+  let failed = false;
+  for (const [name, run] of steps) {
+    try {
+      await run();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed = true;
+      console.error(`✗ ${name}`);
+      console.error(error);
+      break;
+    }
+  }
+
+  await server.close();
+  await jupiter.close();
+  return failed ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Error running harness:', error);
+    process.exit(1);
+  });
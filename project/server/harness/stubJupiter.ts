@@ -0,0 +1,74 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MEMO_PROGRAM_ID } from '../../src/utils/tokenProgram';
+import { sendJson } from '../http';
+
+export interface StubJupiter {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Stands in for Jupiter's quote and swap-instructions endpoints. Every route trades 1:1 in
+// base units, and the "swap" is a memo, so a swap-and-pay transaction only lands when the
+// customer already holds the output token.
+export async function startStubJupiter(): Promise<StubJupiter> {
+  const server = createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (request.method === 'GET' && url.pathname === '/quote') {
+      const amount = url.searchParams.get('amount') || '0';
+      const inputMint = url.searchParams.get('inputMint');
+      const outputMint = url.searchParams.get('outputMint');
+      sendJson(response, 200, {
+        inputMint,
+        inAmount: amount,
+        outputMint,
+        outAmount: amount,
+        otherAmountThreshold: amount,
+        swapMode: url.searchParams.get('swapMode') || 'ExactIn',
+        slippageBps: Number(url.searchParams.get('slippageBps') || 0),
+        priceImpactPct: '0',
+        routePlan: [{
+          swapInfo: {
+            ammKey: MEMO_PROGRAM_ID.toBase58(),
+            label: 'Stub',
+            inputMint,
+            outputMint,
+            inAmount: amount,
+            outAmount: amount,
+            feeAmount: '0',
+            feeMint: inputMint
+          },
+          percent: 100
+        }]
+      });
+      return;
+    }
+
+    if (request.method === 'POST' && url.pathname === '/swap-instructions') {
+      // Drain the request; the instructions don't depend on it
+      request.resume();
+      request.on('end', () => sendJson(response, 200, {
+        computeBudgetInstructions: [],
+        setupInstructions: [],
+        swapInstruction: {
+          programId: MEMO_PROGRAM_ID.toBase58(),
+          accounts: [],
+          data: Buffer.from('stub swap').toString('base64')
+        },
+        addressLookupTableAddresses: []
+      }));
+      return;
+    }
+
+    sendJson(response, 404, { error: `No stub for ${request.method} ${url.pathname}` });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
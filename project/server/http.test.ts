@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError, matchPath } from './http';
+
+describe('matchPath', () => {
+  it('returns decoded named segments', () => {
+    expect(matchPath('/payments/:id/refund', '/payments/pay%20one/refund')).toEqual({ id: 'pay one' });
+  });
+
+  it('returns null for other paths', () => {
+    expect(matchPath('/payments/:id', '/payments')).toBeNull();
+    expect(matchPath('/payments/:id', '/payments/')).toBeNull();
+    expect(matchPath('/payments/:id', '/invoices/abc')).toBeNull();
+  });
+
+  it('rejects malformed percent-encoding with a 400', () => {
+    expect(() => matchPath('/payments/:id', '/payments/%E0')).toThrow(HttpError);
+    expect(() => matchPath('/payments/:id', '/payments/%E0')).toThrow(expect.objectContaining({ status: 400 }));
+  });
+
+  it('leaves malformed paths for other routes unmatched', () => {
+    expect(matchPath('/invoices/:id', '/payments/%E0')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+
+export interface RouteRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  // Where this server is reached from outside, for links back to it
+  baseUrl: string;
+}
+
+export interface RouteResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface Route<R extends RouteRequest = RouteRequest> {
+  method: 'GET' | 'POST';
+  pattern: string;
+  handle(request: R): Promise<RouteResponse>;
+}
+
+// Thrown by handlers to answer with a status other than 500
+export class HttpError extends Error {
+  name = 'HttpError';
+
+  constructor(readonly status: number, message: string, readonly details?: string[]) {
+    super(message);
+  }
+}
+
+export async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export function parseJson(body: string): Record<string, unknown> {
+  if (!body) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  const payload = JSON.stringify(body);
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+    ...headers
+  });
+  response.end(payload);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`);
+  }
+}
+
+// Match a path against a pattern like `/payments/:id`; returns the named segments or null.
+// Throws a 400 when a matched segment isn't valid percent-encoding.
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const raw: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      if (!pathParts[i]) return null;
+      raw[patternParts[i].slice(1)] = pathParts[i];
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  // Decoded only once the whole path matched, so a bad segment can't fail another route
+  return Object.fromEntries(Object.entries(raw).map(([name, segment]) => [name, decodeSegment(segment)]));
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorageAdapter } from '../src/utils/storage';
+import { IDEMPOTENCY_LEASE_MS, createIdempotencyStore } from './idempotency';
+
+describe('idempotency store', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the first response to retries with the same request', async () => {
+    const store = createIdempotencyStore(createMemoryStorageAdapter());
+
+    expect(await store.begin('key', 'POST /payments {}')).toEqual({ state: 'started' });
+    expect(await store.begin('key', 'POST /payments {}')).toEqual({ state: 'in_progress' });
+    await store.complete('key', { status: 201, body: { id: 'pay_1' } });
+    expect(await store.begin('key', 'POST /payments {}'))
+      .toEqual({ state: 'replay', response: { status: 201, body: { id: 'pay_1' } } });
+    expect(await store.begin('key', 'POST /payments {"amount":1}')).toEqual({ state: 'mismatch' });
+  });
+
+  it('lets a retry take over a request that never answered within the lease', async () => {
+    vi.useFakeTimers();
+    const store = createIdempotencyStore(createMemoryStorageAdapter());
+
+    await store.begin('key', 'POST /payments {}');
+    vi.advanceTimersByTime(IDEMPOTENCY_LEASE_MS);
+    expect(await store.begin('key', 'POST /payments {}')).toEqual({ state: 'in_progress' });
+
+    vi.advanceTimersByTime(1);
+    expect(await store.begin('key', 'POST /payments {"amount":1}')).toEqual({ state: 'mismatch' });
+    expect(await store.begin('key', 'POST /payments {}')).toEqual({ state: 'started' });
+    // The retry holds a fresh lease
+    expect(await store.begin('key', 'POST /payments {}')).toEqual({ state: 'in_progress' });
+  });
+
+  it('forgets answered keys after the TTL', async () => {
+    vi.useFakeTimers();
+    const store = createIdempotencyStore(createMemoryStorageAdapter(), 1000);
+
+    await store.begin('key', 'POST /payments {}');
+    await store.complete('key', { status: 201, body: {} });
+    vi.advanceTimersByTime(1001);
+    expect(await store.begin('key', 'POST /payments {"amount":1}')).toEqual({ state: 'started' });
+  });
+});
@@ -0,0 +1,84 @@
+import { StorageAdapter } from '../src/utils/storage';
+import { RouteResponse } from './http';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// A request still unanswered after this was cut off, e.g. by a crash, and its key may be reused
+export const IDEMPOTENCY_LEASE_MS = 2 * 60 * 1000; // 2 minutes
+
+const RECORDS_KEY = 'idempotency-keys';
+
+interface IdempotencyRecord {
+  // Method, path and body of the request that first used the key
+  fingerprint: string;
+  createdAt: number;
+  // Absent while that request is still being handled
+  response?: RouteResponse;
+}
+
+export type IdempotencyResult =
+  | { state: 'started' }
+  | { state: 'replay'; response: RouteResponse }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+export interface IdempotencyStore {
+  // Claim `key` for a request; only the first request with the key gets 'started', unless
+  // that one never finished within the lease
+  begin(key: string, fingerprint: string): Promise<IdempotencyResult>;
+  // Remember the response so retries with the key get it back
+  complete(key: string, response: RouteResponse): Promise<void>;
+  // Free the key after a failure worth retrying with the same key
+  release(key: string): Promise<void>;
+}
+
+export function createIdempotencyStore(
+  storage: StorageAdapter,
+  ttlMs: number = IDEMPOTENCY_TTL_MS,
+  leaseMs: number = IDEMPOTENCY_LEASE_MS
+): IdempotencyStore {
+  // Every operation is read-modify-write, so run them one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const update = <T>(change: (records: Record<string, IdempotencyRecord>) => T): Promise<T> => {
+    const result = pending.then(async () => {
+      const stored = (await storage.getItem<Record<string, IdempotencyRecord>>(RECORDS_KEY)) || {};
+      const cutoff = Date.now() - ttlMs;
+      const records = Object.fromEntries(
+        Object.entries(stored).filter(([, record]) => record.createdAt >= cutoff)
+      );
+      const value = change(records);
+      await storage.setItem(RECORDS_KEY, records);
+      return value;
+    });
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    begin(key, fingerprint) {
+      return update((records): IdempotencyResult => {
+        const record = records[key];
+        const abandoned = record && !record.response && record.createdAt < Date.now() - leaseMs;
+        if (!record || (abandoned && record.fingerprint === fingerprint)) {
+          records[key] = { fingerprint, createdAt: Date.now() };
+          return { state: 'started' };
+        }
+        if (record.fingerprint !== fingerprint) return { state: 'mismatch' };
+        return record.response ? { state: 'replay', response: record.response } : { state: 'in_progress' };
+      });
+    },
+
+    async complete(key, response) {
+      await update(records => {
+        if (records[key]) records[key] = { ...records[key], response };
+      });
+    },
+
+    async release(key) {
+      await update(records => {
+        delete records[key];
+      });
+    }
+  };
+}
@@ -0,0 +1,21 @@
+import { loadServerConfig } from './config';
+import { startGatewayServer } from './server';
+
+try {
+  const server = await startGatewayServer(loadServerConfig());
+  console.log(`Payment API listening on ${server.url}`);
+
+  const shutdown = () => {
+    server.close()
+      .then(() => process.exit(0))
+      .catch(error => {
+        console.error('Error stopping server:', error);
+        process.exit(1);
+      });
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+} catch (error) {
+  console.error('Error starting server:', error);
+  process.exit(1);
+}
@@ -0,0 +1,37 @@
+import { Invoice } from '../src/types';
+import { StorageAdapter } from '../src/utils/storage';
+
+// Same key the dashboard keeps its invoices under
+const INVOICES_KEY = 'invoices';
+
+export interface InvoiceStore {
+  get(id: string): Promise<Invoice | null>;
+  // Inserts the invoice, or replaces the stored invoice with the same id
+  save(invoice: Invoice): Promise<Invoice>;
+}
+
+export function createInvoiceStore(storage: StorageAdapter): InvoiceStore {
+  // Saves are read-modify-write, so run them one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async () => (await storage.getItem<Invoice[]>(INVOICES_KEY)) || [];
+
+  return {
+    async get(id) {
+      return (await load()).find(invoice => invoice.id === id) || null;
+    },
+
+    save(invoice) {
+      const saved = pending.then(async () => {
+        const invoices = await load();
+        const exists = invoices.some(other => other.id === invoice.id);
+        await storage.setItem(INVOICES_KEY, exists
+          ? invoices.map(other => (other.id === invoice.id ? invoice : other))
+          : [...invoices, invoice]);
+        return invoice;
+      });
+      pending = saved.catch(() => undefined);
+      return saved;
+    }
+  };
+}
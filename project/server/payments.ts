@@ -0,0 +1,436 @@
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { Invoice, Merchant, Payment, TokenInfo } from '../src/types';
+import {
+  TOKENS,
+  connection,
+  createPaymentTransaction,
+  fromBaseUnits,
+  isValidPublicKey,
+  toBaseUnits
+} from '../src/utils/solana';
+import { createSwapAndPayTransaction, getQuote, toSwapResult } from '../src/utils/jupiter';
+import { createPaymentReference, createTransferRequestURL } from '../src/utils/solanaPay';
+import { watchPayment } from '../src/utils/paymentWatcher';
+import { getAcceptedTokens, resolveToken } from '../src/utils/tokenRegistry';
+import { getGrossAmount, getMintDetails, getNetAmount, hasTransferFee } from '../src/utils/tokenProgram';
+import { MerchantRegistry, getSettlementWallet } from '../src/utils/merchants';
+import {
+  applyPaymentToInvoice,
+  isInvoicePayable,
+  isQuoteValid,
+  lockInvoiceQuote,
+  settleInvoicePayment
+} from '../src/utils/invoices';
+import { valuePayment } from '../src/utils/pricing';
+import { calculateSplits } from '../src/utils/splits';
+import { createEscrow, holdEscrow } from '../src/utils/escrow';
+import { SPEED_TIERS, SpeedTier } from '../src/utils/priorityFees';
+import { PaymentRepository } from '../src/utils/paymentRepository';
+import { EventBus } from '../src/utils/events';
+import { createId } from '../src/utils/ids';
+import { HttpError } from './http';
+import { InvoiceStore } from './invoices';
+
+// Long enough for a customer to approve in their wallet after the server hands back the
+// transaction or payment link
+export const PAYMENT_WATCH_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface CreatePaymentRequest {
+  // What the merchant receives, in `token`; defaults to what an invoice still owes
+  amount?: number;
+  // Mint the merchant is paid in; the merchant's preferred token when unset
+  token?: string;
+  // Customer wallet; the response then carries an unsigned transaction for it to sign
+  account?: string;
+  // Mint the customer pays with, swapped into `token` through Jupiter by the returned
+  // transaction or the transaction request link
+  inputToken?: string;
+  invoiceId?: string;
+  speed?: SpeedTier;
+  // Carried by the payment transaction, e.g. an order number
+  memo?: string;
+  label?: string;
+  message?: string;
+  // Pay into the gateway's escrow wallet, to be released by the merchant or refunded
+  escrow?: boolean;
+  // How long escrowed funds wait for release before going back to the customer
+  escrowTimeoutMs?: number;
+}
+
+export interface CreatePaymentResponse {
+  payment: Payment;
+  // Solana Pay transfer request, for wallets that build the transaction themselves. A transfer
+  // request can't split a payment or say who paid, so split and escrowed payments get the
+  // transaction request link instead.
+  url: string;
+  // Base64, unsigned; only when `account` was given
+  transaction?: string;
+}
+
+export interface PaymentTransaction {
+  payment: Payment;
+  // Base64, unsigned
+  transaction: string;
+  // Shown by the wallet alongside the transaction
+  message: string;
+}
+
+export interface PaymentService {
+  create(merchant: Merchant, request: CreatePaymentRequest): Promise<CreatePaymentResponse>;
+  // Build the transaction that pays a pending payment from `account`, as a Solana Pay
+  // transaction request does once the wallet says who is paying
+  createTransaction(
+    paymentId: string,
+    account: string,
+    options?: { inputToken?: string; speed?: SpeedTier }
+  ): Promise<PaymentTransaction>;
+  // Pick up watching payments left pending by a previous run
+  resume(): Promise<void>;
+  // Stop every watch, e.g. before the process exits
+  close(): void;
+}
+
+// Returns a list of problems with the request body; an empty list means it can be created
+export function validatePaymentRequest(body: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  if (body.amount !== undefined && !(typeof body.amount === 'number' && body.amount > 0)) {
+    errors.push('amount must be a number greater than zero');
+  }
+  if (body.amount === undefined && !body.invoiceId) {
+    errors.push('amount is required unless paying an invoice');
+  }
+  for (const field of ['token', 'account', 'inputToken'] as const) {
+    if (body[field] !== undefined && !isValidPublicKey(body[field])) {
+      errors.push(`${field} is not a valid Solana address`);
+    }
+  }
+  if (body.speed !== undefined && !(SPEED_TIERS as unknown[]).includes(body.speed)) {
+    errors.push(`speed must be one of ${SPEED_TIERS.join(', ')}`);
+  }
+  for (const field of ['invoiceId', 'memo', 'label', 'message'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (body.escrow !== undefined && typeof body.escrow !== 'boolean') {
+    errors.push('escrow must be a boolean');
+  }
+  const { escrowTimeoutMs } = body;
+  if (escrowTimeoutMs !== undefined && !(Number.isInteger(escrowTimeoutMs) && (escrowTimeoutMs as number) > 0)) {
+    errors.push('escrowTimeoutMs must be a whole number above zero');
+  } else if (escrowTimeoutMs !== undefined && !body.escrow) {
+    errors.push('escrowTimeoutMs only applies to escrowed payments');
+  }
+  return errors;
+}
+
+export function serializeTransaction(transaction: Transaction | VersionedTransaction): string {
+  const bytes = transaction instanceof VersionedTransaction
+    ? transaction.serialize()
+    // The customer signs later, so there are no signatures to require yet
+    : transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+  return Buffer.from(bytes).toString('base64');
+}
+
+export function createPaymentService(
+  repository: PaymentRepository,
+  invoices: InvoiceStore,
+  merchants: MerchantRegistry,
+  eventBus: EventBus,
+  // The wallet an escrowed payment is paid into; escrow is unavailable when unset
+  getEscrowWallet?: (paymentId: string) => string
+): PaymentService {
+  const watches = new AbortController();
+
+  // Escrowed payments land in the escrow wallet; everything else goes straight to the merchant
+  const getRecipient = (merchant: Merchant, payment: Payment) =>
+    payment.escrow?.wallet || getSettlementWallet(merchant);
+
+  const resolve = async (mint: string) => {
+    try {
+      return await resolveToken(mint);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : `Unknown token: ${mint}`);
+    }
+  };
+
+  const assertAccepted = (merchant: Merchant, token: TokenInfo) => {
+    const accepted = getAcceptedTokens(merchant.acceptedTokens, [token]);
+    if (accepted.length === 0) {
+      throw new HttpError(400, `${merchant.name} does not accept ${token.symbol}`);
+    }
+  };
+
+  // A Token-2022 transfer fee would be taken again when escrow pays out, leaving the payout
+  // short of what escrow holds. SOL opens the payment's escrow wallet, which needs enough to
+  // be rent exempt.
+  const prepareEscrow = async (paymentId: string, token: TokenInfo, amount: number, timeoutMs?: number) => {
+    if (!getEscrowWallet) {
+      throw new HttpError(503, 'Escrow is disabled; set GATEWAY_ESCROW_KEYPAIR to enable it');
+    }
+    if (token.mint === TOKENS.SOL.mint) {
+      const minimum = await connection.getMinimumBalanceForRentExemption(0);
+      if (toBaseUnits(amount, token.decimals) < minimum) {
+        throw new HttpError(400, `Escrowed SOL payments must be at least ${fromBaseUnits(minimum, token.decimals)} SOL`);
+      }
+    } else if (hasTransferFee(await getMintDetails(token.mint))) {
+      throw new HttpError(400, `${token.symbol} charges a transfer fee, so it can't be held in escrow`);
+    }
+    return createEscrow(getEscrowWallet(paymentId), timeoutMs);
+  };
+
+  // Pay an invoice at its locked price, locking a fresh one when it lapsed or was for another token
+  const prepareInvoice = async (merchant: Merchant, invoiceId: string, token: TokenInfo): Promise<Invoice> => {
+    const invoice = await invoices.get(invoiceId);
+    if (!invoice || invoice.merchantId !== merchant.id) {
+      throw new HttpError(404, `Invoice not found: ${invoiceId}`);
+    }
+    if (!isInvoicePayable(invoice)) {
+      throw new HttpError(409, 'Invoice can no longer be paid');
+    }
+    if (isQuoteValid(invoice.quote) && invoice.quote.token === token.mint) {
+      return invoice;
+    }
+    try {
+      return await invoices.save(await lockInvoiceQuote(invoice, token));
+    } catch (error) {
+      console.error('Error locking invoice quote:', error);
+      throw new HttpError(502, 'Failed to price the invoice in the payment token');
+    }
+  };
+
+  // The watcher holds the payment as it was created, but a transaction request may have
+  // recorded the customer and swap since, so its changes go onto the stored record
+  const applyWatchUpdate = async (update: Payment): Promise<Payment> => {
+    const stored = await repository.get(update.id);
+    if (!stored) return update;
+    const { status, txSignature, timestamp, receivedAmount, networkFee, failureReason } = update;
+    // Once paid, the wallet that signed the transaction is the customer, whoever asked for it
+    const customerWallet = status === 'completed' ? update.customerWallet : stored.customerWallet;
+    return { ...stored, status, txSignature, timestamp, receivedAmount, networkFee, failureReason, customerWallet };
+  };
+
+  const finish = async (settled: Payment) => {
+    let payment = await applyWatchUpdate(settled);
+    if (payment.swap && payment.txSignature) {
+      payment = { ...payment, swap: { ...payment.swap, txSignature: payment.txSignature } };
+    }
+
+    const invoice = payment.invoiceId ? await invoices.get(payment.invoiceId) : null;
+    if (invoice) {
+      payment = settleInvoicePayment(invoice, payment);
+      await invoices.save(applyPaymentToInvoice(invoice, payment));
+    }
+    if (payment.status === 'completed' && payment.escrow) {
+      payment = { ...payment, escrow: holdEscrow(payment.escrow) };
+    }
+    if (payment.status === 'completed' && payment.fiatAmount === undefined) {
+      // Prices move, so the fiat value for the books has to be taken now
+      payment = await valuePayment(payment).catch(error => {
+        console.error('Error valuing payment:', error);
+        return payment;
+      });
+    }
+
+    await repository.save(payment);
+    eventBus.publish(payment.status === 'completed' ? 'payment.confirmed' : 'payment.failed', payment);
+  };
+
+  const watch = (payment: Payment, merchant: Merchant, timeoutMs: number) => {
+    watchPayment(payment, {
+      recipient: getRecipient(merchant, payment),
+      timeoutMs,
+      signal: watches.signal,
+      // Escrow refunds and disputes trust the customer wallet, so it comes from the chain
+      recordPayer: true,
+      onStatusChange: update => {
+        if (update.status !== 'processing') return;
+        applyWatchUpdate(update)
+          .then(repository.save)
+          .then(payment => eventBus.publish('payment.created', payment))
+          .catch(error => console.error('Error recording payment:', error));
+      }
+    })
+      .then(finish)
+      .catch(error => {
+        if (!watches.signal.aborted) console.error('Error watching payment:', error);
+      });
+  };
+
+  // The payment transaction for `account` to sign: a plain transfer, or a swap out of
+  // `inputToken` that pays the merchant from the proceeds
+  const buildTransaction = async (
+    merchant: Merchant,
+    payment: Payment,
+    account: string,
+    inputToken: TokenInfo | null,
+    speed?: SpeedTier
+  ): Promise<{ payment: Payment; transaction: Transaction | VersionedTransaction }> => {
+    const token = await resolve(payment.token);
+    const from = new PublicKey(account);
+    const recipient = new PublicKey(getRecipient(merchant, payment));
+    const reference = new PublicKey(payment.reference as string);
+
+    try {
+      if (inputToken) {
+        // Quote exactly what the merchant is owed, so the customer covers any transfer fee
+        const quote = await getQuote(
+          inputToken,
+          token,
+          await getGrossAmount(payment.amount, token),
+          { swapMode: 'ExactOut', slippageBps: merchant.maxSlippageBps }
+        );
+        const swap = toSwapResult(quote, inputToken, token, '');
+        return {
+          payment: { ...payment, customerWallet: account, amount: await getNetAmount(swap.outputAmount, token), swap },
+          transaction: await createSwapAndPayTransaction(
+            quote,
+            token,
+            from,
+            recipient,
+            reference,
+            speed,
+            payment.memo,
+            payment.splits
+          )
+        };
+      }
+
+      return {
+        payment: { ...payment, customerWallet: account, swap: undefined },
+        transaction: await createPaymentTransaction(
+          payment.amount,
+          token.mint,
+          from,
+          recipient,
+          reference,
+          speed,
+          payment.memo,
+          payment.splits
+        )
+      };
+    } catch (error) {
+      console.error('Error building payment transaction:', error);
+      throw new HttpError(502, error instanceof Error ? error.message : 'Failed to build payment transaction');
+    }
+  };
+
+  return {
+    async create(merchant, request) {
+      const token = await resolve(request.token || merchant.preferredToken);
+      const inputToken = request.inputToken && request.inputToken !== token.mint
+        ? await resolve(request.inputToken)
+        : null;
+      assertAccepted(merchant, inputToken || token);
+
+      const invoice = request.invoiceId ? await prepareInvoice(merchant, request.invoiceId, token) : null;
+      const amount = request.amount ?? invoice?.quote?.amount;
+      if (!amount) {
+        throw new HttpError(400, 'amount is required');
+      }
+
+      const id = createId('payment');
+      const escrow = request.escrow
+        ? await prepareEscrow(id, token, amount, request.escrowTimeoutMs)
+        : undefined;
+      const reference = createPaymentReference();
+      let payment: Payment = {
+        id,
+        amount,
+        token: token.mint,
+        status: 'pending',
+        timestamp: Date.now(),
+        merchantId: merchant.id,
+        reference,
+        memo: request.memo,
+        invoiceId: invoice?.id,
+        // Taken now so the watcher checks every recipient got its cut; escrow takes them on release
+        splits: escrow ? undefined : calculateSplits(amount, token.decimals, merchant.splits),
+        escrow
+      };
+
+      let transaction: Transaction | VersionedTransaction | undefined;
+      if (request.account) {
+        ({ payment, transaction } = await buildTransaction(merchant, payment, request.account, inputToken, request.speed));
+      }
+
+      let url: URL;
+      try {
+        url = createTransferRequestURL({
+          recipient: getRecipient(merchant, payment),
+          amount: payment.amount,
+          token: token.mint,
+          reference,
+          label: request.label || merchant.name,
+          message: request.message,
+          memo: request.memo
+        });
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : 'Invalid payment request');
+      }
+
+      await repository.save(payment);
+      watch(payment, merchant, PAYMENT_WATCH_TIMEOUT_MS);
+
+      return {
+        payment,
+        url: url.toString(),
+        transaction: transaction && serializeTransaction(transaction)
+      };
+    },
+
+    async createTransaction(paymentId, account, { inputToken: inputMint, speed } = {}) {
+      const stored = await repository.get(paymentId);
+      if (!stored) {
+        throw new HttpError(404, `Payment not found: ${paymentId}`);
+      }
+      if (stored.status !== 'pending') {
+        throw new HttpError(409, `Payment is already ${stored.status}`);
+      }
+      // Anyone with the link can ask, so the first wallet to do so keeps the payment
+      if (stored.customerWallet && stored.customerWallet !== account) {
+        throw new HttpError(409, 'Payment is already being paid from another wallet');
+      }
+      const merchant = await merchants.get(stored.merchantId);
+      if (!merchant) {
+        throw new HttpError(404, `Merchant not found: ${stored.merchantId}`);
+      }
+
+      const token = await resolve(stored.token);
+      const inputToken = inputMint && inputMint !== token.mint ? await resolve(inputMint) : null;
+      assertAccepted(merchant, inputToken || token);
+
+      const { payment, transaction } = await buildTransaction(merchant, stored, account, inputToken, speed);
+      await repository.save(payment);
+
+      const paying = `${payment.amount} ${token.symbol}`;
+      const payee = payment.escrow ? `escrow for ${merchant.name}` : merchant.name;
+      return {
+        payment,
+        transaction: serializeTransaction(transaction),
+        message: payment.swap
+          ? `Pay ${payment.swap.inputAmount} ${payment.swap.inputToken} for ${paying} to ${payee}`
+          : `Pay ${paying} to ${payee}`
+      };
+    },
+
+    async resume() {
+      // Payments already seen on chain are left to the reconciler; the watcher only
+      // picks payments up from pending
+      const { payments } = await repository.query({ status: 'pending' });
+      for (const payment of payments) {
+        // A subscription charge is looked up again by the subscription's next attempt
+        if (payment.subscriptionId) continue;
+        const merchant = await merchants.get(payment.merchantId);
+        if (!merchant) continue;
+        // One whose watch ran out while the server was down gets a single look at the chain,
+        // so it completes if it landed meanwhile and fails otherwise
+        watch(payment, merchant, Math.max(0, payment.timestamp + PAYMENT_WATCH_TIMEOUT_MS - Date.now()));
+      }
+    },
+
+    close() {
+      watches.abort();
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Merchant } from '../src/types';
+import { setNetwork } from '../src/utils/solana';
+import { configureJupiter } from '../src/utils/jupiter';
+import { createMerchantRegistry } from '../src/utils/merchants';
+import { createStoragePaymentRepository } from '../src/utils/paymentRepository';
+import { createEventBus } from '../src/utils/events';
+import { createDeliveryLog, createWebhookSink } from '../src/utils/webhooks';
+import { StorageAdapter } from '../src/utils/storage';
+import { ServerConfig } from './config';
+import { createFileStorageAdapter } from './fileStorage';
+import { createIdempotencyStore } from './idempotency';
+import { createInvoiceStore } from './invoices';
+import { createPaymentService } from './payments';
+import { createSubscriptionService, createSubscriptionStore } from './subscriptions';
+import { createEscrowService, deriveEscrowKeypair } from './escrow';
+import { createApiHandler } from './api';
+
+export interface GatewayServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function startGatewayServer(
+  config: ServerConfig,
+  storage: StorageAdapter = createFileStorageAdapter(config.dataDir)
+): Promise<GatewayServer> {
+  // The server is configured by its environment alone, so the choice isn't saved anywhere
+  if (config.network) setNetwork(config.network, false);
+  if (config.jupiterApiUrl) configureJupiter({ baseUrl: config.jupiterApiUrl });
+
+  const merchants = createMerchantRegistry(storage, config.merchants);
+  const repository = createStoragePaymentRepository(storage);
+  const invoices = createInvoiceStore(storage);
+  const eventBus = createEventBus();
+  const escrowKey = config.escrow;
+  const payments = createPaymentService(
+    repository,
+    invoices,
+    merchants,
+    eventBus,
+    escrowKey && (paymentId => deriveEscrowKeypair(escrowKey, paymentId).publicKey.toBase58())
+  );
+
+  // Merchants can't be edited through the API, so the list read at startup stays current
+  const webhookMerchants: Merchant[] = await merchants.list();
+  eventBus.addSink(createWebhookSink({
+    log: createDeliveryLog(storage),
+    getEndpoint: event => {
+      const owner = webhookMerchants.find(m => m.id === event.merchantId);
+      return owner?.webhookUrl && owner.webhookSecret
+        ? { url: owner.webhookUrl, secret: owner.webhookSecret }
+        : null;
+    }
+  }));
+
+  await payments.resume();
+
+  const subscriptions = config.delegate
+    ? createSubscriptionService(createSubscriptionStore(storage), repository, merchants, eventBus, config.delegate)
+    : undefined;
+  subscriptions?.start(config.subscriptionCheckIntervalMs);
+
+  const escrow = escrowKey ? createEscrowService(repository, eventBus, escrowKey) : undefined;
+  escrow?.start(config.escrowCheckIntervalMs);
+
+  const server = createServer(createApiHandler({
+    apiKeys: config.apiKeys,
+    merchants,
+    repository,
+    invoices,
+    payments,
+    idempotency: createIdempotencyStore(storage),
+    subscriptions,
+    escrow,
+    publicUrl: config.publicUrl
+  }));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, resolve);
+  });
+  const { address, port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address}:${port}`,
+    close() {
+      payments.close();
+      subscriptions?.close();
+      escrow?.close();
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import { PublicKey } from '@solana/web3.js';
+import { MerchantRegistry } from '../src/utils/merchants';
+import { PaymentRepository } from '../src/utils/paymentRepository';
+import { createTransactionRequestURL } from '../src/utils/solanaPay';
+import { SPEED_TIERS, SpeedTier } from '../src/utils/priorityFees';
+import { HttpError, Route } from './http';
+import { PaymentService } from './payments';
+
+const TRANSACTION_REQUEST_PATH = '/solana-pay';
+
+// Wallets call these from anywhere, web wallets included
+export const TRANSACTION_REQUEST_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept'
+};
+
+// The solana: URL a wallet scans to pay `paymentId` with a transaction built here. Query
+// parameters are passed back on each request: `inputToken` pays through a Jupiter swap.
+export function getTransactionRequestURL(
+  baseUrl: string,
+  paymentId: string,
+  options: { inputToken?: string; label?: string; message?: string } = {}
+): string {
+  const link = new URL(`${TRANSACTION_REQUEST_PATH}/${encodeURIComponent(paymentId)}`, baseUrl);
+  if (options.inputToken) link.searchParams.set('inputToken', options.inputToken);
+  return createTransactionRequestURL(link, options.label, options.message).toString();
+}
+
+// The two calls of the Solana Pay transaction request flow. They carry no API key: the payment
+// id in the link is what the merchant handed out, and it can only be paid, not read.
+export function createTransactionRequestRoutes(
+  repository: PaymentRepository,
+  merchants: MerchantRegistry,
+  payments: PaymentService
+): Route[] {
+  return [
+    {
+      method: 'GET',
+      pattern: `${TRANSACTION_REQUEST_PATH}/:id`,
+      async handle({ params }) {
+        const payment = await repository.get(params.id);
+        const merchant = payment && await merchants.get(payment.merchantId);
+        if (!payment || !merchant) {
+          throw new HttpError(404, `Payment not found: ${params.id}`);
+        }
+        return {
+          status: 200,
+          body: { label: merchant.name, icon: merchant.branding?.logoUrl }
+        };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: `${TRANSACTION_REQUEST_PATH}/:id`,
+      async handle({ params, query, body }) {
+        let account: string;
+        try {
+          account = new PublicKey(body.account as string).toBase58();
+        } catch {
+          throw new HttpError(400, 'account must be a valid Solana address');
+        }
+
+        const inputToken = query.get('inputToken') || undefined;
+        const speed = query.get('speed') || undefined;
+        if (speed && !(SPEED_TIERS as string[]).includes(speed)) {
+          throw new HttpError(400, `speed must be one of ${SPEED_TIERS.join(', ')}`);
+        }
+
+        const { transaction, message } = await payments.createTransaction(params.id, account, {
+          inputToken,
+          speed: speed as SpeedTier | undefined
+        });
+        return { status: 200, body: { transaction, message } };
+      }
+    }
+  ];
+}
@@ -0,0 +1,451 @@
+import { Keypair, LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Merchant, Payment, Subscription, SubscriptionPlan } from '../src/types';
+import { SignTransaction, connection } from '../src/utils/solana';
+import {
+  CreatePlanParams,
+  createApprovalTransaction,
+  createChargeTransaction,
+  createPlan,
+  createRevokeTransaction,
+  createSubscription,
+  getChargeAmount,
+  getDelegation,
+  getDunningRetryAt,
+  getPeriodEnd,
+  isSubscriptionLive
+} from '../src/utils/subscriptions';
+import { sendTransactionWithRetry } from '../src/utils/transactionSender';
+import { findReferenceSignature, transitionPayment, watchPayment } from '../src/utils/paymentWatcher';
+import { createPaymentReference } from '../src/utils/solanaPay';
+import { resolveToken } from '../src/utils/tokenRegistry';
+import { MerchantRegistry, getSettlementWallet } from '../src/utils/merchants';
+import { PaymentRepository } from '../src/utils/paymentRepository';
+import { valuePayment } from '../src/utils/pricing';
+import { calculateSplits } from '../src/utils/splits';
+import { EventBus } from '../src/utils/events';
+import { StorageAdapter } from '../src/utils/storage';
+import { createId } from '../src/utils/ids';
+import { HttpError } from './http';
+import { serializeTransaction } from './payments';
+
+export const SUBSCRIPTION_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+// How long a customer has to sign the approval before the subscription is dropped
+export const APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000; // 24 hours
+// The charge is already confirmed when the watch starts, so it only has to find it
+const CHARGE_WATCH_TIMEOUT_MS = 60 * 1000;
+// Below this the delegate can't be trusted to pay for charges, and every one would fail
+const MIN_DELEGATE_LAMPORTS = 0.001 * LAMPORTS_PER_SOL;
+
+const PLANS_KEY = 'subscription-plans';
+const SUBSCRIPTIONS_KEY = 'subscriptions';
+
+interface Collection<T extends { id: string }> {
+  get(id: string): Promise<T | null>;
+  list(): Promise<T[]>;
+  // Inserts the item, or replaces the stored item with the same id
+  save(item: T): Promise<T>;
+}
+
+export interface SubscriptionStore {
+  plans: Collection<SubscriptionPlan>;
+  subscriptions: Collection<Subscription>;
+}
+
+function createCollection<T extends { id: string }>(storage: StorageAdapter, key: string): Collection<T> {
+  // Saves are read-modify-write, so run them one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async () => (await storage.getItem<T[]>(key)) || [];
+
+  return {
+    async get(id) {
+      return (await load()).find(item => item.id === id) || null;
+    },
+
+    list: load,
+
+    save(item) {
+      const saved = pending.then(async () => {
+        const items = await load();
+        const exists = items.some(other => other.id === item.id);
+        await storage.setItem(key, exists
+          ? items.map(other => (other.id === item.id ? item : other))
+          : [...items, item]);
+        return item;
+      });
+      pending = saved.catch(() => undefined);
+      return saved;
+    }
+  };
+}
+
+export function createSubscriptionStore(storage: StorageAdapter): SubscriptionStore {
+  return {
+    plans: createCollection<SubscriptionPlan>(storage, PLANS_KEY),
+    subscriptions: createCollection<Subscription>(storage, SUBSCRIPTIONS_KEY)
+  };
+}
+
+export interface SubscriptionTransaction {
+  subscription: Subscription;
+  // Base64, unsigned; for the customer to sign
+  transaction: string;
+  // Shown by the wallet alongside the transaction
+  message: string;
+}
+
+export interface CanceledSubscription {
+  subscription: Subscription;
+  // Base64, unsigned revoke for the customer to sign. Absent when the customer's other
+  // subscriptions still draw on the same delegation, or the revoke couldn't be built.
+  transaction?: string;
+}
+
+export interface SubscriptionService {
+  createPlan(params: CreatePlanParams): Promise<SubscriptionPlan>;
+  getPlan(id: string): Promise<SubscriptionPlan | null>;
+  get(id: string): Promise<Subscription | null>;
+  list(merchantId: string): Promise<Subscription[]>;
+  // Start a subscription for `account`; it activates once the returned approval lands
+  subscribe(plan: SubscriptionPlan, merchant: Merchant, account: string): Promise<SubscriptionTransaction>;
+  // A fresh approval for a live subscription, e.g. once its allowance runs out
+  createApproval(subscription: Subscription, merchant: Merchant): Promise<SubscriptionTransaction>;
+  cancel(subscription: Subscription, reason?: string): Promise<CanceledSubscription>;
+  // Activate approved subscriptions and charge every one that is due
+  chargeDue(): Promise<void>;
+  // Run chargeDue on a timer until closed
+  start(intervalMs?: number): void;
+  close(): void;
+}
+
+function describeInterval(plan: SubscriptionPlan): string {
+  return plan.intervalCount === 1 ? plan.interval : `${plan.intervalCount} ${plan.interval}s`;
+}
+
+// Pulls each period's charge with the customer's approved allowance. A charge that can't go
+// through leaves the subscription past due and is retried on the dunning schedule; the
+// period's Payment stays pending across retries and fails only when they run out.
+export function createSubscriptionService(
+  store: SubscriptionStore,
+  repository: PaymentRepository,
+  merchants: MerchantRegistry,
+  eventBus: EventBus,
+  delegate: Keypair
+): SubscriptionService {
+  const watches = new AbortController();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running: Promise<void> | null = null;
+
+  const signWithDelegate: SignTransaction = async transaction => {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([delegate]);
+    } else {
+      transaction.sign(delegate);
+    }
+    return transaction;
+  };
+
+  // Charges take a while, so their outcome is merged into the latest record; a
+  // cancellation that came in meanwhile stands
+  const update = async (id: string, changes: Partial<Subscription>): Promise<Subscription> => {
+    const current = await store.subscriptions.get(id);
+    if (!current) {
+      throw new Error(`Subscription not found: ${id}`);
+    }
+    return store.subscriptions.save(current.status === 'canceled'
+      ? { ...current, ...changes, status: 'canceled' }
+      : { ...current, ...changes });
+  };
+
+  const savePayment = async (payment: Payment) => {
+    await repository.save(payment);
+    if (payment.status === 'completed') eventBus.publish('payment.confirmed', payment);
+    if (payment.status === 'failed') eventBus.publish('payment.failed', payment);
+  };
+
+  const end = async (subscription: Subscription, reason: string, changes: Partial<Subscription> = {}) => {
+    const pendingPayment = subscription.pendingPaymentId
+      ? await repository.get(subscription.pendingPaymentId)
+      : null;
+    if (pendingPayment?.status === 'pending') {
+      await savePayment(transitionPayment(pendingPayment, 'failed', { failureReason: reason }));
+    }
+
+    const canceled = await update(subscription.id, {
+      ...changes,
+      status: 'canceled',
+      canceledAt: Date.now(),
+      cancelReason: reason,
+      pendingPaymentId: undefined
+    });
+    eventBus.publish('subscription.canceled', canceled);
+    return canceled;
+  };
+
+  // Count a failed charge against the dunning schedule
+  const fail = async (subscription: Subscription, payment: Payment | null, reason: string) => {
+    const failedAttempts = subscription.failedAttempts + 1;
+    const retryAt = getDunningRetryAt(failedAttempts);
+
+    if (retryAt === null) {
+      if (payment) await savePayment(transitionPayment(payment, 'failed', { failureReason: reason }));
+      await end(subscription, `Charge failed ${failedAttempts} times: ${reason}`, { failedAttempts, lastFailureReason: reason });
+      return;
+    }
+
+    if (payment) await repository.save({ ...payment, failureReason: reason });
+    const pastDue = await update(subscription.id, {
+      status: 'past_due',
+      failedAttempts,
+      nextChargeAt: retryAt,
+      lastFailureReason: reason,
+      pendingPaymentId: payment?.id
+    });
+    if (pastDue.status === 'past_due') eventBus.publish('subscription.past_due', pastDue);
+  };
+
+  // Why the delegate can't pull a charge right now, if it can't
+  const checkFunds = async (subscription: Subscription, plan: SubscriptionPlan): Promise<string | null> => {
+    const [amount, { balance, delegatedAmount }] = await Promise.all([
+      getChargeAmount(plan),
+      getDelegation(subscription, plan)
+    ]);
+    if (delegatedAmount < amount) {
+      return 'The approved allowance is used up; the customer needs to approve again';
+    }
+    if (balance < amount) {
+      return 'Insufficient balance';
+    }
+    return null;
+  };
+
+  const charge = async (subscription: Subscription, plan: SubscriptionPlan, merchant: Merchant) => {
+    const periodStart = subscription.currentPeriodEnd ?? Date.now();
+    const stored = subscription.pendingPaymentId ? await repository.get(subscription.pendingPaymentId) : null;
+    const { decimals } = await resolveToken(plan.token);
+    const payment: Payment = stored?.status === 'pending' ? stored : {
+      id: createId('payment'),
+      amount: plan.amount,
+      token: plan.token,
+      status: 'pending',
+      timestamp: Date.now(),
+      merchantId: merchant.id,
+      customerWallet: subscription.customerWallet,
+      reference: createPaymentReference(),
+      subscriptionId: subscription.id,
+      splits: calculateSplits(plan.amount, decimals, merchant.splits)
+    };
+    await repository.save(payment);
+
+    const recipient = getSettlementWallet(merchant);
+    // A charge sent by an earlier attempt may have landed after all; settle it rather than
+    // pull a second time. One that failed on chain pulled nothing, so it's sent again.
+    if (!(await findReferenceSignature(payment.reference as string, delegate.publicKey.toBase58()))) {
+      const problem = await checkFunds(subscription, plan);
+      if (problem) {
+        await fail(subscription, payment, problem);
+        return;
+      }
+      try {
+        await sendTransactionWithRetry(
+          () => createChargeTransaction(
+            subscription,
+            plan,
+            new PublicKey(recipient),
+            new PublicKey(payment.reference as string),
+            payment.splits
+          ),
+          signWithDelegate,
+          // Nobody has to sign again, so an expired charge is always worth rebuilding
+          { onBlockhashExpired: async () => true }
+        );
+      } catch (error) {
+        console.error('Error sending subscription charge:', error);
+        await fail(subscription, payment, error instanceof Error ? error.message : 'Failed to send the charge');
+        return;
+      }
+    }
+
+    const settled = await watchPayment(payment, {
+      recipient,
+      timeoutMs: CHARGE_WATCH_TIMEOUT_MS,
+      signal: watches.signal
+    });
+    if (settled.status !== 'completed') {
+      // The charge may still land, so the Payment stays pending with its reference; the next
+      // attempt looks for it before pulling again, and it fails only when the retries run out
+      await fail(subscription, payment, settled.failureReason || 'Charge failed');
+      return;
+    }
+
+    // Prices move, so the fiat value for the books has to be taken now
+    await savePayment(await valuePayment(settled).catch(error => {
+      console.error('Error valuing payment:', error);
+      return settled;
+    }));
+    const periodEnd = getPeriodEnd(periodStart, plan);
+    await update(subscription.id, {
+      status: 'active',
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      nextChargeAt: periodEnd,
+      failedAttempts: 0,
+      pendingPaymentId: undefined,
+      lastFailureReason: undefined
+    });
+  };
+
+  const collect = async (due: Subscription) => {
+    const [plan, merchant] = await Promise.all([store.plans.get(due.planId), merchants.get(due.merchantId)]);
+    if (!plan || !merchant) {
+      await end(due, 'The plan or merchant no longer exists');
+      return;
+    }
+
+    let subscription = due;
+    if (subscription.status === 'incomplete') {
+      const [amount, { delegatedAmount }] = await Promise.all([getChargeAmount(plan), getDelegation(subscription, plan)]);
+      if (delegatedAmount < amount) {
+        if (Date.now() - subscription.createdAt > APPROVAL_TIMEOUT_MS) {
+          await end(subscription, 'The customer never approved the subscription');
+        }
+        return;
+      }
+      subscription = await update(subscription.id, { status: 'active', nextChargeAt: Date.now() });
+      if (subscription.status !== 'active') return;
+      eventBus.publish('subscription.activated', subscription);
+    }
+
+    await charge(subscription, plan, merchant);
+  };
+
+  const buildApproval = async (
+    customerWallet: string,
+    plan: SubscriptionPlan,
+    merchant: Merchant
+  ): Promise<{ transaction: string; message: string; tokenAccount: string }> => {
+    try {
+      const token = await resolveToken(plan.token);
+      const { transaction, tokenAccount } = await createApprovalTransaction(
+        plan,
+        new PublicKey(customerWallet),
+        delegate.publicKey
+      );
+      return {
+        transaction: serializeTransaction(transaction),
+        message: `Allow ${merchant.name} to charge ${plan.amount} ${token.symbol} every ${describeInterval(plan)} for ${plan.name}`,
+        tokenAccount: tokenAccount.toBase58()
+      };
+    } catch (error) {
+      console.error('Error building approval transaction:', error);
+      throw new HttpError(502, error instanceof Error ? error.message : 'Failed to build approval transaction');
+    }
+  };
+
+  const chargeDue = async () => {
+    const lamports = await connection.getBalance(delegate.publicKey);
+    if (lamports < MIN_DELEGATE_LAMPORTS) {
+      // Failing the customers' charges would be unfair when it's the gateway that can't pay
+      console.error(`Subscription delegate ${delegate.publicKey.toBase58()} needs SOL for network fees; charges are on hold`);
+      return;
+    }
+
+    const now = Date.now();
+    const due = (await store.subscriptions.list())
+      .filter(subscription => isSubscriptionLive(subscription) && subscription.nextChargeAt <= now);
+    for (const subscription of due) {
+      if (watches.signal.aborted) return;
+      try {
+        await collect(subscription);
+      } catch (error) {
+        if (!watches.signal.aborted) console.error(`Error charging subscription ${subscription.id}:`, error);
+      }
+    }
+  };
+
+  return {
+    async createPlan(params) {
+      try {
+        await resolveToken(params.token);
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : `Unknown token: ${params.token}`);
+      }
+      return store.plans.save(createPlan(params));
+    },
+
+    getPlan: store.plans.get,
+
+    get: store.subscriptions.get,
+
+    async list(merchantId) {
+      return (await store.subscriptions.list()).filter(subscription => subscription.merchantId === merchantId);
+    },
+
+    async subscribe(plan, merchant, account) {
+      const customerWallet = new PublicKey(account).toBase58();
+      const { transaction, message, tokenAccount } = await buildApproval(customerWallet, plan, merchant);
+      const subscription = await store.subscriptions.save(
+        createSubscription(plan, customerWallet, tokenAccount, delegate.publicKey.toBase58())
+      );
+      return { subscription, transaction, message };
+    },
+
+    async createApproval(subscription, merchant) {
+      if (!isSubscriptionLive(subscription)) {
+        throw new HttpError(409, 'Subscription is canceled');
+      }
+      const plan = await store.plans.get(subscription.planId);
+      if (!plan) {
+        throw new HttpError(404, `Plan not found: ${subscription.planId}`);
+      }
+      const { transaction, message } = await buildApproval(subscription.customerWallet, plan, merchant);
+      return { subscription, transaction, message };
+    },
+
+    async cancel(subscription, reason = 'Canceled by the merchant') {
+      if (!isSubscriptionLive(subscription)) {
+        throw new HttpError(409, 'Subscription is already canceled');
+      }
+      const canceled = await end(subscription, reason);
+
+      // A token account has one delegate, so revoking would also stop the customer's other
+      // subscriptions drawn from it; they keep the allowance and this one just isn't charged
+      const sharing = (await store.subscriptions.list()).some(other =>
+        isSubscriptionLive(other) &&
+        other.tokenAccount === subscription.tokenAccount &&
+        other.delegate === subscription.delegate
+      );
+      const plan = await store.plans.get(subscription.planId);
+      if (sharing || !plan) {
+        return { subscription: canceled };
+      }
+      try {
+        return { subscription: canceled, transaction: serializeTransaction(await createRevokeTransaction(canceled, plan)) };
+      } catch (error) {
+        console.error('Error building revoke transaction:', error);
+        return { subscription: canceled };
+      }
+    },
+
+    chargeDue,
+
+    start(intervalMs = SUBSCRIPTION_CHECK_INTERVAL_MS) {
+      const tick = () => {
+        // A slow run is left to finish rather than overlapped
+        if (running) return;
+        running = chargeDue()
+          .catch(error => console.error('Error charging subscriptions:', error))
+          .finally(() => {
+            running = null;
+          });
+      };
+      tick();
+      timer = setInterval(tick, intervalMs);
+    },
+
+    close() {
+      clearInterval(timer);
+      watches.abort();
+    }
+  };
+}
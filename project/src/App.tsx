@@ -1,72 +1,161 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Link, Navigate, Route, Routes, useLocation } from 'react-router-dom';
 import { WalletContextProvider } from './components/WalletContextProvider';
-import { PaymentForm } from './components/PaymentForm';
-import { Payment } from './types';
+import { NetworkSwitcher } from './components/NetworkSwitcher';
+import { CheckoutPage } from './pages/CheckoutPage';
+import { MerchantPortal } from './pages/MerchantPortal';
+import { ReceiptPage } from './pages/ReceiptPage';
+import { Invoice, Merchant, Payment, Refund } from './types';
 import { TOKENS } from './utils/solana';
+import { applyPaymentToInvoice, getInvoiceStatus } from './utils/invoices';
+import { valuePayment } from './utils/pricing';
+import { MerchantInput, createMerchantRegistry } from './utils/merchants';
+import { DEFAULT_SLIPPAGE_BPS } from './utils/jupiter';
+import { createLocalStorageAdapter } from './utils/storage';
+import { createInMemoryPaymentRepository } from './utils/paymentRepository';
+import { createIndexedDbPaymentRepository } from './utils/indexedDbPaymentRepository';
+import { createEventBus } from './utils/events';
+import { createDeliveryLog, createWebhookSink } from './utils/webhooks';
+import { createReconciler } from './utils/reconciler';
+import { useMerchantRegistry } from './hooks/useMerchantRegistry';
 import { Coins, CreditCard, LayoutDashboard } from 'lucide-react';
 
+// Demo merchant shown until merchants are saved to the registry
+const DEMO_MERCHANT: Merchant = {
+  id: 'merchant-1',
+  name: 'Solana Shop',
+  walletAddress: '5YNmS1R9nNSCDzb5a7mMJ1dwK9uHeAAF4CmPEwKgVWc8',
+  preferredToken: TOKENS.USDC.mint,
+  maxSlippageBps: DEFAULT_SLIPPAGE_BPS,
+  createdAt: 0
+};
+
+const INVOICES_KEY = 'invoices';
+const INVOICE_EXPIRY_CHECK_MS = 30 * 1000;
+
+const storage = createLocalStorageAdapter();
+const merchantRegistry = createMerchantRegistry(storage, [DEMO_MERCHANT]);
+// Private browsing modes can leave IndexedDB out, in which case payments last until reload
+const paymentRepository = typeof indexedDB === 'undefined'
+  ? createInMemoryPaymentRepository()
+  : createIndexedDbPaymentRepository();
+const eventBus = createEventBus();
+const deliveryLog = createDeliveryLog(storage);
+const reconciler = createReconciler(paymentRepository, storage);
+
 function App() {
-  // Mock merchant data
-  const merchant = {
-    id: 'merchant-1',
-    name: 'Solana Shop',
-    walletAddress: '5YNmS1R9nNSCDzb5a7mMJ1dwK9uHeAAF4CmPEwKgVWc8',
-    preferredToken: TOKENS.USDC.mint
-  };
+  const {
+    merchants,
+    isLoading: isLoadingMerchants,
+    createMerchant,
+    updateMerchant
+  } = useMerchantRegistry(merchantRegistry);
+  const [selectedMerchantId, setSelectedMerchantId] = useState<string>(DEMO_MERCHANT.id);
+  const merchant = merchants.find(m => m.id === selectedMerchantId) || merchants[0] || DEMO_MERCHANT;
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoadingInvoices, setIsLoadingInvoices] = useState<boolean>(true);
+
+  // Invoices are kept across reloads so a checkout link keeps working
+  useEffect(() => {
+    storage.getItem<Invoice[]>(INVOICES_KEY)
+      .then(stored => setInvoices(stored || []))
+      .catch(error => console.error('Error loading invoices:', error))
+      .finally(() => setIsLoadingInvoices(false));
+  }, []);
+
+  useEffect(() => {
+    if (isLoadingInvoices) return;
+    storage.setItem(INVOICES_KEY, invoices).catch(error =>
+      console.error('Error saving invoices:', error)
+    );
+  }, [invoices, isLoadingInvoices]);
 
-  // State for payments
-  const [payments, setPayments] = useState<Payment[]>([
-    {
-      id: 'payment-1',
-      amount: 10.5,
-      token: TOKENS.USDC.mint,
-      status: 'completed',
-      timestamp: Date.now() - 86400000, // 1 day ago
-      merchantId: merchant.id,
-      customerWallet: '7UX2i7SucgLMQcfZ75s3VXmZZY4YRUyJN9X1RgfMoDUi',
-      txSignature: '5SHVFJBFQcNNrAhAYbBbhy9NJ5AciWxSQqgLele8EJpjvuYVJ2v2odSfZTaZJxgLYSS3uUdwDwqQD1rhNAhzU9Vw'
-    },
-    {
-      id: 'payment-2',
-      amount: 5.25,
-      token: TOKENS.USDC.mint,
-      status: 'completed',
-      timestamp: Date.now() - 43200000, // 12 hours ago
-      merchantId: merchant.id,
-      customerWallet: '2qXdVr7JKRm4QfVA11vZ6FHPqvZXP4HxMrmdRP7isnKW',
-      txSignature: '3E1Ym2KLRxcALYVBCKPMvXiXBNwzMHia3vLZQKkELwvLCHqu5gVEoHaVo9kj9ZpXmD9YBpKxg4UWjcyYYCPxSvfy'
-    },
-    {
-      id: 'payment-3',
-      amount: 2.75,
-      token: TOKENS.SOL.mint,
-      status: 'completed',
-      timestamp: Date.now() - 21600000, // 6 hours ago
-      merchantId: merchant.id,
-      customerWallet: '9ZNTfG4NyQgxy2SWjSiQoUyBPEvXT2xo7fKc5hPYYJ7b',
-      txSignature: '4vJ5SrVB3pS6zm3VoqDpxJ7p1T5KpQ6zrz6x9wQZGmBvMX8vN9n3wPtQYKTcUy2UjnFqVuXhbr2qSxNVnqrWWPPZ'
+  // Forward events to the webhook of the merchant they belong to
+  useEffect(() => eventBus.addSink(createWebhookSink({
+    log: deliveryLog,
+    getEndpoint: event => {
+      const owner = merchants.find(m => m.id === event.merchantId);
+      return owner?.webhookUrl && owner.webhookSecret
+        ? { url: owner.webhookUrl, secret: owner.webhookSecret }
+        : null;
     }
-  ]);
+  })), [merchants]);
+
+  // Announce invoices that lapse while the app is open. Ones that expired while it was
+  // closed were never being watched, so they are not announced late on every reload.
+  const expiredInvoiceIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (isLoadingInvoices) return;
+    const isExpired = (invoice: Invoice) => getInvoiceStatus(invoice) === 'expired';
+    if (!expiredInvoiceIdsRef.current) {
+      expiredInvoiceIdsRef.current = new Set(invoices.filter(isExpired).map(invoice => invoice.id));
+    }
+    const announced = expiredInvoiceIdsRef.current;
+
+    const checkExpiry = () => {
+      invoices.forEach(invoice => {
+        if (!isExpired(invoice) || announced.has(invoice.id)) return;
+        announced.add(invoice.id);
+        eventBus.publish('invoice.expired', { ...invoice, status: 'expired' });
+      });
+    };
+
+    checkExpiry();
+    const timer = setInterval(checkExpiry, INVOICE_EXPIRY_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [invoices, isLoadingInvoices]);
+
+  const recordPayment = (payment: Payment) => {
+    paymentRepository.save(payment).catch(error =>
+      console.error('Error recording payment:', error)
+    );
+  };
+
+  const handlePaymentCreated = (payment: Payment) => {
+    recordPayment(payment);
+    eventBus.publish('payment.created', payment);
+  };
 
   // Handle new payments
   const handlePaymentComplete = (payment: Payment) => {
-    setPayments([...payments, payment]);
+    recordPayment(payment);
+    if (payment.status === 'completed' && payment.fiatAmount === undefined) {
+      // Prices move, so the fiat value for the books has to be taken now
+      valuePayment(payment)
+        .then(recordPayment)
+        .catch(error => console.error('Error valuing payment:', error));
+    }
+    eventBus.publish(payment.status === 'completed' ? 'payment.confirmed' : 'payment.failed', payment);
+    if (payment.invoiceId) {
+      setInvoices(current => current.map(invoice =>
+        invoice.id === payment.invoiceId ? applyPaymentToInvoice(invoice, payment) : invoice
+      ));
+    }
   };
 
-  // Toggle between customer and merchant view
-  const [view, setView] = useState<'customer' | 'merchant'>('customer');
-  
-  // Add loading state for a more realistic feel
-  const [isLoading, setIsLoading] = useState(true);
-  
-  useEffect(() => {
-    // Simulate loading data
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-    }, 1000);
-    
-    return () => clearTimeout(timer);
-  }, []);
+  const handleRefundChange = (payment: Payment, refund: Refund) => {
+    recordPayment(payment);
+    if (refund.status === 'completed') {
+      eventBus.publish('payment.refunded', payment);
+    }
+  };
+
+  const handleInvoiceCreated = (invoice: Invoice) => {
+    setInvoices(current => [...current, invoice]);
+  };
+
+  const handleInvoiceChange = (invoice: Invoice) => {
+    setInvoices(current => current.map(i => (i.id === invoice.id ? invoice : i)));
+  };
+
+  const handleMerchantCreated = async (input: MerchantInput) => {
+    const created = await createMerchant(input);
+    setSelectedMerchantId(created.id);
+    return created;
+  };
+
+  const isMerchantView = useLocation().pathname.startsWith('/merchant');
 
   return (
     <WalletContextProvider>
@@ -77,61 +166,85 @@ function App() {
               <Coins className="mr-2" size={24} />
               <h1 className="text-xl font-bold">Solana Payment Gateway</h1>
             </div>
-            <div>
-              <button
-                onClick={() => setView(view === 'customer' ? 'merchant' : 'customer')}
+            <div className="flex items-center space-x-2">
+              <select
+                value={merchant.id}
+                onChange={(e) => setSelectedMerchantId(e.target.value)}
+                className="bg-blue-700 text-white text-sm px-2 py-2 rounded-md"
+                aria-label="Merchant"
+              >
+                {merchants.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <NetworkSwitcher />
+              <Link
+                to={isMerchantView ? '/checkout' : '/merchant'}
                 className="bg-white text-blue-600 px-4 py-2 rounded-md font-medium hover:bg-blue-50 transition-colors flex items-center"
               >
-                {view === 'customer' ? (
+                {isMerchantView ? (
                   <>
-                    <LayoutDashboard size={16} className="mr-2" />
-                    Switch to Merchant View
+                    <CreditCard size={16} className="mr-2" />
+                    Switch to Customer View
                   </>
                 ) : (
                   <>
-                    <CreditCard size={16} className="mr-2" />
-                    Switch to Customer View
+                    <LayoutDashboard size={16} className="mr-2" />
+                    Switch to Merchant View
                   </>
                 )}
-              </button>
+              </Link>
             </div>
           </div>
         </header>
         
         <main className="container mx-auto py-8 px-4">
-          {isLoading ? (
+          {isLoadingMerchants || isLoadingInvoices ? (
             <div className="flex justify-center items-center h-64">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
             </div>
-          ) : view === 'customer' ? (
-            <div>
-              <h2 className="text-2xl font-bold mb-6 text-center">Customer Payment Portal</h2>
-              <div className="max-w-md mx-auto">
-                <div className="bg-white rounded-lg shadow-md p-4 mb-6">
-                  <h3 className="font-medium text-lg mb-2">Merchant Information</h3>
-                  <p><strong>Name:</strong> {merchant.name}</p>
-                  <p><strong>Accepts:</strong> Any token (auto-converts to {
-                    Object.values(TOKENS).find(t => t.mint === merchant.preferredToken)?.symbol
-                  })</p>
-                </div>
-                
-                <PaymentForm
-                  merchantAddress={merchant.walletAddress}
-                  preferredToken={merchant.preferredToken}
-                  onPaymentComplete={handlePaymentComplete}
-                />
-              </div>
-            </div>
           ) : (
-            <div>
-              <h2 className="text-2xl font-bold mb-6 text-center">Merchant Portal</h2>
-              <MerchantDashboard
-                merchantName={merchant.name}
-                merchantAddress={merchant.walletAddress}
-                preferredToken={merchant.preferredToken}
-                payments={payments}
+            <Routes>
+              <Route path="/" element={<Navigate to="/checkout" replace />} />
+              {['/checkout', '/checkout/:invoiceId'].map(path => (
+                <Route
+                  key={path}
+                  path={path}
+                  element={
+                    <CheckoutPage
+                      merchants={merchants}
+                      defaultMerchant={merchant}
+                      invoices={invoices}
+                      onInvoiceChange={handleInvoiceChange}
+                      onPaymentCreated={handlePaymentCreated}
+                      onPaymentComplete={handlePaymentComplete}
+                    />
+                  }
+                />
+              ))}
+              <Route
+                path="/merchant/*"
+                element={
+                  <MerchantPortal
+                    merchants={merchants}
+                    selectedMerchantId={merchant.id}
+                    invoices={invoices}
+                    repository={paymentRepository}
+                    deliveryLog={deliveryLog}
+                    reconciler={reconciler}
+                    onInvoiceCreated={handleInvoiceCreated}
+                    onRefundChange={handleRefundChange}
+                    onCreateMerchant={handleMerchantCreated}
+                    onUpdateMerchant={updateMerchant}
+                  />
+                }
               />
-            </div>
+              <Route
+                path="/receipt/:paymentId"
+                element={<ReceiptPage merchants={merchants} repository={paymentRepository} />}
+              />
+              <Route path="*" element={<Navigate to="/checkout" replace />} />
+            </Routes>
           )}
         </main>
         
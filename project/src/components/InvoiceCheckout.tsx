@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, Lock, RefreshCw, AlertCircle } from 'lucide-react';
+import { Invoice, Merchant, Payment } from '../types';
+import { TOKENS } from '../utils/solana';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { formatMoney } from '../utils/pricing';
+import { getAmountDue, isInvoicePayable, isQuoteValid, lockInvoiceQuote } from '../utils/invoices';
+import { PaymentForm } from './PaymentForm';
+import { SolanaPayQR } from './SolanaPayQR';
+
+interface InvoiceCheckoutProps {
+  merchant: Merchant;
+  invoices: Invoice[];
+  // Open this invoice straight away, e.g. from a checkout link
+  initialInvoiceId?: string;
+  onInvoiceChange: (invoice: Invoice) => void;
+  onPaymentCreated: (payment: Payment) => void;
+  onPaymentComplete: (payment: Payment) => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const InvoiceCheckout: React.FC<InvoiceCheckoutProps> = ({
+  merchant,
+  invoices,
+  initialInvoiceId,
+  onInvoiceChange,
+  onPaymentCreated,
+  onPaymentComplete
+}) => {
+  const [selectedId, setSelectedId] = useState<string>(initialInvoiceId || '');
+  const [isLocking, setIsLocking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ticks once a second so the price lock countdown stays current
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const payableInvoices = invoices.filter(invoice =>
+    invoice.merchantId === merchant.id && isInvoicePayable(invoice, now)
+  );
+  const invoice = invoices.find(i => i.id === selectedId);
+  const tokenInfo = getTokenByMint(merchant.preferredToken) || TOKENS.USDC;
+  const quoteValid = isQuoteValid(invoice?.quote, now);
+
+  const lockQuote = async (target: Invoice) => {
+    setIsLocking(true);
+    setError(null);
+    try {
+      onInvoiceChange(await lockInvoiceQuote(target, tokenInfo));
+    } catch (err) {
+      console.error('Error locking invoice quote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to lock a price for this invoice');
+    } finally {
+      setIsLocking(false);
+    }
+  };
+
+  // Lock a price once for each invoice that gets opened, whether picked or linked to
+  const autoLockedIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!invoice || autoLockedIdRef.current === invoice.id) return;
+    autoLockedIdRef.current = invoice.id;
+    if (!isQuoteValid(invoice.quote) && isInvoicePayable(invoice)) {
+      lockQuote(invoice);
+    }
+  });
+
+  if (payableInvoices.length === 0 && !invoice) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+        <h3 className="font-medium text-lg mb-2 flex items-center">
+          <FileText size={18} className="mr-2" />
+          Pay an Invoice
+        </h3>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">Select an invoice</option>
+          {payableInvoices.map(i => (
+            <option key={i.id} value={i.id}>
+              {i.customerName || i.id.slice(0, 16)} · {formatMoney(getAmountDue(i), i.currency)} due
+            </option>
+          ))}
+        </select>
+
+        {invoice && (
+          <div className="mt-4 text-sm">
+            <table className="w-full mb-3">
+              <tbody>
+                {invoice.lineItems.map(item => (
+                  <tr key={item.id} className="border-b border-gray-100">
+                    <td className="py-1">{item.description}</td>
+                    <td className="py-1 text-gray-500 text-right">{item.quantity} × {formatMoney(item.unitPrice, invoice.currency)}</td>
+                    <td className="py-1 text-right">{formatMoney(item.quantity * item.unitPrice, invoice.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <dl className="space-y-1 text-right">
+              <div>Subtotal: {formatMoney(invoice.subtotal, invoice.currency)}</div>
+              <div>Tax ({invoice.taxRate}%): {formatMoney(invoice.tax, invoice.currency)}</div>
+              <div className="font-medium">Total: {formatMoney(invoice.total, invoice.currency)}</div>
+              {invoice.amountPaid > 0 && (
+                <div className="text-gray-500">Paid: {formatMoney(invoice.amountPaid, invoice.currency)}</div>
+              )}
+              <div className="font-bold">Due: {formatMoney(getAmountDue(invoice), invoice.currency)}</div>
+            </dl>
+            {invoice.memo && <p className="mt-2 text-xs text-gray-500">{invoice.memo}</p>}
+
+            <div className="mt-4 p-3 rounded-md bg-blue-50 text-xs">
+              {isLocking ? (
+                <span className="flex items-center text-gray-600">
+                  <RefreshCw className="animate-spin mr-2 h-3 w-3" />
+                  Locking price...
+                </span>
+              ) : quoteValid && invoice.quote ? (
+                <span className="flex items-center justify-between text-blue-700">
+                  <span className="flex items-center">
+                    <Lock size={12} className="mr-1" />
+                    {invoice.quote.amount} {tokenInfo.symbol} (1 {tokenInfo.symbol} = {formatMoney(invoice.quote.rate, invoice.currency)})
+                  </span>
+                  <span>{formatCountdown(invoice.quote.expiresAt - now)}</span>
+                </span>
+              ) : (
+                <span className="flex items-center justify-between text-orange-700">
+                  {invoice.quote ? 'The locked price has expired.' : 'Lock a price to pay what is due.'}
+                  {isInvoicePayable(invoice, now) && (
+                    <button
+                      type="button"
+                      onClick={() => lockQuote(invoice)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {invoice.quote ? 'Refresh price' : 'Lock price'}
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+
+            {error && (
+              <p className="mt-2 flex items-center text-xs text-red-500">
+                <AlertCircle size={12} className="mr-1" />
+                {error}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Stays mounted when the lock lapses so a payment in flight can finish */}
+      {invoice && (
+        <PaymentForm
+          merchant={merchant}
+          invoice={invoice}
+          onPaymentCreated={onPaymentCreated}
+          onPaymentComplete={onPaymentComplete}
+        />
+      )}
+      {invoice && quoteValid && (
+        <SolanaPayQR
+          merchant={merchant}
+          invoice={invoice}
+          onPaymentCreated={onPaymentCreated}
+          onPaymentComplete={onPaymentComplete}
+        />
+      )}
+    </div>
+  );
+};
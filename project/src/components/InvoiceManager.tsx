@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import { FileText, Plus, Trash2, AlertCircle, Copy, Check } from 'lucide-react';
+import { Invoice, InvoiceStatus } from '../types';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../utils/pricing';
+import {
+  DEFAULT_QUOTE_WINDOW_MINUTES,
+  calculateInvoiceTotals,
+  createInvoice,
+  getAmountDue,
+  getInvoiceStatus,
+  validateInvoice
+} from '../utils/invoices';
+import { createInvoiceLink } from '../utils/checkoutLinks';
+
+interface InvoiceManagerProps {
+  merchantId: string;
+  invoices: Invoice[];
+  onInvoiceCreated: (invoice: Invoice) => void;
+}
+
+interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 }
+];
+
+const EMPTY_LINE: LineItemDraft = { description: '', quantity: '1', unitPrice: '' };
+
+const INVOICE_STATUS_STYLES: Record<InvoiceStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  partially_paid: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-700',
+  overpaid: 'bg-purple-100 text-purple-700',
+  expired: 'bg-gray-100 text-gray-600'
+};
+
+export const InvoiceStatusBadge: React.FC<{ invoice: Invoice }> = ({ invoice }) => {
+  const status = getInvoiceStatus(invoice);
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${INVOICE_STATUS_STYLES[status]}`}>
+      {status.replace('_', ' ')}
+    </span>
+  );
+};
+
+export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ merchantId, invoices, onInvoiceCreated }) => {
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [customerName, setCustomerName] = useState<string>('');
+  const [customerEmail, setCustomerEmail] = useState<string>('');
+  const [currency, setCurrency] = useState<string>('USD');
+  const [taxRate, setTaxRate] = useState<string>('0');
+  const [expiresInMs, setExpiresInMs] = useState<number>(EXPIRY_OPTIONS[1].ms);
+  const [quoteWindowMinutes, setQuoteWindowMinutes] = useState<string>(String(DEFAULT_QUOTE_WINDOW_MINUTES));
+  const [memo, setMemo] = useState<string>('');
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([EMPTY_LINE]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const parsedLineItems = lineItems.map(item => ({
+    description: item.description,
+    quantity: parseFloat(item.quantity) || 0,
+    unitPrice: parseFloat(item.unitPrice) || 0
+  }));
+  const totals = calculateInvoiceTotals(parsedLineItems, parseFloat(taxRate) || 0, currency);
+
+  const updateLineItem = (index: number, changes: Partial<LineItemDraft>) => {
+    setLineItems(lineItems.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const resetForm = () => {
+    setCustomerName('');
+    setCustomerEmail('');
+    setTaxRate('0');
+    setMemo('');
+    setLineItems([EMPTY_LINE]);
+    setErrors([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const params = {
+      merchantId,
+      lineItems: parsedLineItems,
+      taxRate: parseFloat(taxRate) || 0,
+      currency,
+      expiresInMs,
+      quoteWindowMinutes: parseInt(quoteWindowMinutes, 10) || DEFAULT_QUOTE_WINDOW_MINUTES,
+      customerName: customerName.trim() || undefined,
+      customerEmail: customerEmail.trim() || undefined,
+      memo: memo.trim() || undefined
+    };
+
+    const problems = validateInvoice(params);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    onInvoiceCreated(createInvoice(params));
+    resetForm();
+    setIsCreating(false);
+  };
+
+  const copyLink = async (invoiceId: string) => {
+    await navigator.clipboard.writeText(createInvoiceLink(invoiceId));
+    setCopiedId(invoiceId);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const sortedInvoices = [...invoices].sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium flex items-center">
+          <FileText size={16} className="mr-2" />
+          Invoices
+        </h4>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
+        >
+          <Plus size={14} className="mr-1" />
+          {isCreating ? 'Cancel' : 'New invoice'}
+        </button>
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-md p-4 mb-4 space-y-3 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              placeholder="Customer name (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="email"
+              value={customerEmail}
+              onChange={(e) => setCustomerEmail(e.target.value)}
+              placeholder="Customer email (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1">Line items</p>
+            <div className="space-y-2">
+              {lineItems.map((item, index) => (
+                <div key={index} className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={item.description}
+                    onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                    placeholder="Description"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={item.quantity}
+                    onChange={(e) => updateLineItem(index, { quantity: e.target.value })}
+                    aria-label="Quantity"
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.unitPrice}
+                    onChange={(e) => updateLineItem(index, { unitPrice: e.target.value })}
+                    placeholder={`Price (${currency})`}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setLineItems(lineItems.filter((_, i) => i !== index))}
+                    disabled={lineItems.length === 1}
+                    className="text-gray-400 hover:text-red-500 disabled:opacity-30"
+                    aria-label="Remove line item"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setLineItems([...lineItems, EMPTY_LINE])}
+              className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+            >
+              + Add line
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <label className="block">
+              <span className="text-xs text-gray-600">Currency</span>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Tax rate (%)</span>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Expires in</span>
+              <select
+                value={expiresInMs}
+                onChange={(e) => setExpiresInMs(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.ms} value={option.ms}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Price lock (minutes)</span>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={quoteWindowMinutes}
+                onChange={(e) => setQuoteWindowMinutes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          <input
+            type="text"
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            placeholder="Note to customer (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+
+          <div className="flex items-end justify-between">
+            <dl className="text-xs text-gray-600 space-y-1">
+              <div>Subtotal: {formatMoney(totals.subtotal, currency)}</div>
+              <div>Tax: {formatMoney(totals.tax, currency)}</div>
+              <div className="font-medium text-gray-800">Total: {formatMoney(totals.total, currency)}</div>
+            </dl>
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Create invoice
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-500 space-y-1">
+              {errors.map(problem => (
+                <li key={problem} className="flex items-center">
+                  <AlertCircle size={12} className="mr-1" />
+                  {problem}
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 border-b">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Created</th>
+              <th className="px-4 py-2 text-left font-medium">Customer</th>
+              <th className="px-4 py-2 text-left font-medium">Total</th>
+              <th className="px-4 py-2 text-left font-medium">Due</th>
+              <th className="px-4 py-2 text-left font-medium">Status</th>
+              <th className="px-4 py-2 text-left font-medium">Expires</th>
+              <th className="px-4 py-2 text-left font-medium">Link</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedInvoices.map(invoice => (
+              <tr key={invoice.id} className="border-b border-gray-100">
+                <td className="px-4 py-2">{new Date(invoice.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-2">{invoice.customerName || invoice.customerEmail || '—'}</td>
+                <td className="px-4 py-2">{formatMoney(invoice.total, invoice.currency)}</td>
+                <td className="px-4 py-2">{formatMoney(getAmountDue(invoice), invoice.currency)}</td>
+                <td className="px-4 py-2"><InvoiceStatusBadge invoice={invoice} /></td>
+                <td className="px-4 py-2">{new Date(invoice.expiresAt).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() => copyLink(invoice.id)}
+                    className="text-blue-600 hover:text-blue-800 flex items-center text-xs"
+                  >
+                    {copiedId === invoice.id ? <Check size={12} className="mr-1" /> : <Copy size={12} className="mr-1" />}
+                    {copiedId === invoice.id ? 'Copied' : 'Copy'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {invoices.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-6">No invoices yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
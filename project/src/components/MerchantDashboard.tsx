@@ -0,0 +1,311 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, Filter, Wallet, TrendingUp, Calendar } from 'lucide-react';
+import { Merchant, Payment, PaymentFilters, PaymentSortKey, Refund } from '../types';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { getSettlementWallet } from '../utils/merchants';
+import { getSplitTotal } from '../utils/splits';
+import { PaymentRepository } from '../utils/paymentRepository';
+import { Reconciler } from '../utils/reconciler';
+import { usePayments } from '../hooks/usePayments';
+import {
+  DEFAULT_FILTERS,
+  filterPayments,
+  sortPayments,
+  getTotalsByToken,
+  getTotalsByDay,
+  countByStatus
+} from '../utils/analytics';
+import { EscrowBadge, PaymentDetailDrawer, StatusBadge } from './PaymentDetailDrawer';
+import { RefundForm } from './RefundForm';
+import { PaymentExports } from './PaymentExports';
+import { ReconciliationPanel } from './ReconciliationPanel';
+
+interface MerchantDashboardProps {
+  merchant: Merchant;
+  repository: PaymentRepository;
+  reconciler: Reconciler;
+  onRefundChange: (payment: Payment, refund: Refund) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const getSymbol = (mint: string) =>
+  getTokenByMint(mint)?.symbol || `${mint.slice(0, 4)}...`;
+
+const shorten = (value?: string) =>
+  value ? `${value.slice(0, 4)}...${value.slice(-4)}` : '—';
+
+// Date inputs give YYYY-MM-DD; convert to the start or end of that local day
+const parseDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const MerchantDashboard: React.FC<MerchantDashboardProps> = ({
+  merchant,
+  repository,
+  reconciler,
+  onRefundChange
+}) => {
+  const { payments } = usePayments(repository, { merchantId: merchant.id });
+  const [filters, setFilters] = useState<PaymentFilters>(DEFAULT_FILTERS);
+  const [fromDate, setFromDate] = useState<string>('');
+  const [toDate, setToDate] = useState<string>('');
+  const [sortKey, setSortKey] = useState<PaymentSortKey>('timestamp');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  // Looked up by id so the drawer follows the payment as refunds update it
+  const [selectedPaymentId, setSelectedPaymentId] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+
+  const filteredPayments = useMemo(
+    () => filterPayments(payments, {
+      ...filters,
+      from: parseDateInput(fromDate, false),
+      to: parseDateInput(toDate, true)
+    }),
+    [payments, filters, fromDate, toDate]
+  );
+
+  const sortedPayments = useMemo(
+    () => sortPayments(filteredPayments, sortKey, sortDirection),
+    [filteredPayments, sortKey, sortDirection]
+  );
+
+  const selectedPayment = payments.find(p => p.id === selectedPaymentId) || null;
+
+  const tokenTotals = useMemo(() => getTotalsByToken(filteredPayments), [filteredPayments]);
+  const dailyTotals = useMemo(() => getTotalsByDay(filteredPayments), [filteredPayments]);
+  const statusCounts = useMemo(() => countByStatus(filteredPayments), [filteredPayments]);
+
+  // Tokens that actually appear in the payment history, for the filter dropdown
+  const paymentTokens = useMemo(
+    () => Array.from(new Set(payments.map(p => p.token))),
+    [payments]
+  );
+
+  const handleSort = (key: PaymentSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('desc');
+    }
+  };
+
+  const resetFilters = () => {
+    setFilters(DEFAULT_FILTERS);
+    setFromDate('');
+    setToDate('');
+  };
+
+  const renderSortHeader = (label: string, column: PaymentSortKey) => (
+    <th
+      className="px-4 py-2 text-left font-medium cursor-pointer select-none hover:text-gray-800"
+      onClick={() => handleSort(column)}
+    >
+      <span className="inline-flex items-center">
+        {label}
+        {sortKey === column && (
+          sortDirection === 'asc'
+            ? <ArrowUp size={12} className="ml-1" />
+            : <ArrowDown size={12} className="ml-1" />
+        )}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-4 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="font-medium text-lg">{merchant.name}</h3>
+          <p className="text-xs text-gray-500 flex items-center break-all">
+            <Wallet size={12} className="mr-1 flex-shrink-0" />
+            {getSettlementWallet(merchant)}
+          </p>
+        </div>
+        <p className="text-sm text-gray-600 mt-2 md:mt-0">
+          Settles in <strong>{getSymbol(merchant.preferredToken)}</strong>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {(Object.keys(statusCounts) as Payment['status'][]).map(status => (
+          <div key={status} className="bg-white rounded-lg shadow-md p-4">
+            <p className="text-xs text-gray-500 capitalize">{status}</p>
+            <p className="text-2xl font-bold">{statusCounts[status]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h4 className="font-medium mb-3 flex items-center">
+            <TrendingUp size={16} className="mr-2" />
+            Totals by Token
+          </h4>
+          {tokenTotals.length === 0 ? (
+            <p className="text-sm text-gray-500">No completed payments</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {tokenTotals.map(total => (
+                <li key={total.token} className="flex justify-between">
+                  <span>{getSymbol(total.token)} <span className="text-gray-400">({total.count})</span></span>
+                  <span className="font-medium">{total.amount.toFixed(6)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h4 className="font-medium mb-3 flex items-center">
+            <Calendar size={16} className="mr-2" />
+            Totals by Day
+          </h4>
+          {dailyTotals.length === 0 ? (
+            <p className="text-sm text-gray-500">No completed payments</p>
+          ) : (
+            <ul className="space-y-2 text-sm max-h-40 overflow-y-auto">
+              {dailyTotals.map(total => (
+                <li key={total.day} className="flex justify-between">
+                  <span>{total.day} <span className="text-gray-400">({total.count})</span></span>
+                  <span className="text-right">
+                    {Object.entries(total.byToken).map(([token, amount]) => (
+                      <span key={token} className="block">{amount.toFixed(6)} {getSymbol(token)}</span>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ReconciliationPanel merchant={merchant} reconciler={reconciler} />
+
+      <PaymentExports merchant={merchant} payments={sortedPayments} repository={repository} />
+
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium flex items-center">
+            <Filter size={16} className="mr-2" />
+            Payments
+          </h4>
+          <button onClick={resetFilters} className="text-xs text-blue-600 hover:text-blue-800">
+            Clear filters
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-4 text-sm">
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value as PaymentFilters['status'] })}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="all">All statuses</option>
+            <option value="pending">Pending</option>
+            <option value="processing">Processing</option>
+            <option value="completed">Completed</option>
+            <option value="failed">Failed</option>
+            <option value="refunded">Refunded</option>
+          </select>
+          <select
+            value={filters.token}
+            onChange={(e) => setFilters({ ...filters, token: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="all">All tokens</option>
+            {paymentTokens.map(mint => (
+              <option key={mint} value={mint}>{getSymbol(mint)}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+            aria-label="To date"
+          />
+          <input
+            type="text"
+            value={filters.customerWallet}
+            onChange={(e) => setFilters({ ...filters, customerWallet: e.target.value })}
+            placeholder="Customer wallet"
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 border-b">
+              <tr>
+                {renderSortHeader('Date', 'timestamp')}
+                {renderSortHeader('Amount', 'amount')}
+                {renderSortHeader('Token', 'token')}
+                {renderSortHeader('Status', 'status')}
+                <th className="px-4 py-2 text-left font-medium">Customer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedPayments.slice(0, visibleCount).map(payment => (
+                <tr
+                  key={payment.id}
+                  onClick={() => setSelectedPaymentId(payment.id)}
+                  className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-2">{new Date(payment.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-2">
+                    {payment.amount}
+                    {payment.splits && (
+                      <span className="block text-xs text-gray-500">{getSplitTotal(payment.splits)} split off</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{getSymbol(payment.token)}</td>
+                  <td className="px-4 py-2">
+                    <StatusBadge status={payment.status} />
+                    {payment.escrow && (
+                      <span className="block mt-1"><EscrowBadge status={payment.escrow.status} /></span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs">{shorten(payment.customerWallet)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {sortedPayments.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-6">No payments match these filters</p>
+          )}
+          {sortedPayments.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="w-full py-2 text-xs text-blue-600 hover:text-blue-800"
+            >
+              Show more ({sortedPayments.length - visibleCount} remaining)
+            </button>
+          )}
+        </div>
+      </div>
+
+      <PaymentDetailDrawer payment={selectedPayment} onClose={() => setSelectedPaymentId(null)}>
+        {selectedPayment && (
+          <RefundForm
+            key={selectedPayment.id}
+            merchant={merchant}
+            payment={selectedPayment}
+            onRefundChange={onRefundChange}
+          />
+        )}
+      </PaymentDetailDrawer>
+    </div>
+  );
+};
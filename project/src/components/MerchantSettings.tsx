@@ -0,0 +1,415 @@
+import React, { useState } from 'react';
+import { Settings, Plus, X, AlertCircle } from 'lucide-react';
+import { Merchant, SplitRole } from '../types';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import {
+  MAX_SLIPPAGE_BPS,
+  MerchantInput,
+  createDefaultMerchantInput,
+  createWebhookSecret,
+  getSettlementWallet,
+  validateMerchant
+} from '../utils/merchants';
+import { MAX_SPLIT_RECIPIENTS, SPLIT_ROLES, SPLIT_ROLE_LABELS } from '../utils/splits';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+import { TokenPicker } from './TokenPicker';
+
+interface MerchantSettingsProps {
+  merchant: Merchant;
+  onCreateMerchant: (input: MerchantInput) => Promise<Merchant>;
+  onUpdateMerchant: (id: string, changes: Partial<MerchantInput>) => Promise<Merchant>;
+}
+
+interface SplitDraft {
+  wallet: string;
+  role: SplitRole;
+  // Percent, as typed
+  share: string;
+  label: string;
+}
+
+interface MerchantDraft {
+  name: string;
+  walletAddress: string;
+  settlementWallet: string;
+  preferredToken: string;
+  acceptedTokens: string[];
+  // Percent, as typed
+  maxSlippage: string;
+  logoUrl: string;
+  accentColor: string;
+  webhookUrl: string;
+  webhookSecret: string;
+  splits: SplitDraft[];
+}
+
+const DEFAULT_ACCENT_COLOR = '#2563eb';
+
+const toDraft = (input: MerchantInput): MerchantDraft => ({
+  name: input.name,
+  walletAddress: input.walletAddress,
+  settlementWallet: input.settlementWallet || '',
+  preferredToken: input.preferredToken,
+  acceptedTokens: input.acceptedTokens || [],
+  maxSlippage: String(input.maxSlippageBps / 100),
+  logoUrl: input.branding?.logoUrl || '',
+  accentColor: input.branding?.accentColor || DEFAULT_ACCENT_COLOR,
+  webhookUrl: input.webhookUrl || '',
+  webhookSecret: input.webhookSecret || '',
+  splits: (input.splits || []).map(split => ({
+    wallet: split.wallet,
+    role: split.role,
+    share: String(split.bps / 100),
+    label: split.label || ''
+  }))
+});
+
+const fromDraft = (draft: MerchantDraft): MerchantInput => ({
+  name: draft.name.trim(),
+  walletAddress: draft.walletAddress.trim(),
+  settlementWallet: draft.settlementWallet.trim() || undefined,
+  preferredToken: draft.preferredToken,
+  // An empty allowlist means any token is accepted
+  acceptedTokens: draft.acceptedTokens.length > 0 ? draft.acceptedTokens : undefined,
+  maxSlippageBps: Math.round((parseFloat(draft.maxSlippage) || 0) * 100),
+  branding: {
+    logoUrl: draft.logoUrl.trim() || undefined,
+    accentColor: draft.accentColor
+  },
+  webhookUrl: draft.webhookUrl.trim() || undefined,
+  webhookSecret: draft.webhookSecret.trim() || undefined,
+  splits: draft.splits.length > 0
+    ? draft.splits.map(split => ({
+      wallet: split.wallet.trim(),
+      role: split.role,
+      bps: Math.round((parseFloat(split.share) || 0) * 100),
+      label: split.label.trim() || undefined
+    }))
+    : undefined
+});
+
+const getSymbol = (mint: string) =>
+  getTokenByMint(mint)?.symbol || `${mint.slice(0, 4)}...`;
+
+export const MerchantSettings: React.FC<MerchantSettingsProps> = ({
+  merchant,
+  onCreateMerchant,
+  onUpdateMerchant
+}) => {
+  const tokens = useTokenRegistry();
+  const [mode, setMode] = useState<'view' | 'edit' | 'create'>('view');
+  const [draft, setDraft] = useState<MerchantDraft>(() => toDraft(merchant));
+  const [tokenToAdd, setTokenToAdd] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateDraft = (changes: Partial<MerchantDraft>) => setDraft({ ...draft, ...changes });
+
+  const startEditing = (next: 'edit' | 'create') => {
+    setDraft(toDraft(next === 'edit' ? merchant : createDefaultMerchantInput(merchant.preferredToken)));
+    setErrors([]);
+    setMode(next);
+  };
+
+  const addAcceptedToken = (mint: string) => {
+    setTokenToAdd('');
+    if (!draft.acceptedTokens.includes(mint)) {
+      updateDraft({ acceptedTokens: [...draft.acceptedTokens, mint] });
+    }
+  };
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) =>
+    updateDraft({ splits: draft.splits.map((split, i) => (i === index ? { ...split, ...changes } : split)) });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = fromDraft(draft);
+    const problems = validateMerchant(input);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (mode === 'create') {
+        await onCreateMerchant(input);
+      } else {
+        await onUpdateMerchant(merchant.id, input);
+      }
+      setMode('view');
+    } catch (err) {
+      console.error('Error saving merchant:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to save merchant']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium flex items-center">
+          <Settings size={16} className="mr-2" />
+          Merchant Settings
+        </h4>
+        <div className="flex space-x-3 text-xs">
+          {mode === 'view' ? (
+            <>
+              <button onClick={() => startEditing('edit')} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              <button onClick={() => startEditing('create')} className="text-blue-600 hover:text-blue-800 flex items-center">
+                <Plus size={14} className="mr-1" />
+                New merchant
+              </button>
+            </>
+          ) : (
+            <button onClick={() => setMode('view')} className="text-blue-600 hover:text-blue-800">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {mode === 'view' ? (
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          <div>
+            <dt className="text-xs text-gray-500">Settlement wallet</dt>
+            <dd className="break-all">{getSettlementWallet(merchant)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Preferred token</dt>
+            <dd>{getSymbol(merchant.preferredToken)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Accepted tokens</dt>
+            <dd>{merchant.acceptedTokens ? merchant.acceptedTokens.map(getSymbol).join(', ') : 'Any token'}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Max slippage</dt>
+            <dd>{merchant.maxSlippageBps / 100}%</dd>
+          </div>
+          <div className="md:col-span-2">
+            <dt className="text-xs text-gray-500">Payment splits</dt>
+            <dd className="break-all">
+              {merchant.splits
+                ? merchant.splits.map(split => (
+                  <span key={split.wallet} className="block">
+                    {split.label || SPLIT_ROLE_LABELS[split.role]}: {split.bps / 100}% to {split.wallet}
+                  </span>
+                ))
+                : 'None; the settlement wallet receives everything'}
+            </dd>
+          </div>
+          <div className="md:col-span-2">
+            <dt className="text-xs text-gray-500">Webhook</dt>
+            <dd className="break-all">{merchant.webhookUrl || 'Not configured'}</dd>
+          </div>
+        </dl>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Store name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={draft.walletAddress}
+              onChange={(e) => updateDraft({ walletAddress: e.target.value })}
+              placeholder="Merchant wallet"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="text"
+              value={draft.settlementWallet}
+              onChange={(e) => updateDraft({ settlementWallet: e.target.value })}
+              placeholder="Settlement wallet (defaults to merchant wallet)"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-xs text-gray-600">Preferred token</span>
+              <TokenPicker
+                tokens={tokens}
+                value={draft.preferredToken}
+                onChange={(mint) => updateDraft({ preferredToken: mint })}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Max slippage (%)</span>
+              <input
+                type="number"
+                min="0"
+                max={MAX_SLIPPAGE_BPS / 100}
+                step="0.01"
+                value={draft.maxSlippage}
+                onChange={(e) => updateDraft({ maxSlippage: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          <div>
+            <span className="text-xs text-gray-600">Accepted tokens (leave empty to accept any)</span>
+            <div className="flex flex-wrap gap-1 my-1">
+              {draft.acceptedTokens.map(mint => (
+                <span key={mint} className="px-2 py-0.5 rounded-full bg-gray-100 text-xs flex items-center">
+                  {getSymbol(mint)}
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ acceptedTokens: draft.acceptedTokens.filter(m => m !== mint) })}
+                    className="ml-1 text-gray-400 hover:text-red-500"
+                    aria-label={`Remove ${getSymbol(mint)}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <TokenPicker tokens={tokens} value={tokenToAdd} onChange={addAcceptedToken} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="url"
+              value={draft.logoUrl}
+              onChange={(e) => updateDraft({ logoUrl: e.target.value })}
+              placeholder="Logo URL (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <label className="flex items-center text-xs text-gray-600">
+              <input
+                type="color"
+                value={draft.accentColor}
+                onChange={(e) => updateDraft({ accentColor: e.target.value })}
+                className="mr-2 h-9 w-12 border border-gray-300 rounded-md"
+              />
+              Accent color
+            </label>
+          </div>
+
+          <div>
+            <span className="text-xs text-gray-600">
+              Payment splits (cuts paid out in the same transaction; the settlement wallet keeps the rest)
+            </span>
+            {draft.splits.map((split, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 mt-1">
+                <select
+                  value={split.role}
+                  onChange={(e) => updateSplit(index, { role: e.target.value as SplitRole })}
+                  className="md:col-span-3 px-2 py-2 border border-gray-300 rounded-md"
+                >
+                  {SPLIT_ROLES.map(role => (
+                    <option key={role} value={role}>{SPLIT_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={split.wallet}
+                  onChange={(e) => updateSplit(index, { wallet: e.target.value })}
+                  placeholder="Recipient wallet"
+                  className="md:col-span-4 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={split.share}
+                  onChange={(e) => updateSplit(index, { share: e.target.value })}
+                  placeholder="%"
+                  className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <div className="md:col-span-3 flex space-x-2">
+                  <input
+                    type="text"
+                    value={split.label}
+                    onChange={(e) => updateSplit(index, { label: e.target.value })}
+                    placeholder="Label (optional)"
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ splits: draft.splits.filter((_, i) => i !== index) })}
+                    className="text-gray-400 hover:text-red-500"
+                    aria-label="Remove split"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+            {draft.splits.length < MAX_SPLIT_RECIPIENTS && (
+              <button
+                type="button"
+                onClick={() => updateDraft({
+                  splits: [...draft.splits, { wallet: '', role: 'platform', share: '', label: '' }]
+                })}
+                className="mt-1 text-xs text-blue-600 hover:text-blue-800 flex items-center"
+              >
+                <Plus size={12} className="mr-1" />
+                Add split
+              </button>
+            )}
+          </div>
+
+          <div>
+            <span className="text-xs text-gray-600">Webhook (payment and invoice events, HMAC-SHA256 signed)</span>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-1">
+              <input
+                type="url"
+                value={draft.webhookUrl}
+                onChange={(e) => updateDraft({ webhookUrl: e.target.value })}
+                placeholder="https://example.com/webhooks/solana"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={draft.webhookSecret}
+                  onChange={(e) => updateDraft({ webhookSecret: e.target.value })}
+                  placeholder="Signing secret"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md font-mono text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ webhookSecret: createWebhookSecret() })}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Generate
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-75"
+          >
+            {mode === 'create' ? 'Create merchant' : 'Save changes'}
+          </button>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-500 space-y-1">
+              {errors.map(problem => (
+                <li key={problem} className="flex items-center">
+                  <AlertCircle size={12} className="mr-1" />
+                  {problem}
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
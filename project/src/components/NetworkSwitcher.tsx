@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { Cluster, CLUSTERS, DEFAULT_RPC_URLS, clearNetworkConfig, getEnvNetworkConfig } from '../utils/network';
+import { getNetwork, setNetwork } from '../utils/solana';
+
+export const NetworkSwitcher: React.FC = () => {
+  const current = getNetwork();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [cluster, setCluster] = useState<Cluster>(current.cluster);
+  const [rpcUrl, setRpcUrl] = useState<string>(
+    current.rpcUrl === DEFAULT_RPC_URLS[current.cluster] ? '' : current.rpcUrl
+  );
+  const [wsUrl, setWsUrl] = useState<string>(current.wsUrl || '');
+
+  const applyNetwork = () => {
+    setNetwork({
+      cluster,
+      rpcUrl: rpcUrl.trim() || DEFAULT_RPC_URLS[cluster],
+      wsUrl: wsUrl.trim() || undefined
+    });
+    setIsOpen(false);
+  };
+
+  const resetNetwork = () => {
+    setNetwork(getEnvNetworkConfig());
+    // setNetwork remembers the choice; forget it again so .env stays the default
+    clearNetworkConfig();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-blue-700 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-800 transition-colors flex items-center"
+      >
+        <Globe size={16} className="mr-2" />
+        {current.cluster}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white text-gray-800 rounded-md shadow-lg p-4 z-50 space-y-3 text-sm">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Cluster</label>
+            <select
+              value={cluster}
+              onChange={(e) => setCluster(e.target.value as Cluster)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {CLUSTERS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Custom RPC URL</label>
+            <input
+              type="url"
+              value={rpcUrl}
+              onChange={(e) => setRpcUrl(e.target.value)}
+              placeholder={DEFAULT_RPC_URLS[cluster]}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Custom WebSocket URL</label>
+            <input
+              type="url"
+              value={wsUrl}
+              onChange={(e) => setWsUrl(e.target.value)}
+              placeholder="Derived from the RPC URL"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-between">
+            <button onClick={resetNetwork} className="text-xs text-gray-500 hover:text-gray-700">
+              Reset to default
+            </button>
+            <button
+              onClick={applyNetwork}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
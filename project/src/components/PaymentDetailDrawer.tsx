@@ -0,0 +1,252 @@
+import React from 'react';
+import { X, ExternalLink, ArrowRight } from 'lucide-react';
+import { EscrowStatus, Payment, PaymentSettlement, Refund } from '../types';
+import { getNetwork } from '../utils/solana';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { getExplorerTxUrl } from '../utils/network';
+import { formatMoney } from '../utils/pricing';
+import { SPLIT_ROLE_LABELS } from '../utils/splits';
+import { ESCROW_STATUS_LABELS } from '../utils/escrow';
+
+interface PaymentDetailDrawerProps {
+  payment: Payment | null;
+  onClose: () => void;
+  // Actions shown under the details, such as the dashboard's refund form
+  children?: React.ReactNode;
+}
+
+const STATUS_STYLES: Record<Payment['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  processing: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  refunded: 'bg-gray-100 text-gray-700'
+};
+
+const REFUND_STYLES: Record<Refund['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+const ESCROW_STYLES: Record<EscrowStatus, string> = {
+  held: 'bg-blue-100 text-blue-700',
+  disputed: 'bg-orange-100 text-orange-700',
+  releasing: 'bg-yellow-100 text-yellow-700',
+  released: 'bg-green-100 text-green-700',
+  refunding: 'bg-yellow-100 text-yellow-700',
+  refunded: 'bg-gray-100 text-gray-700'
+};
+
+const SETTLEMENT_STYLES: Record<PaymentSettlement, string> = {
+  partial: 'bg-yellow-100 text-yellow-700',
+  full: 'bg-green-100 text-green-700',
+  overpaid: 'bg-purple-100 text-purple-700'
+};
+
+const SETTLEMENT_LABELS: Record<PaymentSettlement, string> = {
+  partial: 'Partial payment',
+  full: 'Paid in full',
+  overpaid: 'Overpaid'
+};
+
+export const StatusBadge: React.FC<{ status: Payment['status'] }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+);
+
+export const EscrowBadge: React.FC<{ status: EscrowStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ESCROW_STYLES[status]}`}>
+    {ESCROW_STATUS_LABELS[status]}
+  </span>
+);
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="py-2 border-b border-gray-100">
+    <dt className="text-xs text-gray-500 mb-1">{label}</dt>
+    <dd className="text-sm text-gray-800 break-all">{children}</dd>
+  </div>
+);
+
+// The full record of a payment, shared by the dashboard drawer and the receipt page
+export const PaymentDetails: React.FC<{ payment: Payment }> = ({ payment }) => {
+  const tokenInfo = getTokenByMint(payment.token);
+
+  return (
+    <>
+      <dl>
+        <DetailRow label="Payment ID">{payment.id}</DetailRow>
+        <DetailRow label="Status"><StatusBadge status={payment.status} /></DetailRow>
+        {payment.escrow && (
+          <DetailRow label="Escrow">
+            <EscrowBadge status={payment.escrow.status} />
+            {payment.status === 'completed' && payment.escrow.status === 'held' &&
+              payment.escrow.refundAt !== undefined && (
+              <span className="block mt-1">
+                Goes back to the customer on {new Date(payment.escrow.refundAt).toLocaleString()} unless released
+              </span>
+            )}
+            {payment.escrow.dispute && (
+              <span className="block mt-1">
+                Disputed {new Date(payment.escrow.dispute.openedAt).toLocaleString()}: {payment.escrow.dispute.reason}
+              </span>
+            )}
+            {payment.escrow.payout?.status === 'failed' && (
+              <span className="block mt-1 text-red-600">
+                Last payout failed: {payment.escrow.payout.failureReason}
+              </span>
+            )}
+            {payment.escrow.payout?.txSignature && (
+              <a
+                href={getExplorerTxUrl(payment.escrow.payout.txSignature, getNetwork())}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 text-blue-600 hover:text-blue-800 inline-flex items-start"
+              >
+                <span>Payout {payment.escrow.payout.txSignature}</span>
+                <ExternalLink size={12} className="ml-1 mt-1 flex-shrink-0" />
+              </a>
+            )}
+          </DetailRow>
+        )}
+        <DetailRow label="Amount">
+          {payment.amount} {tokenInfo?.symbol || payment.token}
+        </DetailRow>
+        {payment.receivedAmount !== undefined && payment.receivedAmount !== payment.amount && (
+          <DetailRow label="Received">
+            {payment.receivedAmount} {tokenInfo?.symbol || payment.token}
+          </DetailRow>
+        )}
+        {payment.splits && (
+          <DetailRow label="Splits">
+            {payment.splits.map(split => (
+              <span key={split.wallet} className="block">
+                {split.label || SPLIT_ROLE_LABELS[split.role]} ({split.bps / 100}%): {split.amount}{' '}
+                {tokenInfo?.symbol || payment.token} to {split.wallet}
+              </span>
+            ))}
+          </DetailRow>
+        )}
+        {payment.invoiceId && (
+          <DetailRow label="Invoice">
+            <span className="block">{payment.invoiceId}</span>
+            {payment.settlement && (
+              <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${SETTLEMENT_STYLES[payment.settlement]}`}>
+                {SETTLEMENT_LABELS[payment.settlement]}
+              </span>
+            )}
+          </DetailRow>
+        )}
+        {payment.fiatAmount !== undefined && payment.fiatCurrency && (
+          <DetailRow label="Value">{formatMoney(payment.fiatAmount, payment.fiatCurrency)}</DetailRow>
+        )}
+        {payment.networkFee !== undefined && (
+          <DetailRow label="Network Fee">{payment.networkFee} SOL</DetailRow>
+        )}
+        {payment.refundedAmount ? (
+          <DetailRow label="Refunded">
+            {payment.refundedAmount} {tokenInfo?.symbol || payment.token}
+          </DetailRow>
+        ) : null}
+        <DetailRow label="Date">{new Date(payment.timestamp).toLocaleString()}</DetailRow>
+        <DetailRow label="Customer Wallet">{payment.customerWallet || '—'}</DetailRow>
+        {payment.memo && <DetailRow label="Memo">{payment.memo}</DetailRow>}
+        {payment.subscriptionId && <DetailRow label="Subscription">{payment.subscriptionId}</DetailRow>}
+        <DetailRow label="Transaction Signature">
+          {payment.txSignature ? (
+            <a
+              href={getExplorerTxUrl(payment.txSignature, getNetwork())}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800 inline-flex items-start"
+            >
+              <span>{payment.txSignature}</span>
+              <ExternalLink size={12} className="ml-1 mt-1 flex-shrink-0" />
+            </a>
+          ) : '—'}
+        </DetailRow>
+      </dl>
+
+      {payment.swap && (
+        <div className="mt-6">
+          <h4 className="font-medium mb-2">Swap</h4>
+          <div className="bg-gray-50 rounded-md p-4 text-sm">
+            <div className="flex items-center justify-between mb-3">
+              <span>{payment.swap.inputAmount} {payment.swap.inputToken}</span>
+              <ArrowRight className="text-gray-500" size={16} />
+              <span>{payment.swap.outputAmount.toFixed(6)} {payment.swap.outputToken}</span>
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Fee:</span>
+              <span>{payment.swap.fee.toFixed(6)} {payment.swap.inputToken}</span>
+            </div>
+            <div className="text-xs text-gray-500 break-all">
+              <span>Swap signature: </span>
+              {payment.swap.txSignature}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {payment.refunds && payment.refunds.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-medium mb-2">Refunds</h4>
+          <ul className="space-y-2">
+            {payment.refunds.map(refund => (
+              <li key={refund.id} className="bg-gray-50 rounded-md p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span>
+                    {refund.outputAmount} {getTokenByMint(refund.outputToken)?.symbol || refund.outputToken}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${REFUND_STYLES[refund.status]}`}>
+                    {refund.status}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">{new Date(refund.timestamp).toLocaleString()}</p>
+                {refund.reason && <p className="text-xs text-gray-600 mt-1">{refund.reason}</p>}
+                {refund.failureReason && <p className="text-xs text-red-500 mt-1">{refund.failureReason}</p>}
+                {refund.txSignature && (
+                  <a
+                    href={getExplorerTxUrl(refund.txSignature, getNetwork())}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-800 inline-flex items-start break-all mt-1"
+                  >
+                    <span>{refund.txSignature}</span>
+                    <ExternalLink size={12} className="ml-1 mt-0.5 flex-shrink-0" />
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export const PaymentDetailDrawer: React.FC<PaymentDetailDrawerProps> = ({ payment, onClose, children }) => {
+  if (!payment) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <aside className="relative bg-white w-full max-w-md h-full shadow-xl p-6 overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold">Payment Details</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <PaymentDetails payment={payment} />
+        {children}
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { Merchant, Payment } from '../types';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { PaymentRepository } from '../utils/paymentRepository';
+import { toDayKey } from '../utils/analytics';
+import {
+  AccountingDateFormat,
+  SettlementPeriod,
+  downloadFile,
+  exportAccountingCsv,
+  exportPaymentsCsv,
+  exportPaymentsJson,
+  exportSettlementSummariesCsv,
+  getSettlementSummaries,
+  loadNetworkFees
+} from '../utils/exports';
+
+interface PaymentExportsProps {
+  merchant: Merchant;
+  // The payments to export, as currently filtered in the dashboard
+  payments: Payment[];
+  repository: PaymentRepository;
+}
+
+type ExportFormat = 'csv' | 'json' | 'accounting' | 'daily' | 'monthly';
+
+const getSymbol = (mint: string) =>
+  getTokenByMint(mint)?.symbol || `${mint.slice(0, 4)}...`;
+
+const formatTotals = (totals: Record<string, number>, label: (key: string) => string = key => key) =>
+  Object.entries(totals).map(([key, amount]) => `${amount.toFixed(2)} ${label(key)}`).join(', ') || '—';
+
+export const PaymentExports: React.FC<PaymentExportsProps> = ({ merchant, payments, repository }) => {
+  const [period, setPeriod] = useState<SettlementPeriod>('day');
+  const [dateFormat, setDateFormat] = useState<AccountingDateFormat>('MM/DD/YYYY');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const summaries = useMemo(() => getSettlementSummaries(payments, period), [payments, period]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      // Fill in network fees the payments were saved without, and keep them for next time
+      const withFees = await loadNetworkFees(payments);
+      await Promise.all(withFees.map(payment => repository.save(payment)));
+      const byId = new Map(withFees.map(payment => [payment.id, payment]));
+      const complete = payments.map(payment => byId.get(payment.id) || payment);
+
+      const basename = `${merchant.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${toDayKey(Date.now())}`;
+      switch (format) {
+        case 'csv':
+          downloadFile(`${basename}-payments.csv`, exportPaymentsCsv(complete), 'text/csv');
+          break;
+        case 'json':
+          downloadFile(`${basename}-payments.json`, exportPaymentsJson(complete), 'application/json');
+          break;
+        case 'accounting':
+          downloadFile(`${basename}-accounting.csv`, exportAccountingCsv(complete, dateFormat), 'text/csv');
+          break;
+        case 'daily':
+        case 'monthly':
+          downloadFile(
+            `${basename}-${format}-settlements.csv`,
+            exportSettlementSummariesCsv(complete, format === 'daily' ? 'day' : 'month'),
+            'text/csv'
+          );
+          break;
+      }
+    } catch (error) {
+      console.error('Error exporting payments:', error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderExportButton = (format: ExportFormat, label: string) => (
+    <button
+      onClick={() => handleExport(format)}
+      disabled={exporting !== null}
+      className="px-3 py-1 border border-gray-300 rounded-md text-xs hover:bg-gray-50 disabled:opacity-50 flex items-center"
+    >
+      <Download size={12} className="mr-1" />
+      {exporting === format ? 'Exporting...' : label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium flex items-center">
+          <FileText size={16} className="mr-2" />
+          Settlements and Exports
+        </h4>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as SettlementPeriod)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+          aria-label="Settlement period"
+        >
+          <option value="day">Daily</option>
+          <option value="month">Monthly</option>
+        </select>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">No settled payments</p>
+      ) : (
+        <div className="overflow-x-auto max-h-60 overflow-y-auto mb-3">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 border-b">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium">{period === 'day' ? 'Day' : 'Month'}</th>
+                <th className="px-2 py-1 text-left font-medium">Token</th>
+                <th className="px-2 py-1 text-right font-medium">Payments</th>
+                <th className="px-2 py-1 text-right font-medium">Net</th>
+                <th className="px-2 py-1 text-right font-medium">Fiat value</th>
+                <th className="px-2 py-1 text-right font-medium">Network fees</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr key={`${summary.period}:${summary.token}`} className="border-b border-gray-100">
+                  <td className="px-2 py-1">{summary.period}</td>
+                  <td className="px-2 py-1">{getSymbol(summary.token)}</td>
+                  <td className="px-2 py-1 text-right">{summary.count}</td>
+                  <td className="px-2 py-1 text-right">
+                    {summary.net.toFixed(6)}
+                    {summary.refunded > 0 && (
+                      <span className="block text-gray-400">−{summary.refunded.toFixed(6)} refunded</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 text-right">{formatTotals(summary.fiatValue)}</td>
+                  <td className="px-2 py-1 text-right">{summary.networkFees.toFixed(6)} SOL</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {renderExportButton('csv', 'CSV')}
+        {renderExportButton('json', 'JSON')}
+        {renderExportButton('accounting', 'QuickBooks / Xero')}
+        <select
+          value={dateFormat}
+          onChange={(e) => setDateFormat(e.target.value as AccountingDateFormat)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+          aria-label="Accounting date format"
+        >
+          <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+          <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+        </select>
+        {renderExportButton('daily', 'Daily summary')}
+        {renderExportButton('monthly', 'Monthly summary')}
+      </div>
+    </div>
+  );
+};
@@ -1,90 +1,260 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useInRouterContext } from 'react-router-dom';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 import { ArrowRight, Wallet, RefreshCw, AlertCircle, Check, Info } from 'lucide-react';
-import { TokenInfo, Payment } from '../types';
-import { TOKENS, createPaymentTransaction, mockSendTransaction, getTokenBalance } from '../utils/solana';
-import { getQuote, executeSwap } from '../utils/jupiter';
+import { Invoice, Merchant, Payment, JupiterQuote } from '../types';
+import {
+  TOKENS,
+  createPaymentTransaction,
+  fromBaseUnits
+} from '../utils/solana';
+import {
+  getQuote,
+  createDirectQuote,
+  createSwapAndPayTransaction,
+  getPlatformFee,
+  toSwapResult
+} from '../utils/jupiter';
+import { createPaymentReference } from '../utils/solanaPay';
+import { watchPayment } from '../utils/paymentWatcher';
+import { getAcceptedTokens, getTokenByMint } from '../utils/tokenRegistry';
+import { getGrossAmount, getNetAmount } from '../utils/tokenProgram';
+import { getBalance, getSolReserve } from '../utils/balances';
+import { isQuoteValid, settleInvoicePayment } from '../utils/invoices';
+import { createId } from '../utils/ids';
+import { getSettlementWallet } from '../utils/merchants';
+import { calculateSplits } from '../utils/splits';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+import { useWalletBalances } from '../hooks/useWalletBalances';
+import { useNetworkFeeEstimates } from '../hooks/useNetworkFeeEstimates';
+import { SPEED_TIERS, SpeedTier } from '../utils/priorityFees';
+import { TokenPicker } from './TokenPicker';
+import {
+  sendTransactionWithRetry,
+  BlockhashExpiredError,
+  TransactionFailedError,
+  TransactionProgress
+} from '../utils/transactionSender';
+
+const PAYMENT_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const SPEED_LABELS: Record<SpeedTier, string> = {
+  economy: 'Economy',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+type PaymentStatus =
+  | 'idle'
+  | 'quoting'
+  | 'building'
+  | TransactionProgress
+  | 'expired'
+  | 'verifying'
+  | 'completed'
+  | 'failed';
+
+const STATUS_LABELS: Partial<Record<PaymentStatus, string>> = {
+  building: 'Preparing Transaction...',
+  signing: 'Waiting for Signature...',
+  sent: 'Sending Transaction...',
+  processed: 'Processed, Confirming...',
+  confirmed: 'Confirmed, Finalizing...',
+  finalized: 'Verifying Payment...',
+  verifying: 'Verifying Payment...',
+  expired: 'Transaction Expired'
+};
+
+function getPaymentErrorMessage(err: unknown): string {
+  if (err instanceof BlockhashExpiredError) {
+    return 'The transaction expired before it was confirmed. You were not charged.';
+  }
+  if (err instanceof TransactionFailedError) {
+    return 'The transaction was rejected by the network. You were not charged.';
+  }
+  if (err instanceof Error && err.name === 'WalletSignTransactionError') {
+    return 'The transaction was not signed.';
+  }
+  return 'Payment failed. Please try again.';
+}
 
 interface PaymentFormProps {
-  merchantAddress: string;
-  preferredToken: string;
+  merchant: Merchant;
+  // Pay (part of) this invoice at its locked quote instead of a free amount
+  invoice?: Invoice;
+  // Prefilled from a checkout link
+  initialAmount?: number;
+  initialToken?: string;
+  // Reference key the link asked for; used by the first completed payment only
+  linkReference?: string;
+  // The payment's transaction has been seen on chain and is being verified
+  onPaymentCreated?: (payment: Payment) => void;
   onPaymentComplete: (payment: Payment) => void;
+  // A payment that was built but never reached the merchant, e.g. rejected or expired
+  onPaymentFailed?: (payment: Payment) => void;
 }
 
 export const PaymentForm: React.FC<PaymentFormProps> = ({ 
-  merchantAddress, 
-  preferredToken,
-  onPaymentComplete 
+  merchant,
+  invoice,
+  initialAmount,
+  initialToken,
+  linkReference,
+  onPaymentCreated,
+  onPaymentComplete,
+  onPaymentFailed
 }) => {
+  const { preferredToken, acceptedTokens, maxSlippageBps } = merchant;
+  // Payments go to the settlement wallet, which may differ from the merchant's own
+  const merchantAddress = getSettlementWallet(merchant);
   const { publicKey, signTransaction, connected } = useWallet();
-  const [amount, setAmount] = useState<number>(1);
-  const [selectedToken, setSelectedToken] = useState<string>(TOKENS.SOL.mint);
+  // Receipts are a route of the hosted app; embedded forms have nowhere to link to
+  const canLinkToReceipt = useInRouterContext();
+  const [amount, setAmount] = useState<number>(initialAmount ?? 1);
+  const [selectedToken, setSelectedToken] = useState<string>(initialToken || TOKENS.SOL.mint);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [quote, setQuote] = useState<any>(null);
+  const [quote, setQuote] = useState<JupiterQuote | null>(null);
+  // Token-2022 transfer fee the customer pays on top of a direct payment
+  const [transferFee, setTransferFee] = useState<number>(0);
+  // When set, `amount` is what the merchant receives and the swap input floats
+  const [exactOutSelected, setExactOutSelected] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<boolean>(false);
-  const [tokenBalance, setTokenBalance] = useState<number | null>(null);
-  const [isLoadingBalance, setIsLoadingBalance] = useState<boolean>(false);
-  const [paymentStatus, setPaymentStatus] = useState<'idle' | 'quoting' | 'processing' | 'confirming' | 'completed' | 'failed'>('idle');
+  const [completedPaymentId, setCompletedPaymentId] = useState<string | null>(null);
+  // SOL that has to stay in the wallet for fees and rent
+  const [solReserve, setSolReserve] = useState<number>(0);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('idle');
+  // How much priority fee to bid for a faster landing
+  const [speed, setSpeed] = useState<SpeedTier>('normal');
+  // Resolves the pending "sign again?" prompt after a blockhash expires
+  const resignRef = useRef<((retry: boolean) => void) | null>(null);
+
+  // Invoices are priced in the merchant's token, so the merchant must receive exactly that
+  const exactOut = !!invoice || exactOutSelected;
+  const quoteIsLocked = !invoice || isQuoteValid(invoice.quote);
+
+  const registryTokens = useTokenRegistry();
+  const payableTokens = useMemo(
+    () => getAcceptedTokens(acceptedTokens, registryTokens),
+    [acceptedTokens, registryTokens]
+  );
+
+  const selectedTokenInfo = getTokenByMint(selectedToken) || TOKENS.SOL;
+  const preferredTokenInfo = getTokenByMint(preferredToken) || TOKENS.USDC;
 
-  const selectedTokenInfo = Object.values(TOKENS).find(t => t.mint === selectedToken) || TOKENS.SOL;
-  const preferredTokenInfo = Object.values(TOKENS).find(t => t.mint === preferredToken) || TOKENS.USDC;
+  // Jupiter reports price impact as a fraction
+  const priceImpact = quote ? Number(quote.priceImpactPct) * 100 : 0;
+  const isSwap = selectedToken !== preferredToken;
+  const isExactOutSwap = isSwap && exactOut;
+  // The most the customer can be charged: in ExactOut mode the input is bounded by the quote
+  const maxInputAmount = isExactOutSwap && quote
+    ? fromBaseUnits(quote.otherAmountThreshold, selectedTokenInfo.decimals)
+    : amount + (isSwap ? 0 : transferFee);
+  const amountTokenInfo = isExactOutSwap ? preferredTokenInfo : selectedTokenInfo;
 
-  // Fetch token balance when wallet or selected token changes
+  const feeEstimates = useNetworkFeeEstimates({
+    payer: connected ? publicKey : null,
+    recipient: merchantAddress,
+    quote,
+    isSwap,
+    amount,
+    token: selectedToken,
+    outputToken: preferredTokenInfo
+  });
+
+  // Start from whatever the invoice's locked quote says is still due
+  const invoiceQuoteAmount = invoice?.quote?.amount;
   useEffect(() => {
-    const fetchBalance = async () => {
-      if (publicKey && connected) {
-        setIsLoadingBalance(true);
-        try {
-          // In a real implementation, this would call getTokenBalance
-          // For demo purposes, we'll simulate a balance
-          await new Promise(resolve => setTimeout(resolve, 500));
-          const mockBalance = selectedToken === TOKENS.SOL.mint 
-            ? 5 + Math.random() * 2 
-            : 100 + Math.random() * 50;
-          setTokenBalance(mockBalance);
-        } catch (err) {
-          console.error('Error fetching balance:', err);
-          setTokenBalance(null);
-        } finally {
-          setIsLoadingBalance(false);
-        }
-      } else {
-        setTokenBalance(null);
-      }
+    if (invoiceQuoteAmount !== undefined) setAmount(invoiceQuoteAmount);
+  }, [invoiceQuoteAmount]);
+
+  // Keep the selection inside the merchant's allowlist
+  useEffect(() => {
+    if (payableTokens.length > 0 && !payableTokens.some(t => t.mint === selectedToken)) {
+      setSelectedToken(payableTokens[0].mint);
+    }
+  }, [payableTokens, selectedToken]);
+
+  const { balances, isLoading: isLoadingBalance } = useWalletBalances(connected ? publicKey : null);
+  const tokenBalance = balances ? getBalance(balances, selectedToken) : null;
+  const solBalance = balances ? getBalance(balances, TOKENS.SOL.mint) : null;
+  const hasPaymentAccount = balances ? preferredToken in balances.tokens : false;
+  const isPayingInSol = selectedToken === TOKENS.SOL.mint;
+  const insufficientBalance = tokenBalance !== null &&
+    maxInputAmount + (isPayingInSol ? solReserve : 0) > tokenBalance;
+  const insufficientSol = !isPayingInSol && solBalance !== null && solBalance < solReserve;
+
+  // Work out how much SOL the payment needs beyond the amount itself
+  useEffect(() => {
+    if (!connected) return;
+
+    let cancelled = false;
+    getSolReserve({
+      recipient: new PublicKey(merchantAddress),
+      paymentMint: preferredToken,
+      inputMint: selectedToken === preferredToken ? undefined : selectedToken,
+      hasPaymentAccount
+    })
+      .then(reserve => {
+        if (!cancelled) setSolReserve(reserve);
+      })
+      .catch(() => {
+        if (!cancelled) setSolReserve(0);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [connected, merchantAddress, preferredToken, selectedToken, hasPaymentAccount]);
 
-    fetchBalance();
-  }, [publicKey, connected, selectedToken]);
+  // Pay with everything that can actually be spent
+  const fillMaxAmount = async () => {
+    if (tokenBalance === null) return;
+    if (isPayingInSol) {
+      setAmount(Math.max(0, Number((tokenBalance - solReserve).toFixed(TOKENS.SOL.decimals))));
+      return;
+    }
+    try {
+      // A direct payment pays any transfer fee on top, so leave room for it
+      setAmount(isSwap ? tokenBalance : await getNetAmount(tokenBalance, selectedTokenInfo));
+    } catch (err) {
+      console.error('Error fetching transfer fee:', err);
+      setAmount(tokenBalance);
+    }
+  };
 
   // Fetch quote when amount or tokens change
   useEffect(() => {
+    // Resolved from the mints here, so the effect only re-runs when those change
+    const inputTokenInfo = getTokenByMint(selectedToken) || TOKENS.SOL;
+    const outputTokenInfo = getTokenByMint(preferredToken) || TOKENS.USDC;
+
     const fetchQuote = async () => {
       if (amount > 0 && selectedToken && preferredToken) {
         if (selectedToken === preferredToken) {
           // No swap needed
-          setQuote({
-            inputMint: selectedToken,
-            outputMint: preferredToken,
-            inAmount: amount * (10 ** selectedTokenInfo.decimals),
-            outAmount: amount * (10 ** preferredTokenInfo.decimals),
-            platformFee: {
-              amount: 0,
-              feeBps: 0
-            },
-            priceImpactPct: 0,
-          });
+          setQuote(createDirectQuote(inputTokenInfo, amount));
+          try {
+            const gross = await getGrossAmount(amount, inputTokenInfo);
+            setTransferFee(gross - amount);
+          } catch (err) {
+            console.error('Error fetching transfer fee:', err);
+            setTransferFee(0);
+          }
           return;
         }
         
         setPaymentStatus('quoting');
         try {
+          // ExactOut must cover any transfer fee for the merchant to net `amount`
+          const quoteAmount = exactOut ? await getGrossAmount(amount, outputTokenInfo) : amount;
           const quoteResult = await getQuote(
-            selectedTokenInfo,
-            preferredTokenInfo,
-            amount
+            inputTokenInfo,
+            outputTokenInfo,
+            quoteAmount,
+            { swapMode: exactOut ? 'ExactOut' : 'ExactIn', slippageBps: maxSlippageBps }
           );
           setQuote(quoteResult);
           setError(null);
@@ -101,12 +271,12 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     // Debounce the quote fetch to avoid too many API calls
     const timeoutId = setTimeout(fetchQuote, 500);
     return () => clearTimeout(timeoutId);
-  }, [amount, selectedToken, preferredToken]);
+  }, [amount, selectedToken, preferredToken, exactOut, maxSlippageBps]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!publicKey) {
+    if (!publicKey || !signTransaction) {
       setError('Please connect your wallet first');
       return;
     }
@@ -116,103 +286,163 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
       return;
     }
 
-    if (tokenBalance !== null && amount > tokenBalance) {
+    if (!quoteIsLocked) {
+      setError('The locked invoice price has expired. Refresh it to continue.');
+      return;
+    }
+
+    if (tokenBalance !== null && insufficientBalance) {
       setError(`Insufficient balance. You have ${tokenBalance.toFixed(6)} ${selectedTokenInfo.symbol}`);
       return;
     }
 
+    if (insufficientSol) {
+      setError(`You need at least ${solReserve.toFixed(6)} SOL for network fees`);
+      return;
+    }
+
     setIsProcessing(true);
     setError(null);
     setSuccess(false);
-    setPaymentStatus('processing');
+    setPaymentStatus('building');
+    // Filled in by each (re)build, since a rebuilt swap carries a fresh quote
+    const built: { payment?: Payment } = {};
 
     try {
       // Create a unique payment ID
-      const paymentId = 'payment-' + Date.now().toString();
+      const paymentId = createId('payment');
+      // The reference key ties the on-chain transaction back to this payment
+      const reference = (!completedPaymentId && linkReference) || createPaymentReference();
+      const recipient = new PublicKey(merchantAddress);
       
-      // If the selected token is different from the merchant's preferred token,
-      // we need to perform a swap using Jupiter
-      if (selectedToken !== preferredToken) {
-        // Simulate the swap process
-        setPaymentStatus('processing');
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        
-        // In a real implementation, this would execute the swap through Jupiter
-        const swapResult = await executeSwap(
-          selectedTokenInfo,
-          preferredTokenInfo,
-          amount
-        );
-        
-        // Create a payment transaction to send the swapped tokens to the merchant
-        const transaction = await createPaymentTransaction(
-          swapResult.outputAmount,
-          preferredToken,
-          publicKey,
-          new PublicKey(merchantAddress)
-        );
-        
-        // In a real implementation, this would sign and send the transaction
-        setPaymentStatus('confirming');
-        const txSignature = await mockSendTransaction(transaction);
+      const buildTransaction = async (): Promise<Transaction | VersionedTransaction> => {
+        setPaymentStatus('building');
         
-        // Simulate transaction confirmation
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        // If the selected token is different from the merchant's preferred token,
+        // we need to perform a swap using Jupiter
+        if (selectedToken !== preferredToken) {
+          // Re-quote so the transaction is built from current prices, then swap and
+          // pay the merchant in one transaction so neither half can land alone
+          const quoteAmount = exactOut ? await getGrossAmount(amount, preferredTokenInfo) : amount;
+          const swapQuote = await getQuote(
+            selectedTokenInfo,
+            preferredTokenInfo,
+            quoteAmount,
+            { swapMode: exactOut ? 'ExactOut' : 'ExactIn', slippageBps: maxSlippageBps }
+          );
+          const swapResult = toSwapResult(swapQuote, selectedTokenInfo, preferredTokenInfo, '');
+          const splits = calculateSplits(swapResult.outputAmount, preferredTokenInfo.decimals, merchant.splits);
+          built.payment = {
+            id: paymentId,
+            // What the merchant nets once any Token-2022 transfer fee is withheld
+            amount: await getNetAmount(swapResult.outputAmount, preferredTokenInfo),
+            token: preferredToken,
+            status: 'pending',
+            timestamp: Date.now(),
+            merchantId: merchant.id,
+            customerWallet: publicKey.toString(),
+            reference,
+            invoiceId: invoice?.id,
+            swap: swapResult,
+            splits
+          };
+          
+          return createSwapAndPayTransaction(
+            swapQuote,
+            preferredTokenInfo,
+            publicKey,
+            recipient,
+            new PublicKey(reference),
+            speed,
+            undefined,
+            splits
+          );
+        }
         
-        // Create a payment record
-        const payment: Payment = {
+        // No swap needed, direct payment
+        const splits = calculateSplits(amount, selectedTokenInfo.decimals, merchant.splits);
+        built.payment = {
           id: paymentId,
-          amount: swapResult.outputAmount,
-          token: preferredToken,
-          status: 'completed',
+          amount,
+          token: selectedToken,
+          status: 'pending',
           timestamp: Date.now(),
-          merchantId: merchantAddress,
+          merchantId: merchant.id,
           customerWallet: publicKey.toString(),
-          txSignature
+          reference,
+          invoiceId: invoice?.id,
+          splits
         };
         
-        setPaymentStatus('completed');
-        setSuccess(true);
-        onPaymentComplete(payment);
-      } else {
-        // No swap needed, direct payment
-        const transaction = await createPaymentTransaction(
+        return createPaymentTransaction(
           amount,
           selectedToken,
           publicKey,
-          new PublicKey(merchantAddress)
+          recipient,
+          new PublicKey(reference),
+          speed,
+          undefined,
+          splits
         );
-        
-        setPaymentStatus('confirming');
-        const txSignature = await mockSendTransaction(transaction);
-        
-        // Simulate transaction confirmation
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        const payment: Payment = {
-          id: paymentId,
-          amount,
-          token: selectedToken,
-          status: 'completed',
-          timestamp: Date.now(),
-          merchantId: merchantAddress,
-          customerWallet: publicKey.toString(),
-          txSignature
-        };
-        
+      };
+      
+      const { signature, lastValidBlockHeight } = await sendTransactionWithRetry(
+        buildTransaction,
+        signTransaction,
+        {
+          commitment: 'finalized',
+          onProgress: progress => setPaymentStatus(progress),
+          onBlockhashExpired: () => new Promise<boolean>(resolve => {
+            resignRef.current = resolve;
+            setPaymentStatus('expired');
+          })
+        }
+      );
+      
+      let payment = built.payment as Payment;
+      if (payment.swap) {
+        payment = { ...payment, swap: { ...payment.swap, txSignature: signature } };
+      }
+      
+      // Only mark the payment completed once the chain shows the merchant was paid
+      setPaymentStatus('verifying');
+      const settled = await watchPayment(payment, {
+        recipient: merchantAddress,
+        lastValidBlockHeight,
+        timeoutMs: PAYMENT_CONFIRMATION_TIMEOUT_MS,
+        onStatusChange: update => {
+          if (update.status === 'processing') onPaymentCreated?.(update);
+        }
+      });
+      onPaymentComplete(invoice ? settleInvoicePayment(invoice, settled) : settled);
+      
+      if (settled.status === 'completed') {
+        setCompletedPaymentId(settled.id);
         setPaymentStatus('completed');
         setSuccess(true);
-        onPaymentComplete(payment);
+      } else {
+        setError(settled.failureReason || 'Payment failed. Please try again.');
+        setPaymentStatus('failed');
       }
     } catch (err) {
       console.error('Payment error:', err);
-      setError('Payment failed. Please try again.');
+      const message = getPaymentErrorMessage(err);
+      setError(message);
       setPaymentStatus('failed');
+      if (built.payment) {
+        onPaymentFailed?.({ ...built.payment, status: 'failed', failureReason: message });
+      }
     } finally {
+      resignRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const respondToExpiry = (retry: boolean) => {
+    resignRef.current?.(retry);
+    resignRef.current = null;
+  };
+
   const resetForm = () => {
     setSuccess(false);
     setPaymentStatus('idle');
@@ -221,7 +451,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6 max-w-md mx-auto">
-      <h2 className="text-2xl font-bold mb-4">Make a Payment</h2>
+      <h2 className="text-2xl font-bold mb-4">{invoice ? 'Pay Invoice' : 'Make a Payment'}</h2>
       
       {!connected ? (
         <div className="mb-6 flex flex-col items-center">
@@ -237,21 +467,33 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
           </div>
           <h3 className="text-xl font-bold text-green-600 mb-2">Payment Successful!</h3>
           <p className="text-gray-600 mb-6">
-            Your payment of {amount} {selectedTokenInfo.symbol} has been processed successfully.
+            Your payment of {amount} {amountTokenInfo.symbol} has been processed successfully.
           </p>
-          <button
-            onClick={resetForm}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-          >
-            Make Another Payment
-          </button>
+          <div className="flex flex-col items-center space-y-3">
+            {completedPaymentId && canLinkToReceipt && (
+              <Link to={`/receipt/${completedPaymentId}`} className="text-sm text-blue-600 hover:text-blue-800">
+                View receipt
+              </Link>
+            )}
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Make Another Payment
+            </button>
+          </div>
         </div>
       ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Amount
+              Amount ({amountTokenInfo.symbol})
             </label>
+            {invoice?.quote && (
+              <p className="text-xs text-gray-500 mb-1">
+                Due: {invoice.quote.amount} {preferredTokenInfo.symbol}. Pay less to pay in instalments.
+              </p>
+            )}
             <input
               type="number"
               min="0.000001"
@@ -268,41 +510,54 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Pay with
             </label>
-            <div className="relative">
-              <select
-                value={selectedToken}
-                onChange={(e) => setSelectedToken(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none pr-10"
-                disabled={isProcessing}
-              >
-                {Object.values(TOKENS).map((token) => (
-                  <option key={token.mint} value={token.mint}>
-                    {token.symbol} - {token.name}
-                  </option>
-                ))}
-              </select>
-              <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
-                <img 
-                  src={selectedTokenInfo.logoURI} 
-                  alt={selectedTokenInfo.symbol} 
-                  className="w-5 h-5" 
+            <TokenPicker
+              tokens={payableTokens}
+              value={selectedToken}
+              onChange={setSelectedToken}
+              disabled={isProcessing}
+            />
+            
+            {isSwap && !invoice && (
+              <label className="mt-2 flex items-center text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={exactOutSelected}
+                  onChange={(e) => setExactOutSelected(e.target.checked)}
+                  className="mr-2"
+                  disabled={isProcessing}
                 />
-              </div>
-            </div>
+                Merchant receives exactly {amount} {preferredTokenInfo.symbol}
+              </label>
+            )}
             
             {tokenBalance !== null && (
               <div className="mt-1 text-xs text-gray-500 flex justify-between">
                 <span>Balance: {isLoadingBalance ? 'Loading...' : `${tokenBalance.toFixed(6)} ${selectedTokenInfo.symbol}`}</span>
-                <button 
-                  type="button" 
-                  className="text-blue-500 hover:text-blue-700"
-                  onClick={() => setAmount(tokenBalance)}
-                  disabled={isLoadingBalance || isProcessing}
-                >
-                  Max
-                </button>
+                {/* In ExactOut mode the amount is in the merchant's token, so a balance can't fill it */}
+                {!isExactOutSwap && (
+                  <button 
+                    type="button" 
+                    className="text-blue-500 hover:text-blue-700"
+                    onClick={fillMaxAmount}
+                    disabled={isLoadingBalance || isProcessing}
+                  >
+                    Max
+                  </button>
+                )}
               </div>
             )}
+            
+            {insufficientBalance && (
+              <p className="mt-1 text-xs text-red-500">
+                Insufficient {selectedTokenInfo.symbol} balance
+                {isPayingInSol && solReserve > 0 && ` (${solReserve.toFixed(6)} SOL is kept for fees and rent)`}
+              </p>
+            )}
+            {insufficientSol && (
+              <p className="mt-1 text-xs text-red-500">
+                Not enough SOL for network fees. You need at least {solReserve.toFixed(6)} SOL.
+              </p>
+            )}
           </div>
           
           {quote && (
@@ -314,7 +569,11 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
                     alt={selectedTokenInfo.symbol} 
                     className="w-6 h-6 mr-2" 
                   />
-                  <span>{amount} {selectedTokenInfo.symbol}</span>
+                  <span>
+                    {isExactOutSwap
+                      ? fromBaseUnits(quote.inAmount, selectedTokenInfo.decimals).toFixed(6)
+                      : amount} {selectedTokenInfo.symbol}
+                  </span>
                 </div>
                 <ArrowRight className="text-gray-500" size={20} />
                 <div className="flex items-center">
@@ -324,7 +583,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
                     className="w-6 h-6 mr-2" 
                   />
                   <span>
-                    {(quote.outAmount / (10 ** preferredTokenInfo.decimals)).toFixed(6)} {preferredTokenInfo.symbol}
+                    {fromBaseUnits(quote.outAmount, preferredTokenInfo.decimals).toFixed(6)} {preferredTokenInfo.symbol}
                   </span>
                 </div>
               </div>
@@ -333,17 +592,37 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
                 <div className="text-xs text-gray-500">
                   <div className="flex justify-between mb-1">
                     <span>Fee:</span>
-                    <span>{(quote.platformFee?.amount / (10 ** selectedTokenInfo.decimals)).toFixed(6)} {selectedTokenInfo.symbol}</span>
+                    <span>
+                      {getPlatformFee(quote, selectedTokenInfo, preferredTokenInfo).toFixed(6)} {isExactOutSwap ? selectedTokenInfo.symbol : preferredTokenInfo.symbol}
+                    </span>
                   </div>
+                  {isExactOutSwap ? (
+                    <div className="flex justify-between mb-1">
+                      <span>Maximum paid:</span>
+                      <span>{maxInputAmount.toFixed(6)} {selectedTokenInfo.symbol}</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between mb-1">
+                      <span>Merchant receives:</span>
+                      <span>{fromBaseUnits(quote.otherAmountThreshold, preferredTokenInfo.decimals).toFixed(6)} {preferredTokenInfo.symbol}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Price Impact:</span>
-                    <span className={quote.priceImpactPct > 1 ? 'text-orange-500' : 'text-gray-600'}>
-                      ~{quote.priceImpactPct.toFixed(2)}%
+                    <span className={priceImpact > 1 ? 'text-orange-500' : 'text-gray-600'}>
+                      ~{priceImpact.toFixed(2)}%
                     </span>
                   </div>
                 </div>
               )}
               
+              {selectedToken === preferredToken && transferFee > 0 && (
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>Token transfer fee:</span>
+                  <span>{transferFee.toFixed(selectedTokenInfo.decimals)} {selectedTokenInfo.symbol}</span>
+                </div>
+              )}
+              
               {selectedToken === preferredToken && (
                 <div className="flex items-center text-xs text-blue-600 mt-1">
                   <Info size={12} className="mr-1" />
@@ -353,6 +632,35 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
             </div>
           )}
           
+          {quote && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Network speed</span>
+              <div className="grid grid-cols-3 gap-2">
+                {SPEED_TIERS.map(tier => (
+                  <button
+                    key={tier}
+                    type="button"
+                    onClick={() => setSpeed(tier)}
+                    disabled={isProcessing}
+                    className={`px-2 py-1 rounded-md border text-xs ${
+                      speed === tier ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="block font-medium">{SPEED_LABELS[tier]}</span>
+                    <span className="block text-gray-500">
+                      {feeEstimates ? `${feeEstimates[tier].fee.toFixed(6)} SOL` : '—'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {feeEstimates
+                  ? `Estimated network fee: ${feeEstimates[speed].fee.toFixed(6)} SOL (${feeEstimates[speed].units.toLocaleString()} compute units)`
+                  : 'Estimating network fee...'}
+              </p>
+            </div>
+          )}
+
           {paymentStatus === 'quoting' && (
             <div className="flex items-center justify-center py-2 text-sm text-gray-500">
               <RefreshCw className="animate-spin mr-2 h-4 w-4" />
@@ -360,19 +668,43 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
             </div>
           )}
           
+          {paymentStatus === 'expired' && (
+            <div className="p-4 rounded-md bg-orange-50 text-sm text-orange-700">
+              <p className="mb-3">
+                Your transaction expired before the network confirmed it, so nothing was charged.
+                Sign a fresh transaction to try again.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => respondToExpiry(true)}
+                  className="px-3 py-1 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+                >
+                  Sign Again
+                </button>
+                <button
+                  type="button"
+                  onClick={() => respondToExpiry(false)}
+                  className="px-3 py-1 text-orange-700 hover:text-orange-900"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+          
           <div className="pt-2">
             <button
               type="submit"
-              disabled={isProcessing || !publicKey || !quote || paymentStatus === 'quoting'}
+              disabled={isProcessing || !publicKey || !quote || paymentStatus === 'quoting' || insufficientBalance || insufficientSol || !quoteIsLocked}
               className={`w-full flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
-                (isProcessing || !publicKey || !quote || paymentStatus === 'quoting') ? 'opacity-75 cursor-not-allowed' : ''
+                (isProcessing || !publicKey || !quote || paymentStatus === 'quoting' || insufficientBalance || insufficientSol || !quoteIsLocked) ? 'opacity-75 cursor-not-allowed' : ''
               }`}
             >
               {isProcessing ? (
                 <>
                   <RefreshCw className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                  {paymentStatus === 'processing' ? 'Processing Swap...' : 
-                   paymentStatus === 'confirming' ? 'Confirming Transaction...' : 'Processing...'}
+                  {STATUS_LABELS[paymentStatus] || 'Processing...'}
                 </>
               ) : (
                 <>
@@ -392,7 +724,9 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
           
           <div className="text-xs text-gray-500 mt-4">
             <p>Merchant will receive payment in {preferredTokenInfo.symbol}</p>
-            <p>Connected wallet: {publicKey.toString().slice(0, 4)}...{publicKey.toString().slice(-4)}</p>
+            {publicKey && (
+              <p>Connected wallet: {publicKey.toString().slice(0, 4)}...{publicKey.toString().slice(-4)}</p>
+            )}
           </div>
         </form>
       )}
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ScanSearch, ExternalLink, AlertCircle } from 'lucide-react';
+import { Merchant, ReconciliationIssue, ReconciliationReport } from '../types';
+import { getNetwork } from '../utils/solana';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { getExplorerTxUrl } from '../utils/network';
+import { Reconciler } from '../utils/reconciler';
+
+interface ReconciliationPanelProps {
+  merchant: Merchant;
+  reconciler: Reconciler;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS = [7, 30, 90];
+
+const ISSUE_LABELS: Record<ReconciliationIssue['type'], string> = {
+  unmatched_deposit: 'Unmatched deposit',
+  amount_mismatch: 'Amount mismatch',
+  missing_payment: 'Missing on chain'
+};
+
+const ISSUE_STYLES: Record<ReconciliationIssue['type'], string> = {
+  unmatched_deposit: 'bg-purple-100 text-purple-700',
+  amount_mismatch: 'bg-yellow-100 text-yellow-700',
+  missing_payment: 'bg-red-100 text-red-700'
+};
+
+const getSymbol = (mint: string) =>
+  getTokenByMint(mint)?.symbol || `${mint.slice(0, 4)}...`;
+
+const shorten = (value: string) => `${value.slice(0, 4)}...${value.slice(-4)}`;
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ merchant, reconciler }) => {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [windowDays, setWindowDays] = useState<number>(30);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    reconciler.getLastReport(merchant.id)
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(err => console.error('Error loading reconciliation report:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [reconciler, merchant.id]);
+
+  const runReconciliation = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await reconciler.run(merchant, {
+        since: Date.now() - windowDays * DAY_MS,
+        onProgress: ({ signatures, transactions }) =>
+          setProgress(transactions > 0
+            ? `Checking transactions ${transactions}/${signatures}...`
+            : `Found ${signatures} signatures...`)
+      });
+      setReport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reconcile payments');
+    } finally {
+      setIsRunning(false);
+      setProgress('');
+    }
+  };
+
+  const importDeposit = async (issue: ReconciliationIssue) => {
+    try {
+      setReport(await reconciler.importDeposit(merchant.id, issue));
+    } catch (err) {
+      console.error('Error importing deposit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import deposit');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium flex items-center">
+          <ScanSearch size={16} className="mr-2" />
+          Reconciliation
+        </h4>
+        <div className="flex items-center space-x-2 text-xs">
+          <select
+            value={windowDays}
+            onChange={(e) => setWindowDays(Number(e.target.value))}
+            disabled={isRunning}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+            aria-label="Reconciliation window"
+          >
+            {WINDOW_DAYS.map(days => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+          <button
+            onClick={runReconciliation}
+            disabled={isRunning}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-75"
+          >
+            {isRunning ? 'Scanning...' : 'Scan chain'}
+          </button>
+        </div>
+      </div>
+
+      {progress && <p className="text-xs text-gray-500 mb-2">{progress}</p>}
+      {error && (
+        <p className="flex items-center text-xs text-red-500 mb-2">
+          <AlertCircle size={12} className="mr-1" />
+          {error}
+        </p>
+      )}
+
+      {!report ? (
+        <p className="text-sm text-gray-500">
+          Compare payment records with the settlement wallet's on-chain history.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-3">
+            Last scan {new Date(report.scannedAt).toLocaleString()}: {report.signaturesScanned} transactions since{' '}
+            {new Date(report.since).toLocaleDateString()}, {report.matched} matched
+            {report.recovered.length > 0 && `, ${report.recovered.length} recovered`}
+          </p>
+
+          {report.issues.length === 0 ? (
+            <p className="text-sm text-green-600">Payment records match the chain</p>
+          ) : (
+            <ul className="space-y-2 text-sm max-h-72 overflow-y-auto">
+              {report.issues.map(issue => (
+                <li
+                  key={`${issue.type}:${issue.signature || issue.paymentId}:${issue.token}`}
+                  className="border border-gray-100 rounded-md p-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ISSUE_STYLES[issue.type]}`}>
+                      {ISSUE_LABELS[issue.type]}
+                    </span>
+                    <span className="text-xs text-gray-500">{new Date(issue.timestamp).toLocaleString()}</span>
+                  </div>
+                  <p className="mt-1">
+                    {issue.received ?? issue.expected} {getSymbol(issue.token)}
+                    {issue.sender && <span className="text-gray-500"> from {shorten(issue.sender)}</span>}
+                  </p>
+                  <p className="text-xs text-gray-600">{issue.detail}</p>
+                  <div className="flex items-center justify-between mt-1 text-xs">
+                    {issue.signature ? (
+                      <a
+                        href={getExplorerTxUrl(issue.signature, getNetwork())}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 inline-flex items-center"
+                      >
+                        {shorten(issue.signature)}
+                        <ExternalLink size={12} className="ml-1" />
+                      </a>
+                    ) : <span />}
+                    {issue.type === 'unmatched_deposit' && (
+                      <button onClick={() => importDeposit(issue)} className="text-blue-600 hover:text-blue-800">
+                        Record as payment
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { RotateCcw, AlertCircle } from 'lucide-react';
+import { Merchant, Payment, Refund } from '../types';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { getSettlementWallet } from '../utils/merchants';
+import {
+  applyRefund,
+  createRefundTransaction,
+  getRefundableAmount,
+  getSwapBackToken,
+  validateRefund
+} from '../utils/refunds';
+import {
+  sendTransactionWithRetry,
+  BlockhashExpiredError,
+  TransactionFailedError
+} from '../utils/transactionSender';
+
+interface RefundFormProps {
+  merchant: Merchant;
+  payment: Payment;
+  // Called with the payment and the refund each time the refund changes status
+  onRefundChange: (payment: Payment, refund: Refund) => void;
+}
+
+function getRefundErrorMessage(err: unknown): string {
+  if (err instanceof BlockhashExpiredError) {
+    return 'The refund expired before it was confirmed. Nothing was sent.';
+  }
+  if (err instanceof TransactionFailedError) {
+    return 'The refund was rejected by the network. Nothing was sent.';
+  }
+  if (err instanceof Error && err.name === 'WalletSignTransactionError') {
+    return 'The refund was not signed.';
+  }
+  return err instanceof Error ? err.message : 'Refund failed. Please try again.';
+}
+
+const getSymbol = (mint: string) =>
+  getTokenByMint(mint)?.symbol || `${mint.slice(0, 4)}...`;
+
+export const RefundForm: React.FC<RefundFormProps> = ({ merchant, payment, onRefundChange }) => {
+  const { publicKey, signTransaction } = useWallet();
+  const refundable = getRefundableAmount(payment);
+  const swapBackToken = getSwapBackToken(payment);
+  const [amount, setAmount] = useState<string>(String(refundable));
+  const [swapBack, setSwapBack] = useState<boolean>(false);
+  const [reason, setReason] = useState<string>('');
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Funds still in escrow aren't in the settlement wallet to refund from
+  const inEscrow = payment.escrow && payment.escrow.status !== 'released';
+  // A pending refund counts against what's refundable, so stay mounted while it's in flight
+  if (!isProcessing && (payment.status !== 'completed' || refundable <= 0 || inEscrow)) return null;
+
+  const settlementWallet = getSettlementWallet(merchant);
+  // Refunds are paid out of the settlement wallet, so that's the one that has to sign
+  const canSign = publicKey?.toBase58() === settlementWallet;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!publicKey || !signTransaction) return;
+
+    const value = parseFloat(amount);
+    const problems = validateRefund(payment, value);
+    if (problems.length > 0) {
+      setError(problems[0]);
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+
+    // Rebuilt if the blockhash expires, so keep whichever refund was last recorded
+    const latest: { payment: Payment; refund?: Refund } = { payment };
+    try {
+      const { signature } = await sendTransactionWithRetry(
+        async () => {
+          const built = await createRefundTransaction(
+            {
+              payment,
+              amount: value,
+              swapBack,
+              slippageBps: merchant.maxSlippageBps,
+              reason: reason.trim() || undefined
+            },
+            publicKey
+          );
+          latest.refund = built.refund;
+          latest.payment = applyRefund(payment, built.refund);
+          onRefundChange(latest.payment, built.refund);
+          return built.transaction;
+        },
+        signTransaction,
+        { commitment: 'confirmed' }
+      );
+
+      if (latest.refund) {
+        const completed: Refund = { ...latest.refund, status: 'completed', txSignature: signature };
+        onRefundChange(applyRefund(latest.payment, completed), completed);
+      }
+      setAmount('');
+      setReason('');
+    } catch (err) {
+      console.error('Refund error:', err);
+      const message = getRefundErrorMessage(err);
+      setError(message);
+      if (latest.refund) {
+        const failed: Refund = { ...latest.refund, status: 'failed', failureReason: message };
+        onRefundChange(applyRefund(latest.payment, failed), failed);
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 space-y-3 text-sm">
+      <h4 className="font-medium flex items-center">
+        <RotateCcw size={16} className="mr-2" />
+        Refund
+      </h4>
+
+      {!canSign ? (
+        <p className="text-xs text-gray-500">
+          Connect the settlement wallet ({settlementWallet.slice(0, 4)}...{settlementWallet.slice(-4)}) to refund this payment.
+        </p>
+      ) : (
+        <>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              min="0"
+              max={refundable}
+              step="any"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+              aria-label="Refund amount"
+            />
+            <button
+              type="button"
+              onClick={() => setAmount(String(refundable))}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Full ({refundable} {getSymbol(payment.token)})
+            </button>
+          </div>
+
+          {swapBackToken && (
+            <label className="flex items-center text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={swapBack}
+                onChange={(e) => setSwapBack(e.target.checked)}
+                className="mr-2"
+              />
+              Refund in {getSymbol(swapBackToken)}, the token the customer paid with (swapped via Jupiter)
+            </label>
+          )}
+
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+
+          <button
+            type="submit"
+            disabled={isProcessing}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-75"
+          >
+            {isProcessing ? 'Refunding...' : 'Send refund'}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <p className="flex items-center text-xs text-red-500">
+          <AlertCircle size={12} className="mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
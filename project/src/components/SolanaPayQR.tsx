@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createQR } from '@solana/pay';
+import { Smartphone, Copy, Check, AlertCircle, RefreshCw } from 'lucide-react';
+import { Invoice, Merchant, Payment, TransferRequest } from '../types';
+import { TOKENS } from '../utils/solana';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { createPaymentReference, createTransferRequestURL } from '../utils/solanaPay';
+import { watchPayment } from '../utils/paymentWatcher';
+import { getGrossAmount } from '../utils/tokenProgram';
+import { settleInvoicePayment } from '../utils/invoices';
+import { createId } from '../utils/ids';
+import { getSettlementWallet } from '../utils/merchants';
+
+// Leave the code scannable for a while before giving up on it
+const QR_WATCH_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface SolanaPayQRProps {
+  merchant: Merchant;
+  // Request exactly what the invoice's locked quote says is due
+  invoice?: Invoice;
+  // A wallet has sent the payment and it is being verified
+  onPaymentCreated?: (payment: Payment) => void;
+  onPaymentComplete: (payment: Payment) => void;
+}
+
+export const SolanaPayQR: React.FC<SolanaPayQRProps> = ({
+  merchant,
+  invoice,
+  onPaymentCreated,
+  onPaymentComplete
+}) => {
+  const { id: merchantId, name: merchantName, preferredToken } = merchant;
+  const merchantAddress = getSettlementWallet(merchant);
+  const qrRef = useRef<HTMLDivElement>(null);
+  const [amount, setAmount] = useState<number>(1);
+  const [copied, setCopied] = useState<boolean>(false);
+  const [paymentStatus, setPaymentStatus] = useState<Payment['status']>('pending');
+  const [failureReason, setFailureReason] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the watcher when the parent re-renders
+  const onPaymentCompleteRef = useRef(onPaymentComplete);
+  onPaymentCompleteRef.current = onPaymentComplete;
+  const onPaymentCreatedRef = useRef(onPaymentCreated);
+  onPaymentCreatedRef.current = onPaymentCreated;
+  const invoiceRef = useRef(invoice);
+  invoiceRef.current = invoice;
+
+  const invoiceId = invoice?.id;
+  const invoiceQuote = invoice?.quote;
+  useEffect(() => {
+    if (invoiceQuote) setAmount(invoiceQuote.amount);
+  }, [invoiceQuote]);
+
+  const tokenInfo = getTokenByMint(preferredToken) || TOKENS.USDC;
+  // The wallet sends the requested amount as-is, so ask for enough to cover a
+  // Token-2022 transfer fee and still net the merchant `amount`
+  const [requestAmounts, setRequestAmounts] = useState({ net: amount, gross: amount });
+
+  useEffect(() => {
+    let cancelled = false;
+    getGrossAmount(amount, tokenInfo)
+      .then(gross => {
+        if (!cancelled) setRequestAmounts({ net: amount, gross });
+      })
+      .catch(err => {
+        console.error('Error fetching transfer fee:', err);
+        if (!cancelled) setRequestAmounts({ net: amount, gross: amount });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [amount, tokenInfo]);
+
+  // Every new amount is a new request, so it gets its own reference key
+  const request = useMemo<TransferRequest>(() => ({
+    recipient: merchantAddress,
+    amount: requestAmounts.gross,
+    token: preferredToken,
+    reference: createPaymentReference(),
+    label: merchantName,
+    message: invoiceId ? `Invoice from ${merchantName}` : `Payment to ${merchantName}`,
+    memo: invoiceId || `order-${Date.now()}`
+  }), [merchantAddress, merchantName, preferredToken, requestAmounts.gross, invoiceId]);
+
+  const { url, error } = useMemo(() => {
+    try {
+      return { url: createTransferRequestURL(request), error: null };
+    } catch (err) {
+      return { url: null, error: err instanceof Error ? err.message : 'Invalid payment request' };
+    }
+  }, [request]);
+
+  useEffect(() => {
+    const container = qrRef.current;
+    if (!container || !url) return;
+
+    container.innerHTML = '';
+    createQR(url, 256, 'white', 'black').append(container);
+  }, [url]);
+
+  // Watch the chain for a transaction carrying this request's reference
+  useEffect(() => {
+    if (!url) return;
+
+    const controller = new AbortController();
+    setPaymentStatus('pending');
+    setFailureReason(null);
+
+    const pending: Payment = {
+      id: createId('payment'),
+      // The watcher checks what the merchant nets, not what the customer sent
+      amount: requestAmounts.net,
+      token: request.token,
+      status: 'pending',
+      timestamp: Date.now(),
+      merchantId,
+      reference: request.reference,
+      invoiceId
+    };
+
+    watchPayment(pending, {
+      recipient: request.recipient,
+      // An invoice's code is only good while its price is locked
+      timeoutMs: invoiceQuote ? Math.max(0, invoiceQuote.expiresAt - Date.now()) : QR_WATCH_TIMEOUT_MS,
+      // Wallets can't change the amount, but an invoice still accepts whatever arrives
+      allowPartial: !!invoiceId,
+      pollIntervalMs: 3000,
+      signal: controller.signal,
+      onStatusChange: payment => {
+        setPaymentStatus(payment.status);
+        if (payment.status === 'processing') onPaymentCreatedRef.current?.(payment);
+      }
+    })
+      .then(payment => {
+        setFailureReason(payment.failureReason || null);
+        // An unscanned code that timed out is not a payment worth recording
+        if (payment.txSignature) {
+          const currentInvoice = invoiceRef.current;
+          onPaymentCompleteRef.current(
+            currentInvoice ? settleInvoicePayment(currentInvoice, payment) : payment
+          );
+        }
+      })
+      .catch(() => {
+        // Aborted because the request changed or the component unmounted
+      });
+
+    return () => controller.abort();
+  }, [url, request, requestAmounts.net, merchantId, invoiceId, invoiceQuote]);
+
+  const copyLink = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url.toString());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h3 className="font-medium text-lg mb-1 flex items-center">
+        <Smartphone size={18} className="mr-2" />
+        Pay with a Mobile Wallet
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Scan with any Solana Pay compatible wallet. No wallet connection needed.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Amount ({tokenInfo.symbol})
+      </label>
+      <input
+        type="number"
+        min="0.000001"
+        step="0.000001"
+        value={amount}
+        onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+        disabled={!!invoice}
+      />
+
+      {error ? (
+        <div className="flex items-center text-red-500 text-sm">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </div>
+      ) : (
+        <>
+          <div ref={qrRef} className="flex justify-center" />
+          <button
+            type="button"
+            onClick={copyLink}
+            className="mt-4 w-full flex items-center justify-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            {copied ? <Check size={14} className="mr-1" /> : <Copy size={14} className="mr-1" />}
+            {copied ? 'Copied' : 'Copy payment link'}
+          </button>
+          <div className="mt-3 text-sm text-center">
+            {paymentStatus === 'pending' && (
+              <span className="inline-flex items-center text-gray-500">
+                <RefreshCw className="animate-spin mr-2 h-4 w-4" />
+                Waiting for payment...
+              </span>
+            )}
+            {paymentStatus === 'processing' && (
+              <span className="inline-flex items-center text-blue-600">
+                <RefreshCw className="animate-spin mr-2 h-4 w-4" />
+                Verifying payment...
+              </span>
+            )}
+            {paymentStatus === 'completed' && (
+              <span className="inline-flex items-center text-green-600">
+                <Check className="mr-2 h-4 w-4" />
+                Payment received
+              </span>
+            )}
+            {paymentStatus === 'failed' && (
+              <span className="inline-flex items-center text-red-500">
+                <AlertCircle className="mr-2 h-4 w-4" />
+                {failureReason || 'Payment failed'}
+              </span>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-400 break-all">Reference: {request.reference}</p>
+        </>
+      )}
+    </div>
+  );
+};
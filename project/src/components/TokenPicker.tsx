@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import { TokenInfo } from '../types';
+import { searchTokens } from '../utils/tokenRegistry';
+
+interface TokenPickerProps {
+  tokens: TokenInfo[];
+  value: string;
+  onChange: (mint: string) => void;
+  disabled?: boolean;
+}
+
+const TokenLogo: React.FC<{ token: TokenInfo; className: string }> = ({ token, className }) =>
+  token.logoURI ? (
+    <img src={token.logoURI} alt={token.symbol} className={`${className} rounded-full`} />
+  ) : (
+    <div className={`${className} rounded-full bg-gray-200`} />
+  );
+
+export const TokenPicker: React.FC<TokenPickerProps> = ({ tokens, value, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+
+  const selected = tokens.find(token => token.mint === value);
+  // Full lists hold thousands of tokens; only render the best matches
+  const results = useMemo(() => searchTokens(query, tokens), [query, tokens]);
+
+  const selectToken = (mint: string) => {
+    onChange(mint);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center justify-between bg-white"
+      >
+        {selected ? (
+          <span className="flex items-center">
+            <TokenLogo token={selected} className="w-5 h-5 mr-2" />
+            {selected.symbol} - {selected.name}
+          </span>
+        ) : (
+          <span className="text-gray-500">Select a token</span>
+        )}
+        <ChevronDown size={16} className="text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-30">
+          <div className="p-2 border-b border-gray-100 flex items-center">
+            <Search size={14} className="text-gray-400 mr-2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, symbol or mint"
+              className="w-full text-sm focus:outline-none"
+              autoFocus
+            />
+          </div>
+          <ul className="max-h-64 overflow-y-auto">
+            {results.map(token => (
+              <li key={token.mint}>
+                <button
+                  type="button"
+                  onClick={() => selectToken(token.mint)}
+                  className={`w-full px-3 py-2 flex items-center text-left text-sm hover:bg-gray-50 ${
+                    token.mint === value ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <TokenLogo token={token} className="w-6 h-6 mr-3" />
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium">{token.symbol}</span>
+                    <span className="block text-xs text-gray-500 truncate">{token.name}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+            {results.length === 0 && (
+              <li className="px-3 py-4 text-center text-sm text-gray-500">No tokens found</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
-import React, { FC, ReactNode, useMemo } from 'react';
+import { FC, Fragment, ReactNode, useEffect, useMemo, useState } from 'react';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
 import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
+import { Cluster } from '../utils/network';
+import { getNetwork, onNetworkChange } from '../utils/solana';
 
 // Import the styles
 import '@solana/wallet-adapter-react-ui/styles.css';
@@ -11,29 +13,44 @@ interface WalletContextProviderProps {
   children: ReactNode;
 }
 
+// Wallets only know the public clusters; a local validator behaves like devnet to them
+const WALLET_NETWORKS: Record<Cluster, WalletAdapterNetwork> = {
+  'mainnet-beta': WalletAdapterNetwork.Mainnet,
+  devnet: WalletAdapterNetwork.Devnet,
+  testnet: WalletAdapterNetwork.Testnet,
+  localnet: WalletAdapterNetwork.Devnet
+};
+
 export const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) => {
-  // The network can be set to 'devnet', 'testnet', or 'mainnet-beta'
-  const network = WalletAdapterNetwork.Mainnet;
+  // Follow the network picked at build time (VITE_SOLANA_*) or in the runtime switcher
+  const [networkConfig, setNetworkConfig] = useState(getNetwork);
+  useEffect(() => onNetworkChange(setNetworkConfig), []);
 
-  // You can also provide a custom RPC endpoint
-  const endpoint = useMemo(() => 'https://api.mainnet-beta.solana.com', []);
+  const network = WALLET_NETWORKS[networkConfig.cluster];
+  const endpoint = networkConfig.rpcUrl;
 
   // @solana/wallet-adapter-wallets includes all the adapters but supports tree shaking and lazy loading
   const wallets = useMemo(
     () => [
       new PhantomWalletAdapter(),
-      new SolflareWalletAdapter(),
+      new SolflareWalletAdapter({ network }),
     ],
-    []
+    [network]
   );
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
+    <ConnectionProvider
+      endpoint={endpoint}
+      config={{ commitment: 'confirmed', wsEndpoint: networkConfig.wsUrl }}
+    >
       <WalletProvider wallets={wallets} autoConnect>
         <WalletModalProvider>
-          {children}
+          {/* Remount the app so nothing keeps state from the previous cluster */}
+          <Fragment key={`${networkConfig.cluster}:${endpoint}`}>
+            {children}
+          </Fragment>
         </WalletModalProvider>
       </WalletProvider>
     </ConnectionProvider>
   );
-};
\ No newline at end of file
+};
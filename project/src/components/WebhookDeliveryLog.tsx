@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { WebhookDelivery } from '../types';
+import { DeliveryLog } from '../utils/webhooks';
+
+interface WebhookDeliveryLogProps {
+  merchantId: string;
+  log: DeliveryLog;
+}
+
+const DELIVERY_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'bg-green-100 text-green-700',
+  retrying: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+export const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({ merchantId, log }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      log.list(merchantId)
+        .then(result => {
+          if (!cancelled) setDeliveries(result);
+        })
+        .catch(error => console.error('Error loading webhook deliveries:', error));
+    };
+
+    load();
+    const unsubscribe = log.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [log, merchantId]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h4 className="font-medium mb-3 flex items-center">
+        <Send size={16} className="mr-2" />
+        Webhook Deliveries
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 border-b">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Time</th>
+              <th className="px-4 py-2 text-left font-medium">Event</th>
+              <th className="px-4 py-2 text-left font-medium">Attempt</th>
+              <th className="px-4 py-2 text-left font-medium">Status</th>
+              <th className="px-4 py-2 text-left font-medium">Response</th>
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map(delivery => (
+              <tr key={delivery.id} className="border-b border-gray-100">
+                <td className="px-4 py-2">{new Date(delivery.timestamp).toLocaleString()}</td>
+                <td className="px-4 py-2 font-mono text-xs">{delivery.eventType}</td>
+                <td className="px-4 py-2">{delivery.attempt}</td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${DELIVERY_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-xs text-gray-500">{delivery.error || delivery.responseStatus}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {deliveries.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-6">No deliveries yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
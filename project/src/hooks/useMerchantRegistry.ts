@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Merchant } from '../types';
+import { MerchantInput, MerchantRegistry } from '../utils/merchants';
+
+interface MerchantRegistryState {
+  merchants: Merchant[];
+  isLoading: boolean;
+  error: string | null;
+  createMerchant: (input: MerchantInput) => Promise<Merchant>;
+  updateMerchant: (id: string, changes: Partial<MerchantInput>) => Promise<Merchant>;
+}
+
+// The registry's merchants, kept in step with every create and update made through the hook
+export function useMerchantRegistry(registry: MerchantRegistry): MerchantRegistryState {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    registry.list()
+      .then(result => {
+        if (cancelled) return;
+        setMerchants(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading merchants:', err);
+        if (!cancelled) setError('Failed to load merchants');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [registry]);
+
+  const createMerchant = useCallback(async (input: MerchantInput) => {
+    const merchant = await registry.create(input);
+    setMerchants(current => [...current, merchant]);
+    return merchant;
+  }, [registry]);
+
+  const updateMerchant = useCallback(async (id: string, changes: Partial<MerchantInput>) => {
+    const merchant = await registry.update(id, changes);
+    setMerchants(current => current.map(m => (m.id === id ? merchant : m)));
+    return merchant;
+  }, [registry]);
+
+  return { merchants, isLoading, error, createMerchant, updateMerchant };
+}
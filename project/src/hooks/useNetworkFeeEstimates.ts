@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { JupiterQuote, TokenInfo } from '../types';
+import { createTransferInstructions } from '../utils/solana';
+import { createSwapAndPayInstructions } from '../utils/jupiter';
+import { NetworkFeeEstimate, SpeedTier, estimateNetworkFees } from '../utils/priorityFees';
+
+interface PaymentFeeParams {
+  payer: PublicKey | null;
+  recipient: string;
+  // Swaps are estimated from this quote; direct payments move `amount` of `token`
+  quote: JupiterQuote | null;
+  isSwap: boolean;
+  amount: number;
+  token: string;
+  outputToken: TokenInfo;
+}
+
+const ESTIMATE_DEBOUNCE_MS = 500;
+
+// The payment's network fee at each speed tier, from a simulation of the transaction it will
+// send; null until there is something to estimate or when the estimate fails
+export function useNetworkFeeEstimates({
+  payer,
+  recipient,
+  quote,
+  isSwap,
+  amount,
+  token,
+  outputToken
+}: PaymentFeeParams): Record<SpeedTier, NetworkFeeEstimate> | null {
+  const [estimates, setEstimates] = useState<Record<SpeedTier, NetworkFeeEstimate> | null>(null);
+  const payerAddress = payer?.toBase58();
+
+  useEffect(() => {
+    if (!payerAddress || !quote || !(amount > 0)) {
+      setEstimates(null);
+      return;
+    }
+
+    let cancelled = false;
+    const estimate = async () => {
+      try {
+        const from = new PublicKey(payerAddress);
+        const to = new PublicKey(recipient);
+        const { instructions, lookupTables } = isSwap
+          ? await createSwapAndPayInstructions(quote, outputToken, from, to)
+          : { instructions: await createTransferInstructions(amount, token, from, to), lookupTables: [] };
+        const result = await estimateNetworkFees(instructions, from, lookupTables);
+        if (!cancelled) setEstimates(result);
+      } catch (error) {
+        console.error('Error estimating network fees:', error);
+        if (!cancelled) setEstimates(null);
+      }
+    };
+
+    const timeoutId = setTimeout(estimate, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [payerAddress, recipient, quote, isSwap, amount, token, outputToken]);
+
+  return estimates;
+}
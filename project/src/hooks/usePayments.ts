@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { PaymentPage, PaymentQuery, PaymentRepository } from '../utils/paymentRepository';
+
+interface PaymentsState extends PaymentPage {
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Runs the query against the repository and again whenever a payment is saved
+export function usePayments(repository: PaymentRepository, query: PaymentQuery): PaymentsState {
+  const [page, setPage] = useState<PaymentPage>({ payments: [], total: 0 });
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  // Callers build the query inline, so compare it by value
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    const currentQuery: PaymentQuery = JSON.parse(queryKey);
+    let cancelled = false;
+
+    const load = () => {
+      repository.query(currentQuery)
+        .then(result => {
+          if (cancelled) return;
+          setPage(result);
+          setError(null);
+        })
+        .catch(() => {
+          if (!cancelled) setError('Failed to load payments');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    setIsLoading(true);
+    load();
+    const unsubscribe = repository.subscribe(load);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, queryKey]);
+
+  return { ...page, isLoading, error };
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { TokenInfo } from '../types';
+import { getAllTokens, loadTokenList, onTokenRegistryChange } from '../utils/tokenRegistry';
+
+// The registry's tokens, re-read whenever a list loads or the network changes
+export function useTokenRegistry(): TokenInfo[] {
+  const [tokens, setTokens] = useState<TokenInfo[]>(getAllTokens);
+
+  useEffect(() => {
+    const unsubscribe = onTokenRegistryChange(() => setTokens(getAllTokens()));
+    // The built-in tokens keep the app usable if the list can't be fetched
+    loadTokenList().catch(err => console.error('Error loading token list:', err));
+    return unsubscribe;
+  }, []);
+
+  return tokens;
+}
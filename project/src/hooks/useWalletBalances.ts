@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { WalletBalances, getWalletBalances, subscribeToWalletBalances } from '../utils/balances';
+
+interface WalletBalancesState {
+  balances: WalletBalances | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Live balances for the connected wallet; null while disconnected or still loading
+export function useWalletBalances(owner: PublicKey | null): WalletBalancesState {
+  const [balances, setBalances] = useState<WalletBalances | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to force a full refetch, e.g. when a new token account may have appeared
+  const [refreshCount, setRefreshCount] = useState<number>(0);
+  const balancesRef = useRef(balances);
+  balancesRef.current = balances;
+  const ownerAddress = owner?.toBase58();
+
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), []);
+
+  const updateToken = useCallback((mint: string, amount: bigint) => {
+    setBalances(prev => {
+      const token = prev?.tokens[mint];
+      if (!prev || !token) return prev;
+      return { ...prev, tokens: { ...prev.tokens, [mint]: { ...token, amount } } };
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!ownerAddress) {
+      setBalances(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getWalletBalances(new PublicKey(ownerAddress))
+      .then(result => {
+        if (cancelled) return;
+        setBalances(result);
+        setError(null);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load balances');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerAddress, refreshCount]);
+
+  // Only a refetch can change which token accounts exist, so resubscribe when that set changes
+  const watchedAccounts = balances ? Object.values(balances.tokens).map(t => t.address).join(',') : null;
+
+  useEffect(() => {
+    const current = balancesRef.current;
+    if (!ownerAddress || !current) return;
+    return subscribeToWalletBalances(new PublicKey(ownerAddress), current.tokens, updateToken, refresh);
+  }, [ownerAddress, watchedAccounts, updateToken, refresh]);
+
+  return { balances, isLoading, error };
+}
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Invoice, Merchant, Payment } from '../types';
+import { getTokenByMint } from '../utils/tokenRegistry';
+import { parseCheckoutParams } from '../utils/checkoutLinks';
+import { InvoiceCheckout } from '../components/InvoiceCheckout';
+import { PaymentForm } from '../components/PaymentForm';
+import { SolanaPayQR } from '../components/SolanaPayQR';
+
+interface CheckoutPageProps {
+  merchants: Merchant[];
+  // Used when the link doesn't name a merchant
+  defaultMerchant: Merchant;
+  invoices: Invoice[];
+  onInvoiceChange: (invoice: Invoice) => void;
+  onPaymentCreated: (payment: Payment) => void;
+  onPaymentComplete: (payment: Payment) => void;
+}
+
+// `/checkout?merchant=&amount=&token=&reference=` prefills a payment;
+// `/checkout/:invoiceId` opens that invoice
+export const CheckoutPage: React.FC<CheckoutPageProps> = ({
+  merchants,
+  defaultMerchant,
+  invoices,
+  onInvoiceChange,
+  onPaymentCreated,
+  onPaymentComplete
+}) => {
+  const { invoiceId } = useParams();
+  const [searchParams] = useSearchParams();
+  const params = useMemo(() => parseCheckoutParams(searchParams), [searchParams]);
+
+  const invoice = invoiceId ? invoices.find(i => i.id === invoiceId) : undefined;
+  const merchantId = invoice?.merchantId || params.merchantId;
+  const merchant = merchantId ? merchants.find(m => m.id === merchantId) : defaultMerchant;
+
+  if (!merchant || (invoiceId && !invoice)) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6 text-center text-gray-600">
+        {invoiceId ? 'This invoice could not be found.' : 'This merchant could not be found.'}
+      </div>
+    );
+  }
+
+  const { branding } = merchant;
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6 text-center">Customer Payment Portal</h2>
+      <div className="max-w-md mx-auto">
+        <div
+          className="bg-white rounded-lg shadow-md p-4 mb-6 border-t-4"
+          style={{ borderTopColor: branding?.accentColor || 'transparent' }}
+        >
+          <div className="flex items-center mb-2">
+            {branding?.logoUrl && (
+              <img src={branding.logoUrl} alt={merchant.name} className="w-10 h-10 rounded-full mr-3 object-cover" />
+            )}
+            <h3 className="font-medium text-lg">Merchant Information</h3>
+          </div>
+          <p><strong>Name:</strong> {merchant.name}</p>
+          <p><strong>Accepts:</strong> {merchant.acceptedTokens ? 'Selected tokens' : 'Any token'} (auto-converts to {
+            getTokenByMint(merchant.preferredToken)?.symbol
+          })</p>
+        </div>
+
+        <InvoiceCheckout
+          key={invoiceId}
+          merchant={merchant}
+          invoices={invoices}
+          initialInvoiceId={invoiceId}
+          onInvoiceChange={onInvoiceChange}
+          onPaymentCreated={onPaymentCreated}
+          onPaymentComplete={onPaymentComplete}
+        />
+
+        {!invoiceId && (
+          <>
+            {/* A new link means a new payment, so start the form over */}
+            <PaymentForm
+              key={`${merchant.id}:${searchParams.toString()}`}
+              merchant={merchant}
+              initialAmount={params.amount}
+              initialToken={params.token}
+              linkReference={params.reference}
+              onPaymentCreated={onPaymentCreated}
+              onPaymentComplete={onPaymentComplete}
+            />
+
+            <SolanaPayQR
+              merchant={merchant}
+              onPaymentCreated={onPaymentCreated}
+              onPaymentComplete={onPaymentComplete}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
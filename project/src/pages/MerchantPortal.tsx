@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { NavLink, Navigate, Route, Routes } from 'react-router-dom';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { Lock, AlertCircle } from 'lucide-react';
+import { Invoice, Merchant, Payment, Refund } from '../types';
+import { TOKENS } from '../utils/solana';
+import { MerchantInput, createDefaultMerchantInput } from '../utils/merchants';
+import { PaymentRepository } from '../utils/paymentRepository';
+import { DeliveryLog } from '../utils/webhooks';
+import { Reconciler } from '../utils/reconciler';
+import { MerchantDashboard } from '../components/MerchantDashboard';
+import { InvoiceManager } from '../components/InvoiceManager';
+import { MerchantSettings } from '../components/MerchantSettings';
+import { WebhookDeliveryLog } from '../components/WebhookDeliveryLog';
+
+interface MerchantPortalProps {
+  merchants: Merchant[];
+  selectedMerchantId: string;
+  invoices: Invoice[];
+  repository: PaymentRepository;
+  deliveryLog: DeliveryLog;
+  reconciler: Reconciler;
+  onInvoiceCreated: (invoice: Invoice) => void;
+  onRefundChange: (payment: Payment, refund: Refund) => void;
+  onCreateMerchant: (input: MerchantInput) => Promise<Merchant>;
+  onUpdateMerchant: (id: string, changes: Partial<MerchantInput>) => Promise<Merchant>;
+}
+
+const tabClassName = ({ isActive }: { isActive: boolean }) =>
+  `px-3 py-1 rounded-md text-sm ${isActive ? 'bg-blue-600 text-white' : 'text-blue-600 hover:bg-blue-50'}`;
+
+// Everything under `/merchant/*`; only the wallet a merchant is registered to can open it
+export const MerchantPortal: React.FC<MerchantPortalProps> = ({
+  merchants,
+  selectedMerchantId,
+  invoices,
+  repository,
+  deliveryLog,
+  reconciler,
+  onInvoiceCreated,
+  onRefundChange,
+  onCreateMerchant,
+  onUpdateMerchant
+}) => {
+  const { publicKey, connected } = useWallet();
+  const [isRegistering, setIsRegistering] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!connected || !publicKey) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6 flex flex-col items-center">
+        <Lock className="text-gray-400 mb-3" size={32} />
+        <p className="mb-4 text-gray-600">Connect the merchant's wallet to open the dashboard</p>
+        <WalletMultiButton />
+      </div>
+    );
+  }
+
+  const wallet = publicKey.toBase58();
+  const ownedMerchants = merchants.filter(m => m.walletAddress === wallet);
+  const merchant = ownedMerchants.find(m => m.id === selectedMerchantId) || ownedMerchants[0];
+
+  const registerWallet = async () => {
+    setIsRegistering(true);
+    setError(null);
+    try {
+      await onCreateMerchant({
+        ...createDefaultMerchantInput(TOKENS.USDC.mint),
+        name: 'My Store',
+        walletAddress: wallet
+      });
+    } catch (err) {
+      console.error('Error registering merchant:', err);
+      setError(err instanceof Error ? err.message : 'Failed to register merchant');
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  if (!merchant) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6 text-center">
+        <Lock className="text-gray-400 mb-3 mx-auto" size={32} />
+        <p className="mb-4 text-gray-600">
+          The connected wallet doesn't own a merchant. Register it to start accepting payments.
+        </p>
+        <button
+          onClick={registerWallet}
+          disabled={isRegistering}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-75"
+        >
+          Register this wallet
+        </button>
+        {error && (
+          <p className="mt-3 flex items-center justify-center text-xs text-red-500">
+            <AlertCircle size={12} className="mr-1" />
+            {error}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-4 text-center">Merchant Portal</h2>
+      <nav className="flex justify-center space-x-2 mb-6">
+        <NavLink to="/merchant" end className={tabClassName}>Dashboard</NavLink>
+        <NavLink to="/merchant/invoices" className={tabClassName}>Invoices</NavLink>
+        <NavLink to="/merchant/settings" className={tabClassName}>Settings</NavLink>
+      </nav>
+
+      <Routes>
+        <Route
+          index
+          element={
+            <MerchantDashboard
+              merchant={merchant}
+              repository={repository}
+              reconciler={reconciler}
+              onRefundChange={onRefundChange}
+            />
+          }
+        />
+        <Route
+          path="invoices"
+          element={
+            <InvoiceManager
+              merchantId={merchant.id}
+              invoices={invoices.filter(invoice => invoice.merchantId === merchant.id)}
+              onInvoiceCreated={onInvoiceCreated}
+            />
+          }
+        />
+        <Route
+          path="settings"
+          element={
+            <div className="space-y-6">
+              <MerchantSettings
+                key={merchant.id}
+                merchant={merchant}
+                onCreateMerchant={onCreateMerchant}
+                onUpdateMerchant={onUpdateMerchant}
+              />
+              <WebhookDeliveryLog merchantId={merchant.id} log={deliveryLog} />
+            </div>
+          }
+        />
+        <Route path="*" element={<Navigate to="/merchant" replace />} />
+      </Routes>
+    </div>
+  );
+};
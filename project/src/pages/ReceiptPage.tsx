@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Receipt } from 'lucide-react';
+import { Merchant, Payment } from '../types';
+import { PaymentRepository } from '../utils/paymentRepository';
+import { PaymentDetails } from '../components/PaymentDetailDrawer';
+
+interface ReceiptPageProps {
+  merchants: Merchant[];
+  repository: PaymentRepository;
+}
+
+export const ReceiptPage: React.FC<ReceiptPageProps> = ({ merchants, repository }) => {
+  const { paymentId } = useParams();
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!paymentId) return;
+
+    let cancelled = false;
+    const load = () => {
+      repository.get(paymentId)
+        .then(result => {
+          if (!cancelled) setPayment(result);
+        })
+        .catch(() => {
+          if (!cancelled) setPayment(null);
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    setIsLoading(true);
+    load();
+    // A payment still confirming gets saved again once it settles
+    const unsubscribe = repository.subscribe(saved => {
+      if (saved.id === paymentId) setPayment(saved);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, paymentId]);
+
+  const merchant = payment ? merchants.find(m => m.id === payment.merchantId) : undefined;
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold mb-4 flex items-center">
+        <Receipt className="mr-2" size={24} />
+        Receipt
+      </h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : !payment ? (
+        <p className="text-gray-600">This payment could not be found.</p>
+      ) : (
+        <>
+          {merchant && <p className="mb-2 text-gray-600">Paid to <strong>{merchant.name}</strong></p>}
+          <PaymentDetails payment={payment} />
+        </>
+      )}
+
+      <Link to="/checkout" className="mt-6 inline-block text-sm text-blue-600 hover:text-blue-800">
+        Back to checkout
+      </Link>
+    </div>
+  );
+};
@@ -1,19 +1,308 @@
+import type { QuoteResponse } from '@jup-ag/api';
+
 export interface Merchant {
   id: string;
   name: string;
+  // The merchant's own wallet, which identifies who manages the storefront
   walletAddress: string;
+  // Where payments are sent; the merchant's own wallet when unset
+  settlementWallet?: string;
   preferredToken: string;
+  // Mints the merchant accepts at checkout; any registry token when unset
+  acceptedTokens?: string[];
+  // Most slippage a customer's swap may incur, in basis points
+  maxSlippageBps: number;
+  branding?: MerchantBranding;
+  // Receives the merchant's payment and invoice events, signed with `webhookSecret`
+  webhookUrl?: string;
+  webhookSecret?: string;
+  // Shares of each payment routed to other wallets in the same transaction; the settlement
+  // wallet keeps the rest
+  splits?: SplitRecipient[];
+  createdAt: number;
+}
+
+export type SplitRole = 'platform' | 'seller' | 'affiliate';
+
+// A party that takes a cut of the merchant's payments
+export interface SplitRecipient {
+  wallet: string;
+  role: SplitRole;
+  // Share of the payment amount in basis points, e.g. 250 for 2.5%
+  bps: number;
+  label?: string;
+}
+
+// A recipient's cut of one payment
+export interface PaymentSplit extends SplitRecipient {
+  // What the recipient receives, in the payment's token
+  amount: number;
+}
+
+export interface MerchantBranding {
+  logoUrl?: string;
+  // CSS color used for the storefront's accents
+  accentColor?: string;
 }
 
 export interface Payment {
   id: string;
   amount: number;
   token: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  // `refunded` once refunds add up to everything the merchant received
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
   timestamp: number;
   merchantId: string;
   customerWallet?: string;
   txSignature?: string;
+  swap?: SwapResult;
+  // Solana Pay reference key used to find the payment's transaction on chain
+  reference?: string;
+  // Memo the payment transaction carries, e.g. an order number
+  memo?: string;
+  failureReason?: string;
+  // Set when the payment settles (part of) an invoice
+  invoiceId?: string;
+  // Set when the payment collects one period of a subscription
+  subscriptionId?: string;
+  // What the merchant and any split recipients actually received, as measured on chain
+  receivedAmount?: number;
+  // Cuts routed to other wallets by the payment transaction; `amount` includes them
+  splits?: PaymentSplit[];
+  // Value of the payment in `fiatCurrency` when it was made; invoice payments use their locked rate
+  fiatAmount?: number;
+  fiatCurrency?: string;
+  // Transaction fee in SOL, read from the confirmed transaction
+  networkFee?: number;
+  settlement?: PaymentSettlement;
+  refunds?: Refund[];
+  // Sum of completed refunds, in the payment's token
+  refundedAmount?: number;
+  // Set when the payment is paid into escrow instead of the settlement wallet
+  escrow?: PaymentEscrow;
+}
+
+// `held` from the moment the payment lands until the funds move out. A dispute holds them
+// until the merchant refunds or the customer withdraws it.
+export type EscrowStatus = 'held' | 'disputed' | 'releasing' | 'released' | 'refunding' | 'refunded';
+
+export interface PaymentEscrow {
+  // Wallet of this payment's alone that the funds are paid into, derived from the gateway's
+  // escrow key
+  wallet: string;
+  status: EscrowStatus;
+  // How long held funds wait for release before going back to the customer
+  timeoutMs: number;
+  // When held funds go back to the customer; set once the payment lands, and pushed back by
+  // the time spent under dispute
+  refundAt?: number;
+  dispute?: EscrowDispute;
+  // Transfer moving the funds out of escrow, kept across retries
+  payout?: EscrowPayout;
+}
+
+export interface EscrowDispute {
+  reason: string;
+  openedAt: number;
+}
+
+export interface EscrowPayout {
+  action: 'release' | 'refund';
+  // Settlement wallet on release, customer wallet on refund
+  recipient: string;
+  // Cuts routed to other recipients on release
+  splits?: PaymentSplit[];
+  // Why the funds went back to the customer, on refund
+  reason?: string;
+  // Solana Pay reference tagging the transfer, so a retry can tell it already landed
+  reference: string;
+  status: 'pending' | 'completed' | 'failed';
+  timestamp: number;
+  txSignature?: string;
+  failureReason?: string;
+}
+
+// Funds sent back to the customer for (part of) a payment
+export interface Refund {
+  id: string;
+  paymentId: string;
+  // What leaves the merchant, in the payment's token
+  amount: number;
+  // Mint the customer receives; differs from the payment's token when swapped back
+  outputToken: string;
+  // What the customer receives, at least, in `outputToken`
+  outputAmount: number;
+  recipient: string;
+  status: 'pending' | 'completed' | 'failed';
+  timestamp: number;
+  reference: string;
+  txSignature?: string;
+  reason?: string;
+  failureReason?: string;
+}
+
+// How a completed invoice payment compares to what was still due
+export type PaymentSettlement = 'partial' | 'full' | 'overpaid';
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  // Price per unit in the invoice's currency
+  unitPrice: number;
+}
+
+// A price for the invoice in the merchant's token, honoured until `expiresAt`
+export interface InvoiceQuote {
+  token: string;
+  // Token amount covering `fiatAmount`
+  amount: number;
+  fiatAmount: number;
+  // Invoice currency per whole token
+  rate: number;
+  lockedAt: number;
+  expiresAt: number;
+}
+
+export type InvoiceStatus = 'open' | 'partially_paid' | 'paid' | 'overpaid' | 'expired';
+
+export interface Invoice {
+  id: string;
+  merchantId: string;
+  customerName?: string;
+  customerEmail?: string;
+  lineItems: InvoiceLineItem[];
+  // Percentage applied to the subtotal, e.g. 8.25
+  taxRate: number;
+  // ISO 4217 code the invoice is priced in; it is paid in any token
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  status: InvoiceStatus;
+  createdAt: number;
+  expiresAt: number;
+  // How long a locked token price is honoured at checkout
+  quoteWindowMinutes: number;
+  quote?: InvoiceQuote;
+  memo?: string;
+}
+
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+// A recurring price customers subscribe to
+export interface SubscriptionPlan {
+  id: string;
+  merchantId: string;
+  name: string;
+  // What the merchant receives each period, in `token`
+  amount: number;
+  // SPL Token or Token-2022 mint; native SOL can't be delegated
+  token: string;
+  interval: BillingInterval;
+  // Bill every `intervalCount` intervals, e.g. every 3 months
+  intervalCount: number;
+  // Periods one approval covers; the delegate can never pull more than this many charges
+  allowancePeriods: number;
+  createdAt: number;
+}
+
+// `incomplete` until the customer's approval lands; `past_due` while a failed charge is retried
+export type SubscriptionStatus = 'incomplete' | 'active' | 'past_due' | 'canceled';
+
+export interface Subscription {
+  id: string;
+  planId: string;
+  merchantId: string;
+  customerWallet: string;
+  // The customer's token account charges are pulled from
+  tokenAccount: string;
+  // Gateway key the customer approved to pull charges from `tokenAccount`
+  delegate: string;
+  status: SubscriptionStatus;
+  createdAt: number;
+  // The period the latest successful charge paid for
+  currentPeriodStart?: number;
+  currentPeriodEnd?: number;
+  // When the scheduler next charges, or retries a failed charge
+  nextChargeAt: number;
+  // Failed charges for the period being collected; reset once one goes through
+  failedAttempts: number;
+  // Payment collecting the period being charged, kept across retries
+  pendingPaymentId?: string;
+  lastFailureReason?: string;
+  canceledAt?: number;
+  cancelReason?: string;
+}
+
+// Payload of every event the gateway publishes, keyed by event type
+export interface GatewayEventMap {
+  'payment.created': Payment;
+  'payment.confirmed': Payment;
+  'payment.failed': Payment;
+  'payment.refunded': Payment;
+  'invoice.expired': Invoice;
+  'subscription.activated': Subscription;
+  'subscription.past_due': Subscription;
+  'subscription.canceled': Subscription;
+  'escrow.disputed': Payment;
+  'escrow.dispute_withdrawn': Payment;
+  'escrow.released': Payment;
+}
+
+export type GatewayEventType = keyof GatewayEventMap;
+
+export interface GatewayEvent<T extends GatewayEventType = GatewayEventType> {
+  // Stable across webhook retries so receivers can drop duplicates
+  id: string;
+  type: T;
+  createdAt: number;
+  merchantId: string;
+  data: GatewayEventMap[T];
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: GatewayEventType;
+  merchantId: string;
+  url: string;
+  attempt: number;
+  status: 'succeeded' | 'retrying' | 'failed';
+  // HTTP status of the response, absent when the request never got one
+  responseStatus?: number;
+  error?: string;
+  timestamp: number;
+}
+
+// Something the chain and the payment records disagree on
+export interface ReconciliationIssue {
+  // unmatched_deposit: funds arrived that no payment accounts for
+  // amount_mismatch: a payment's transaction moved a different amount than was recorded
+  // missing_payment: a settled payment whose transaction wasn't found for the merchant
+  type: 'unmatched_deposit' | 'amount_mismatch' | 'missing_payment';
+  token: string;
+  timestamp: number;
+  signature?: string;
+  paymentId?: string;
+  // On chain and on record, in the token
+  received?: number;
+  expected?: number;
+  sender?: string;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  merchantId: string;
+  scannedAt: number;
+  // Start of the scanned window
+  since: number;
+  signaturesScanned: number;
+  matched: number;
+  // Payments that were pending, processing or failed on record but settled on chain
+  recovered: string[];
+  issues: ReconciliationIssue[];
 }
 
 export interface TokenInfo {
@@ -31,4 +320,32 @@ export interface SwapResult {
   outputToken: string;
   txSignature: string;
   fee: number;
-}
\ No newline at end of file
+  // Mint `fee` is charged in
+  feeMint?: string;
+  // Mint the customer paid with; symbols alone can't identify a token
+  inputMint?: string;
+}
+
+// A Solana Pay transfer request, with keys and mints kept as base58 strings
+export interface TransferRequest {
+  recipient: string;
+  amount: number;
+  token: string;
+  reference: string;
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+// Quotes come straight from the Jupiter v6 API, amounts are base-unit strings
+export type JupiterQuote = QuoteResponse;
+
+export interface PaymentFilters {
+  status: Payment['status'] | 'all';
+  token: string | 'all';
+  from?: number;
+  to?: number;
+  customerWallet: string;
+}
+
+export type PaymentSortKey = 'timestamp' | 'amount' | 'status' | 'token';
@@ -0,0 +1,110 @@
+import { Payment, PaymentFilters, PaymentSortKey } from '../types';
+
+export interface TokenTotal {
+  token: string;
+  amount: number;
+  count: number;
+}
+
+export interface DailyTotal {
+  day: string; // YYYY-MM-DD in local time
+  count: number;
+  byToken: Record<string, number>;
+}
+
+export const DEFAULT_FILTERS: PaymentFilters = {
+  status: 'all',
+  token: 'all',
+  customerWallet: ''
+};
+
+// Format a timestamp as a local YYYY-MM-DD key so payments group by calendar day
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function filterPayments(payments: Payment[], filters: PaymentFilters): Payment[] {
+  const wallet = filters.customerWallet.trim().toLowerCase();
+
+  return payments.filter(payment => {
+    if (filters.status !== 'all' && payment.status !== filters.status) return false;
+    if (filters.token !== 'all' && payment.token !== filters.token) return false;
+    if (filters.from !== undefined && payment.timestamp < filters.from) return false;
+    if (filters.to !== undefined && payment.timestamp > filters.to) return false;
+    if (wallet && !payment.customerWallet?.toLowerCase().includes(wallet)) return false;
+    return true;
+  });
+}
+
+export function sortPayments(
+  payments: Payment[],
+  key: PaymentSortKey,
+  direction: 'asc' | 'desc'
+): Payment[] {
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...payments].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * sign;
+    }
+    return String(left).localeCompare(String(right)) * sign;
+  });
+}
+
+// Revenue kept from a completed payment once partial refunds are taken out. What arrived
+// counts, as in the exports, so partial payments and overpayments add up the same way.
+function getNetAmount(payment: Payment): number {
+  return (payment.receivedAmount ?? payment.amount) - (payment.refundedAmount || 0);
+}
+
+// Only completed payments count towards revenue; fully refunded ones are no longer completed
+export function getTotalsByToken(payments: Payment[]): TokenTotal[] {
+  const totals = new Map<string, TokenTotal>();
+
+  for (const payment of payments) {
+    if (payment.status !== 'completed') continue;
+    const total = totals.get(payment.token) || { token: payment.token, amount: 0, count: 0 };
+    total.amount += getNetAmount(payment);
+    total.count += 1;
+    totals.set(payment.token, total);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => b.count - a.count);
+}
+
+export function getTotalsByDay(payments: Payment[]): DailyTotal[] {
+  const totals = new Map<string, DailyTotal>();
+
+  for (const payment of payments) {
+    if (payment.status !== 'completed') continue;
+    const day = toDayKey(payment.timestamp);
+    const total = totals.get(day) || { day, count: 0, byToken: {} };
+    total.count += 1;
+    total.byToken[payment.token] = (total.byToken[payment.token] || 0) + getNetAmount(payment);
+    totals.set(day, total);
+  }
+
+  // Most recent day first
+  return Array.from(totals.values()).sort((a, b) => b.day.localeCompare(a.day));
+}
+
+export function countByStatus(payments: Payment[]): Record<Payment['status'], number> {
+  const counts: Record<Payment['status'], number> = {
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    refunded: 0
+  };
+
+  for (const payment of payments) {
+    counts[payment.status] += 1;
+  }
+
+  return counts;
+}
@@ -0,0 +1,238 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAccountLenForMint,
+  getAssociatedTokenAddressSync,
+  unpackAccount
+} from '@solana/spl-token';
+import { TOKENS, connection, fromBaseUnits } from './solana';
+import { getMintDetails, getTokenAccount } from './tokenProgram';
+
+// Covers the base fee and a priority fee with room to spare
+const FEE_RESERVE_LAMPORTS = 100_000;
+
+export interface TokenAccountBalance {
+  // The wallet's associated token account, the one payments are sent from
+  address: string;
+  programId: string;
+  amount: bigint;
+  decimals: number;
+}
+
+export interface WalletBalances {
+  lamports: number;
+  // Keyed by mint; tokens the wallet holds no associated account for are absent
+  tokens: Record<string, TokenAccountBalance>;
+}
+
+interface RpcResponse<T> {
+  id: number;
+  result?: { value: T };
+  error?: { code: number; message: string };
+}
+
+interface ParsedTokenAccount {
+  pubkey: string;
+  account: {
+    data: {
+      parsed: {
+        info: {
+          mint: string;
+          tokenAmount: { amount: string; decimals: number };
+        };
+      };
+    };
+  };
+}
+
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+// Send several JSON-RPC calls in one HTTP request
+async function batchRequest<T extends unknown[]>(
+  calls: { method: string; params: unknown[] }[]
+): Promise<T> {
+  const response = await fetch(connection.rpcEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(calls.map((call, id) => ({ jsonrpc: '2.0', id, ...call })))
+  });
+  if (!response.ok) {
+    throw new Error(`RPC batch request failed with status ${response.status}`);
+  }
+
+  const results: RpcResponse<unknown>[] = await response.json();
+  if (!Array.isArray(results)) {
+    throw new Error('RPC endpoint does not accept batch requests');
+  }
+  results.sort((a, b) => a.id - b.id);
+  return results.map(result => {
+    if (result.error || !result.result) {
+      throw new Error(`RPC error: ${result.error?.message || 'empty response'}`);
+    }
+    return result.result.value;
+  }) as T;
+}
+
+type BalanceResults = [number, ...ParsedTokenAccount[][]];
+
+// The same calls as the batch, one by one through the Connection, so they also carry any
+// headers or fetch it was configured with
+async function requestIndividually(owner: PublicKey): Promise<BalanceResults> {
+  const [lamports, tokenAccounts] = await Promise.all([
+    connection.getBalance(owner, 'confirmed'),
+    Promise.all(TOKEN_PROGRAMS.map(programId =>
+      connection.getParsedTokenAccountsByOwner(owner, { programId }, 'confirmed')))
+  ]);
+  return [
+    lamports,
+    ...tokenAccounts.map(({ value }) => value.map(({ pubkey, account }) => ({
+      pubkey: pubkey.toBase58(),
+      account: { data: { parsed: account.data.parsed } }
+    })))
+  ];
+}
+
+// Fetch the SOL balance and every SPL Token and Token-2022 balance in one round trip. Some
+// providers reject or cap batches, so a failed batch is retried as separate calls.
+export async function getWalletBalances(owner: PublicKey): Promise<WalletBalances> {
+  try {
+    const ownerAddress = owner.toBase58();
+    const [lamports, ...tokenAccounts] = await batchRequest<BalanceResults>([
+      { method: 'getBalance', params: [ownerAddress, { commitment: 'confirmed' }] },
+      ...TOKEN_PROGRAMS.map(programId => ({
+        method: 'getTokenAccountsByOwner',
+        params: [
+          ownerAddress,
+          { programId: programId.toBase58() },
+          { encoding: 'jsonParsed', commitment: 'confirmed' }
+        ]
+      }))
+    ]).catch(error => {
+      console.error('Error batching balance requests, sending them separately:', error);
+      return requestIndividually(owner);
+    });
+
+    const tokens: Record<string, TokenAccountBalance> = {};
+    tokenAccounts.forEach((accounts, index) => {
+      const programId = TOKEN_PROGRAMS[index];
+      accounts.forEach(({ pubkey, account }) => {
+        const { mint, tokenAmount } = account.data.parsed.info;
+        // Transfers always debit the associated account, so other accounts don't count
+        const ata = getAssociatedTokenAddressSync(new PublicKey(mint), owner, true, programId);
+        if (ata.toBase58() !== pubkey) return;
+        tokens[mint] = {
+          address: pubkey,
+          programId: programId.toBase58(),
+          amount: BigInt(tokenAmount.amount),
+          decimals: tokenAmount.decimals
+        };
+      });
+    });
+
+    return { lamports, tokens };
+  } catch (error) {
+    console.error('Error fetching wallet balances:', error);
+    throw new Error('Failed to fetch wallet balances');
+  }
+}
+
+// UI amount of `mint` held by the wallet
+export function getBalance(balances: WalletBalances, mint: string): number {
+  if (mint === TOKENS.SOL.mint) {
+    return fromBaseUnits(balances.lamports, TOKENS.SOL.decimals);
+  }
+  const token = balances.tokens[mint];
+  return token ? fromBaseUnits(token.amount, token.decimals) : 0;
+}
+
+// Watch a wallet's balances: token account changes are reported per mint, while a change to
+// the wallet itself (every transaction it pays for) asks for a full refresh so new accounts show up
+export function subscribeToWalletBalances(
+  owner: PublicKey,
+  tokens: Record<string, TokenAccountBalance>,
+  onTokenChange: (mint: string, amount: bigint) => void,
+  onRefresh: () => void
+): () => void {
+  // A network switch replaces the module's connection, but these subscriptions live on this one
+  const conn = connection;
+  const subscriptions = [
+    conn.onAccountChange(owner, () => onRefresh(), { commitment: 'confirmed' }),
+    ...Object.entries(tokens).map(([mint, token]) => {
+      const address = new PublicKey(token.address);
+      return conn.onAccountChange(
+        address,
+        (info: AccountInfo<Buffer>) => {
+          try {
+            onTokenChange(mint, unpackAccount(address, info, new PublicKey(token.programId)).amount);
+          } catch {
+            // The account was closed
+            onRefresh();
+          }
+        },
+        { commitment: 'confirmed' }
+      );
+    })
+  ];
+
+  return () => {
+    subscriptions.forEach(id => {
+      conn.removeAccountChangeListener(id).catch(error =>
+        console.error('Error removing balance subscription:', error)
+      );
+    });
+  };
+}
+
+async function getTokenAccountRent(mint: string): Promise<number> {
+  const { mint: mintAccount } = await getMintDetails(mint);
+  // Token-2022 accounts grow with the mint's extensions
+  const size = Math.max(ACCOUNT_SIZE, getAccountLenForMint(mintAccount));
+  return connection.getMinimumBalanceForRentExemption(size);
+}
+
+export interface SolReserveParams {
+  recipient: PublicKey;
+  // The token the merchant is paid in
+  paymentMint: string;
+  // The token the customer pays with, when it has to be swapped first
+  inputMint?: string;
+  // Whether the customer already holds an associated account for the payment token
+  hasPaymentAccount: boolean;
+}
+
+// SOL the customer must keep on top of the payment: network fees, the wallet's own
+// rent-exempt minimum, and rent for any token account the payment has to open
+export async function getSolReserve({
+  recipient,
+  paymentMint,
+  inputMint,
+  hasPaymentAccount
+}: SolReserveParams): Promise<number> {
+  try {
+    let lamports = FEE_RESERVE_LAMPORTS + await connection.getMinimumBalanceForRentExemption(0);
+
+    if (paymentMint !== TOKENS.SOL.mint) {
+      const mintDetails = await getMintDetails(paymentMint);
+      const merchantAccount = await getTokenAccount(
+        getAssociatedTokenAddressSync(new PublicKey(paymentMint), recipient, true, mintDetails.programId),
+        mintDetails
+      );
+      const rent = await getTokenAccountRent(paymentMint);
+      if (!merchantAccount) lamports += rent;
+      // A swap lands the proceeds in the customer's own account first
+      if (inputMint && !hasPaymentAccount) lamports += rent;
+    }
+
+    // Jupiter wraps SOL in a temporary account that is closed again after the swap
+    if (inputMint === TOKENS.SOL.mint) {
+      lamports += await getTokenAccountRent(TOKENS.SOL.mint);
+    }
+
+    return fromBaseUnits(lamports, TOKENS.SOL.decimals);
+  } catch (error) {
+    console.error('Error estimating SOL reserve:', error);
+    throw new Error('Failed to estimate SOL reserve');
+  }
+}
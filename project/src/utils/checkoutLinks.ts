@@ -0,0 +1,44 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Everything a shared link can prefill on the checkout page
+export interface CheckoutParams {
+  merchantId?: string;
+  amount?: number;
+  // Mint the customer pays with
+  token?: string;
+  // Solana Pay reference key the payment must carry, so the sender can find it later
+  reference?: string;
+}
+
+function parsePublicKey(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new PublicKey(value).toBase58();
+  } catch {
+    return undefined;
+  }
+}
+
+// Invalid values are dropped rather than rejected so a mangled link still opens the checkout
+export function parseCheckoutParams(searchParams: URLSearchParams): CheckoutParams {
+  const amount = Number(searchParams.get('amount'));
+  return {
+    merchantId: searchParams.get('merchant') || undefined,
+    amount: Number.isFinite(amount) && amount > 0 ? amount : undefined,
+    token: parsePublicKey(searchParams.get('token')),
+    reference: parsePublicKey(searchParams.get('reference'))
+  };
+}
+
+export function createCheckoutLink(params: CheckoutParams, origin: string = window.location.origin): string {
+  const url = new URL('/checkout', origin);
+  if (params.merchantId) url.searchParams.set('merchant', params.merchantId);
+  if (params.amount !== undefined) url.searchParams.set('amount', String(params.amount));
+  if (params.token) url.searchParams.set('token', params.token);
+  if (params.reference) url.searchParams.set('reference', params.reference);
+  return url.toString();
+}
+
+export function createInvoiceLink(invoiceId: string, origin: string = window.location.origin): string {
+  return new URL(`/checkout/${encodeURIComponent(invoiceId)}`, origin).toString();
+}
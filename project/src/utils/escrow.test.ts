@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Payment, PaymentEscrow } from '../types';
+import { TOKENS } from './solana';
+import {
+  canRefundEscrow,
+  canReleaseEscrow,
+  createEscrow,
+  getEscrowActionMessage,
+  getRestingStatus,
+  holdEscrow,
+  isEscrowRefundDue,
+  openDispute,
+  withdrawDispute
+} from './escrow';
+
+const HOUR_MS = 60 * 60 * 1000;
+const landedAt = Date.UTC(2024, 0, 1);
+
+function createPayment(escrow: PaymentEscrow, changes: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay_1',
+    amount: 10,
+    token: TOKENS.USDC.mint,
+    status: 'completed',
+    timestamp: landedAt,
+    merchantId: 'merchant-1',
+    escrow,
+    ...changes
+  };
+}
+
+const held = () => holdEscrow(createEscrow('escrow-wallet', 24 * HOUR_MS), landedAt);
+
+describe('escrow timeout', () => {
+  it('starts when the payment lands and is not restarted', () => {
+    const escrow = held();
+    expect(escrow.refundAt).toBe(landedAt + 24 * HOUR_MS);
+    expect(holdEscrow(escrow, landedAt + HOUR_MS)).toBe(escrow);
+  });
+
+  it('makes held funds due for a refund once it runs out', () => {
+    const payment = createPayment(held());
+    expect(isEscrowRefundDue(payment, landedAt + 24 * HOUR_MS - 1)).toBe(false);
+    expect(isEscrowRefundDue(payment, landedAt + 24 * HOUR_MS)).toBe(true);
+  });
+
+  it('never refunds funds that are disputed, moving or not yet landed', () => {
+    const late = landedAt + 48 * HOUR_MS;
+    expect(isEscrowRefundDue(createPayment(openDispute(held(), 'Not delivered', landedAt)), late)).toBe(false);
+    expect(isEscrowRefundDue(createPayment({ ...held(), status: 'releasing' }), late)).toBe(false);
+    expect(isEscrowRefundDue(createPayment(createEscrow('escrow-wallet')), late)).toBe(false);
+    expect(isEscrowRefundDue(createPayment(held(), { status: 'failed' }), late)).toBe(false);
+  });
+});
+
+describe('escrow disputes', () => {
+  it('blocks release but not refund while open', () => {
+    const payment = createPayment(openDispute(held(), 'Not delivered', landedAt));
+    expect(canReleaseEscrow(payment)).toBe(false);
+    expect(canRefundEscrow(payment)).toBe(true);
+  });
+
+  it('pushes the timeout back by the time spent under dispute', () => {
+    const disputed = openDispute(held(), 'Not delivered', landedAt + HOUR_MS);
+    const withdrawn = withdrawDispute(disputed, landedAt + 4 * HOUR_MS);
+
+    expect(withdrawn.status).toBe('held');
+    expect(withdrawn.dispute).toBeUndefined();
+    expect(withdrawn.refundAt).toBe(landedAt + 27 * HOUR_MS);
+  });
+
+  it('leaves the timeout alone when there was no dispute', () => {
+    expect(withdrawDispute(held(), landedAt + HOUR_MS).refundAt).toBe(landedAt + 24 * HOUR_MS);
+  });
+
+  it('returns to the status the funds rest in after a payout fails', () => {
+    expect(getRestingStatus({ ...held(), status: 'releasing' })).toBe('held');
+    expect(getRestingStatus({ ...openDispute(held(), 'Not delivered', landedAt), status: 'refunding' }))
+      .toBe('disputed');
+  });
+});
+
+describe('getEscrowActionMessage', () => {
+  it('names the action, the payment and the time', () => {
+    expect(getEscrowActionMessage('pay_1', 'dispute', landedAt))
+      .toBe('Open a dispute on escrowed payment pay_1 at 2024-01-01T00:00:00.000Z');
+    expect(getEscrowActionMessage('pay_1', 'withdraw', landedAt))
+      .toBe('Withdraw my dispute on escrowed payment pay_1 at 2024-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,77 @@
+import { EscrowStatus, Payment, PaymentEscrow } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ESCROW_TIMEOUT_MS = 14 * DAY_MS;
+// A signed escrow action is only accepted this soon after it was signed, so an overheard
+// signature can't be replayed later
+export const ESCROW_SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
+
+export const ESCROW_STATUS_LABELS: Record<EscrowStatus, string> = {
+  held: 'Held in escrow',
+  disputed: 'Disputed',
+  releasing: 'Releasing to merchant',
+  released: 'Released to merchant',
+  refunding: 'Refunding to customer',
+  refunded: 'Refunded to customer'
+};
+
+// What the customer signs with their wallet to open or withdraw a dispute
+export type EscrowAction = 'dispute' | 'withdraw';
+
+export function createEscrow(wallet: string, timeoutMs: number = DEFAULT_ESCROW_TIMEOUT_MS): PaymentEscrow {
+  return { wallet, status: 'held', timeoutMs };
+}
+
+// Start the timeout once the payment lands in escrow
+export function holdEscrow(escrow: PaymentEscrow, landedAt: number = Date.now()): PaymentEscrow {
+  return escrow.refundAt === undefined ? { ...escrow, refundAt: landedAt + escrow.timeoutMs } : escrow;
+}
+
+// What escrow holds for the payment, overpayments included, in the payment's token
+export function getEscrowedAmount(payment: Payment): number {
+  return payment.receivedAmount ?? payment.amount;
+}
+
+// Where the escrow rests while no payout is moving its funds
+export function getRestingStatus(escrow: PaymentEscrow): EscrowStatus {
+  return escrow.dispute ? 'disputed' : 'held';
+}
+
+export function canReleaseEscrow(payment: Payment): boolean {
+  return payment.status === 'completed' && payment.escrow?.status === 'held';
+}
+
+// The merchant may refund a disputed payment too; that's how disputes are settled
+export function canRefundEscrow(payment: Payment): boolean {
+  return payment.status === 'completed' &&
+    (payment.escrow?.status === 'held' || payment.escrow?.status === 'disputed');
+}
+
+// Disputed funds wait for the dispute to be settled rather than the timeout
+export function isEscrowRefundDue(payment: Payment, now: number = Date.now()): boolean {
+  const refundAt = payment.escrow?.refundAt;
+  return canReleaseEscrow(payment) && refundAt !== undefined && refundAt <= now;
+}
+
+export function openDispute(escrow: PaymentEscrow, reason: string, now: number = Date.now()): PaymentEscrow {
+  return { ...escrow, status: 'disputed', dispute: { reason, openedAt: now } };
+}
+
+// Time spent under dispute doesn't count toward the timeout
+export function withdrawDispute(escrow: PaymentEscrow, now: number = Date.now()): PaymentEscrow {
+  const { dispute, ...rest } = escrow;
+  const paused = dispute ? now - dispute.openedAt : 0;
+  return {
+    ...rest,
+    status: 'held',
+    refundAt: rest.refundAt === undefined ? undefined : rest.refundAt + paused
+  };
+}
+
+// The message a customer signs to act on an escrowed payment. It names the payment and the
+// time, so the signature can't be reused for another payment or replayed later.
+export function getEscrowActionMessage(paymentId: string, action: EscrowAction, signedAt: number): string {
+  const verb = action === 'dispute' ? 'Open a dispute on' : 'Withdraw my dispute on';
+  return `${verb} escrowed payment ${paymentId} at ${new Date(signedAt).toISOString()}`;
+}
@@ -0,0 +1,67 @@
+import { GatewayEvent, GatewayEventMap, GatewayEventType } from '../types';
+import { createId } from './ids';
+
+export type EventListener<T extends GatewayEventType = GatewayEventType> = (event: GatewayEvent<T>) => void;
+
+// Somewhere events are forwarded to, such as a webhook endpoint
+export interface EventSink {
+  name: string;
+  deliver(event: GatewayEvent): Promise<void>;
+}
+
+export interface EventBus {
+  publish<T extends GatewayEventType>(type: T, data: GatewayEventMap[T]): GatewayEvent<T>;
+  // In-app listener for one event type, or for all of them with '*'
+  subscribe<T extends GatewayEventType>(type: T | '*', listener: EventListener<T>): () => void;
+  addSink(sink: EventSink): () => void;
+}
+
+export function createEventBus(): EventBus {
+  const listeners = new Map<GatewayEventType | '*', Set<EventListener>>();
+  const sinks = new Set<EventSink>();
+
+  return {
+    publish(type, data) {
+      const event = {
+        id: createId('evt'),
+        type,
+        createdAt: Date.now(),
+        merchantId: data.merchantId,
+        data
+      };
+
+      [listeners.get(type), listeners.get('*')].forEach(set => set?.forEach(listener => {
+        try {
+          listener(event as GatewayEvent);
+        } catch (error) {
+          console.error(`Error in ${type} listener:`, error);
+        }
+      }));
+
+      // Sinks retry on their own time; a slow endpoint must not hold up the app
+      sinks.forEach(sink => {
+        sink.deliver(event as GatewayEvent).catch(error =>
+          console.error(`Error delivering ${type} to ${sink.name}:`, error)
+        );
+      });
+
+      return event;
+    },
+
+    subscribe(type, listener) {
+      const set = listeners.get(type) || new Set();
+      set.add(listener as EventListener);
+      listeners.set(type, set);
+      return () => {
+        set.delete(listener as EventListener);
+      };
+    },
+
+    addSink(sink) {
+      sinks.add(sink);
+      return () => {
+        sinks.delete(sink);
+      };
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Payment } from '../types';
+import { TOKENS } from './solana';
+import { exportAccountingCsv, exportPaymentsCsv, toCsv } from './exports';
+
+function createPayment(changes: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay_1',
+    amount: 10,
+    token: TOKENS.USDC.mint,
+    status: 'completed',
+    timestamp: Date.UTC(2024, 0, 15, 12),
+    merchantId: 'merchant-1',
+    ...changes
+  };
+}
+
+describe('toCsv', () => {
+  it('quotes values with commas, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b', 'c'], [['one, two', 'say "hi"', 'line\nbreak']]))
+      .toBe('a,b,c\r\n"one, two","say ""hi""","line\nbreak"');
+  });
+
+  it('leaves empty values blank', () => {
+    expect(toCsv(['a', 'b'], [[null, undefined]])).toBe('a,b\r\n,');
+  });
+
+  it('defuses text that spreadsheets would run as a formula', () => {
+    const row = toCsv(['value'], [['=HYPERLINK("https://evil.example")'], ['+1'], ['-1'], ['@SUM(A1)']]).split('\r\n');
+    expect(row.slice(1)).toEqual([`"'=HYPERLINK(""https://evil.example"")"`, "'+1", "'-1", "'@SUM(A1)"]);
+  });
+
+  it('defuses formulas behind a leading tab or carriage return', () => {
+    expect(toCsv(['value'], [['\t=1+1'], ['\r=1+1']])).toBe(`value\r\n'\t=1+1\r\n"'\r=1+1"`);
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv(['amount'], [[-2.5]])).toBe('amount\r\n-2.5');
+  });
+});
+
+describe('payment exports', () => {
+  it('escapes fields a customer controls', () => {
+    const csv = exportPaymentsCsv([createPayment({ invoiceId: '=cmd|" /C calc"!A0' })]);
+    expect(csv.split('\r\n')[1]).toContain(`"'=cmd|"" /C calc""!A0"`);
+  });
+
+  it('books refunds as negative lines in the accounting layout', () => {
+    const payment = createPayment({
+      fiatAmount: 10,
+      fiatCurrency: 'USD',
+      customerWallet: 'wallet',
+      txSignature: 'sig',
+      refunds: [{
+        id: 'refund_1',
+        paymentId: 'pay_1',
+        amount: 2.5,
+        outputToken: TOKENS.USDC.mint,
+        outputAmount: 2.5,
+        recipient: 'wallet',
+        status: 'completed',
+        timestamp: Date.UTC(2024, 0, 16, 12),
+        reference: 'ref',
+        txSignature: 'refund-sig',
+        reason: '@mistake'
+      }]
+    });
+
+    const [, sale, refund] = exportAccountingCsv([payment], 'DD/MM/YYYY').split('\r\n');
+    expect(sale).toBe('15/01/2024,10,USD,wallet,Payment 10 USDC,sig');
+    expect(refund).toBe('16/01/2024,-2.5,USD,wallet,Refund 2.5 USDC for payment pay_1: @mistake,refund-sig');
+  });
+});
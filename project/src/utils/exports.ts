@@ -0,0 +1,277 @@
+import BigNumber from 'bignumber.js';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Payment } from '../types';
+import { connection } from './solana';
+import { getTokenByMint } from './tokenRegistry';
+import { toDayKey } from './analytics';
+import { roundMoney } from './pricing';
+
+export type SettlementPeriod = 'day' | 'month';
+
+// Dates in the accounting layout; QuickBooks and Xero take whichever matches the company's locale
+export type AccountingDateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// One flat row per payment, shared by the CSV and JSON exports
+export interface PaymentExportRow {
+  id: string;
+  date: string;
+  status: Payment['status'];
+  merchantId: string;
+  invoiceId: string;
+  token: string;
+  mint: string;
+  amount: number;
+  receivedAmount: number | null;
+  refundedAmount: number;
+  fiatAmount: number | null;
+  fiatCurrency: string;
+  swapInputAmount: number | null;
+  swapInputToken: string;
+  swapFee: number | null;
+  swapFeeToken: string;
+  // In SOL
+  networkFee: number | null;
+  customerWallet: string;
+  txSignature: string;
+  reference: string;
+}
+
+export interface SettlementSummary {
+  // YYYY-MM-DD or YYYY-MM in local time
+  period: string;
+  token: string;
+  count: number;
+  // What was received, before refunds
+  gross: number;
+  refunded: number;
+  net: number;
+  // Fiat value of `gross`, per currency
+  fiatValue: Record<string, number>;
+  // Swap fees per mint they were charged in
+  swapFees: Record<string, number>;
+  // In SOL
+  networkFees: number;
+}
+
+// Payments that moved funds; refunded ones did settle before they were paid back
+const isSettled = (payment: Payment) =>
+  payment.status === 'completed' || payment.status === 'refunded';
+
+const getSymbol = (mint: string) => getTokenByMint(mint)?.symbol || mint;
+
+const getReceived = (payment: Payment) => payment.receivedAmount ?? payment.amount;
+
+export function toPaymentExportRow(payment: Payment): PaymentExportRow {
+  return {
+    id: payment.id,
+    date: new Date(payment.timestamp).toISOString(),
+    status: payment.status,
+    merchantId: payment.merchantId,
+    invoiceId: payment.invoiceId || '',
+    token: getSymbol(payment.token),
+    mint: payment.token,
+    amount: payment.amount,
+    receivedAmount: payment.receivedAmount ?? null,
+    refundedAmount: payment.refundedAmount || 0,
+    fiatAmount: payment.fiatAmount ?? null,
+    fiatCurrency: payment.fiatCurrency || '',
+    swapInputAmount: payment.swap?.inputAmount ?? null,
+    swapInputToken: payment.swap?.inputToken || '',
+    swapFee: payment.swap?.fee ?? null,
+    swapFeeToken: payment.swap?.feeMint ? getSymbol(payment.swap.feeMint) : '',
+    networkFee: payment.networkFee ?? null,
+    customerWallet: payment.customerWallet || '',
+    txSignature: payment.txSignature || '',
+    reference: payment.reference || ''
+  };
+}
+
+function escapeCsvValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: (string | number | null | undefined)[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+const PAYMENT_EXPORT_COLUMNS: (keyof PaymentExportRow)[] = [
+  'id', 'date', 'status', 'merchantId', 'invoiceId', 'token', 'mint', 'amount', 'receivedAmount',
+  'refundedAmount', 'fiatAmount', 'fiatCurrency', 'swapInputAmount', 'swapInputToken', 'swapFee',
+  'swapFeeToken', 'networkFee', 'customerWallet', 'txSignature', 'reference'
+];
+
+export function exportPaymentsCsv(payments: Payment[]): string {
+  return toCsv(
+    PAYMENT_EXPORT_COLUMNS,
+    payments.map(toPaymentExportRow).map(row => PAYMENT_EXPORT_COLUMNS.map(column => row[column]))
+  );
+}
+
+export function exportPaymentsJson(payments: Payment[]): string {
+  return JSON.stringify(payments.map(payment => ({
+    ...toPaymentExportRow(payment),
+    refunds: payment.refunds || []
+  })), null, 2);
+}
+
+function formatAccountingDate(timestamp: number, format: AccountingDateFormat): string {
+  const [year, month, day] = toDayKey(timestamp).split('-');
+  return format === 'MM/DD/YYYY' ? `${month}/${day}/${year}` : `${day}/${month}/${year}`;
+}
+
+// Bank-statement layout both QuickBooks and Xero import: one line per settled payment and one
+// negative line per completed refund. Amounts are in fiat where the payment was valued, and in
+// the token otherwise; the Currency column says which.
+export function exportAccountingCsv(payments: Payment[], dateFormat: AccountingDateFormat = 'MM/DD/YYYY'): string {
+  const rows: (string | number)[][] = [];
+
+  for (const payment of payments) {
+    if (!isSettled(payment)) continue;
+
+    const symbol = getSymbol(payment.token);
+    const received = getReceived(payment);
+    // Fiat per token at the time of payment, so refunds are booked at the rate they reverse
+    const fiatRate = payment.fiatAmount !== undefined && received > 0
+      ? new BigNumber(payment.fiatAmount).dividedBy(received)
+      : null;
+    const currency = fiatRate ? payment.fiatCurrency || 'USD' : symbol;
+
+    const fees = [
+      payment.swap ? `swapped from ${payment.swap.inputAmount} ${payment.swap.inputToken}` : '',
+      payment.swap?.fee ? `swap fee ${payment.swap.fee} ${payment.swap.feeMint ? getSymbol(payment.swap.feeMint) : ''}`.trim() : '',
+      payment.networkFee !== undefined ? `network fee ${payment.networkFee} SOL` : ''
+    ].filter(Boolean);
+
+    rows.push([
+      formatAccountingDate(payment.timestamp, dateFormat),
+      fiatRate ? (payment.fiatAmount as number) : received,
+      currency,
+      payment.customerWallet || '',
+      [`Payment ${received} ${symbol}`, ...fees].join('; ') +
+        (payment.invoiceId ? ` (invoice ${payment.invoiceId})` : ''),
+      payment.txSignature || payment.id
+    ]);
+
+    for (const refund of payment.refunds || []) {
+      if (refund.status !== 'completed') continue;
+      rows.push([
+        formatAccountingDate(refund.timestamp, dateFormat),
+        -(fiatRate ? roundMoney(fiatRate.times(refund.amount).toNumber(), currency) : refund.amount),
+        currency,
+        refund.recipient,
+        `Refund ${refund.amount} ${symbol} for payment ${payment.id}` + (refund.reason ? `: ${refund.reason}` : ''),
+        refund.txSignature || refund.id
+      ]);
+    }
+  }
+
+  return toCsv(['Date', 'Amount', 'Currency', 'Payee', 'Description', 'Reference'], rows);
+}
+
+const toPeriodKey = (timestamp: number, period: SettlementPeriod) =>
+  period === 'day' ? toDayKey(timestamp) : toDayKey(timestamp).slice(0, 7);
+
+const addTo = (totals: Record<string, number>, key: string, amount: number) => {
+  totals[key] = new BigNumber(totals[key] || 0).plus(amount).toNumber();
+};
+
+// What settled per token in each day or month, most recent first
+export function getSettlementSummaries(payments: Payment[], period: SettlementPeriod): SettlementSummary[] {
+  const summaries = new Map<string, SettlementSummary>();
+
+  for (const payment of payments) {
+    if (!isSettled(payment)) continue;
+
+    const key = `${toPeriodKey(payment.timestamp, period)}:${payment.token}`;
+    const summary = summaries.get(key) || {
+      period: toPeriodKey(payment.timestamp, period),
+      token: payment.token,
+      count: 0,
+      gross: 0,
+      refunded: 0,
+      net: 0,
+      fiatValue: {},
+      swapFees: {},
+      networkFees: 0
+    };
+
+    const received = getReceived(payment);
+    const refunded = payment.refundedAmount || 0;
+    summary.count += 1;
+    summary.gross = new BigNumber(summary.gross).plus(received).toNumber();
+    summary.refunded = new BigNumber(summary.refunded).plus(refunded).toNumber();
+    summary.net = new BigNumber(summary.gross).minus(summary.refunded).toNumber();
+    if (payment.fiatAmount !== undefined) {
+      addTo(summary.fiatValue, payment.fiatCurrency || 'USD', payment.fiatAmount);
+    }
+    if (payment.swap?.fee) {
+      addTo(summary.swapFees, payment.swap.feeMint || payment.swap.inputToken, payment.swap.fee);
+    }
+    summary.networkFees = new BigNumber(summary.networkFees).plus(payment.networkFee || 0).toNumber();
+    summaries.set(key, summary);
+  }
+
+  return Array.from(summaries.values()).sort((a, b) =>
+    b.period.localeCompare(a.period) || a.token.localeCompare(b.token)
+  );
+}
+
+const formatTotals = (totals: Record<string, number>, label: (key: string) => string = key => key) =>
+  Object.entries(totals).map(([key, amount]) => `${amount} ${label(key)}`).join('; ');
+
+export function exportSettlementSummariesCsv(payments: Payment[], period: SettlementPeriod): string {
+  return toCsv(
+    [period === 'day' ? 'Day' : 'Month', 'Token', 'Mint', 'Payments', 'Gross', 'Refunded', 'Net', 'Fiat value', 'Swap fees', 'Network fees (SOL)'],
+    getSettlementSummaries(payments, period).map(summary => [
+      summary.period,
+      getSymbol(summary.token),
+      summary.token,
+      summary.count,
+      summary.gross,
+      summary.refunded,
+      summary.net,
+      formatTotals(summary.fiatValue),
+      formatTotals(summary.swapFees, getSymbol),
+      summary.networkFees
+    ])
+  );
+}
+
+// Payments confirmed before fees were recorded get them from their transaction. Returns only
+// the payments that gained a fee, so callers can save just those.
+export async function loadNetworkFees(payments: Payment[]): Promise<Payment[]> {
+  const updated: Payment[] = [];
+
+  for (const payment of payments) {
+    if (!isSettled(payment) || !payment.txSignature || payment.networkFee !== undefined) continue;
+
+    try {
+      const transaction = await connection.getTransaction(payment.txSignature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      if (transaction?.meta) {
+        updated.push({ ...payment, networkFee: transaction.meta.fee / LAMPORTS_PER_SOL });
+      }
+    } catch (error) {
+      console.error('Error loading network fee:', error);
+    }
+  }
+
+  return updated;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
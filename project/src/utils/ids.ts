@@ -0,0 +1,4 @@
+// Collision-free ids; `'payment-' + Date.now()` clashes when two payments land in the same millisecond
+export function createId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID()}`;
+}
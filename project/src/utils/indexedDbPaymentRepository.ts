@@ -0,0 +1,131 @@
+import { Payment } from '../types';
+import {
+  PaymentPage,
+  PaymentQuery,
+  PaymentRepository,
+  createPaymentListeners,
+  matchesPaymentQuery
+} from './paymentRepository';
+
+const DEFAULT_DATABASE_NAME = 'solana-payment-gateway';
+const PAYMENTS_STORE = 'payments';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Each entry upgrades the schema by one version; append new ones, never edit old ones
+const MIGRATIONS: Migration[] = [
+  // v1: payments keyed by id, listed newest first overall or per merchant
+  db => {
+    const store = db.createObjectStore(PAYMENTS_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('merchantId_timestamp', ['merchantId', 'timestamp']);
+  }
+];
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, MIGRATIONS.length);
+    request.onupgradeneeded = event => {
+      const transaction = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+}
+
+// Walk the narrowest index for the query, newest first, and page through the matches
+function queryPayments(store: IDBObjectStore, query: PaymentQuery): Promise<PaymentPage> {
+  const from = query.from ?? -Infinity;
+  const to = query.to ?? Infinity;
+  const offset = query.offset ?? 0;
+  const end = query.limit === undefined ? Infinity : offset + query.limit;
+
+  const cursorRequest = query.merchantId !== undefined
+    ? store.index('merchantId_timestamp').openCursor(
+      IDBKeyRange.bound([query.merchantId, from], [query.merchantId, to]),
+      'prev'
+    )
+    : store.index('timestamp').openCursor(IDBKeyRange.bound(from, to), 'prev');
+
+  return new Promise((resolve, reject) => {
+    const payments: Payment[] = [];
+    let total = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve({ payments, total });
+        return;
+      }
+      const payment = cursor.value as Payment;
+      if (matchesPaymentQuery(payment, query)) {
+        if (total >= offset && total < end) payments.push(payment);
+        total += 1;
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+export function createIndexedDbPaymentRepository(databaseName: string = DEFAULT_DATABASE_NAME): PaymentRepository {
+  let database: Promise<IDBDatabase> | null = null;
+  const listeners = createPaymentListeners();
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    if (!database) {
+      database = openDatabase(databaseName);
+      // Let the next call try again rather than remembering the failure
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return (await database).transaction(PAYMENTS_STORE, mode).objectStore(PAYMENTS_STORE);
+  };
+
+  return {
+    async save(payment) {
+      try {
+        const store = await getStore('readwrite');
+        await requestToPromise(store.put(payment));
+      } catch (error) {
+        console.error('Error saving payment:', error);
+        throw new Error('Failed to save payment');
+      }
+      listeners.notify(payment);
+      return payment;
+    },
+
+    async get(id) {
+      try {
+        const store = await getStore('readonly');
+        return (await requestToPromise<Payment | undefined>(store.get(id))) || null;
+      } catch (error) {
+        console.error('Error reading payment:', error);
+        throw new Error('Failed to read payment');
+      }
+    },
+
+    async query(query = {}) {
+      try {
+        return await queryPayments(await getStore('readonly'), query);
+      } catch (error) {
+        console.error('Error querying payments:', error);
+        throw new Error('Failed to query payments');
+      }
+    },
+
+    subscribe: listeners.subscribe
+  };
+}
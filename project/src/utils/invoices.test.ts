@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { CreateInvoiceParams, calculateInvoiceTotals, validateInvoice } from './invoices';
+
+function createParams(changes: Partial<CreateInvoiceParams> = {}): CreateInvoiceParams {
+  return {
+    merchantId: 'merchant_1',
+    lineItems: [{ description: 'Widget', quantity: 3, unitPrice: 19.99 }],
+    taxRate: 8.25,
+    currency: 'USD',
+    expiresInMs: 60 * 60 * 1000,
+    ...changes
+  };
+}
+
+describe('validateInvoice', () => {
+  it('accepts a well-formed invoice', () => {
+    expect(validateInvoice(createParams())).toEqual([]);
+  });
+
+  it('rejects an expiry that would not survive JSON', () => {
+    expect(validateInvoice(createParams({ expiresInMs: Number.POSITIVE_INFINITY })))
+      .toContain('Expiry must be a finite time in the future');
+  });
+
+  it('rejects infinite or missing line amounts and tax rates', () => {
+    const errors = validateInvoice(createParams({
+      lineItems: [
+        { description: 'Endless', quantity: Number.POSITIVE_INFINITY, unitPrice: 1 },
+        { description: 'Priceless', quantity: 1, unitPrice: Number.NaN }
+      ],
+      taxRate: Number.POSITIVE_INFINITY
+    }));
+    expect(errors).toEqual([
+      'Line 1 needs a quantity above zero',
+      'Line 2 has an invalid price',
+      'Tax rate must be between 0 and 100%'
+    ]);
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('rounds the subtotal and tax to the currency', () => {
+    // 59.97 × 8.25% = 4.947525
+    expect(calculateInvoiceTotals(createParams().lineItems, 8.25, 'USD'))
+      .toEqual({ subtotal: 59.97, tax: 4.95, total: 64.92 });
+  });
+});
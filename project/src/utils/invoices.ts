@@ -0,0 +1,163 @@
+import BigNumber from 'bignumber.js';
+import { Invoice, InvoiceLineItem, InvoiceQuote, InvoiceStatus, Payment, PaymentSettlement, TokenInfo } from '../types';
+import { createId } from './ids';
+import { fiatToTokenAmount, getCurrencyDecimals, getTokenRate, roundMoney } from './pricing';
+
+export const DEFAULT_QUOTE_WINDOW_MINUTES = 15;
+
+export interface CreateInvoiceParams {
+  merchantId: string;
+  lineItems: Omit<InvoiceLineItem, 'id'>[];
+  taxRate: number;
+  currency: string;
+  // How long the invoice can be paid for
+  expiresInMs: number;
+  quoteWindowMinutes?: number;
+  customerName?: string;
+  customerEmail?: string;
+  memo?: string;
+}
+
+export function calculateInvoiceTotals(
+  lineItems: Pick<InvoiceLineItem, 'quantity' | 'unitPrice'>[],
+  taxRate: number,
+  currency: string
+): { subtotal: number; tax: number; total: number } {
+  const subtotal = roundMoney(
+    lineItems
+      .reduce((sum, item) => sum.plus(new BigNumber(item.quantity).times(item.unitPrice)), new BigNumber(0))
+      .toNumber(),
+    currency
+  );
+  const tax = roundMoney(new BigNumber(subtotal).times(taxRate).dividedBy(100).toNumber(), currency);
+  return { subtotal, tax, total: roundMoney(subtotal + tax, currency) };
+}
+
+// Returns a list of problems with the invoice; an empty list means it can be issued
+export function validateInvoice(params: CreateInvoiceParams): string[] {
+  const errors: string[] = [];
+  if (params.lineItems.length === 0) {
+    errors.push('Add at least one line item');
+  }
+  params.lineItems.forEach((item, index) => {
+    if (!item.description.trim()) errors.push(`Line ${index + 1} needs a description`);
+    if (!(Number.isFinite(item.quantity) && item.quantity > 0)) errors.push(`Line ${index + 1} needs a quantity above zero`);
+    if (!(Number.isFinite(item.unitPrice) && item.unitPrice >= 0)) errors.push(`Line ${index + 1} has an invalid price`);
+  });
+  if (!(Number.isFinite(params.taxRate) && params.taxRate >= 0 && params.taxRate <= 100)) {
+    errors.push('Tax rate must be between 0 and 100%');
+  }
+  // JSON can't carry Infinity, so a never-expiring invoice would come back with no expiry at all
+  if (!(Number.isFinite(params.expiresInMs) && params.expiresInMs > 0)) {
+    errors.push('Expiry must be a finite time in the future');
+  }
+  if (errors.length === 0 && calculateInvoiceTotals(params.lineItems, params.taxRate, params.currency).total <= 0) {
+    errors.push('Invoice total must be greater than zero');
+  }
+  return errors;
+}
+
+export function createInvoice(params: CreateInvoiceParams): Invoice {
+  const errors = validateInvoice(params);
+  if (errors.length > 0) {
+    throw new Error(`Invalid invoice: ${errors.join('; ')}`);
+  }
+
+  const now = Date.now();
+  return {
+    id: createId('invoice'),
+    merchantId: params.merchantId,
+    customerName: params.customerName,
+    customerEmail: params.customerEmail,
+    lineItems: params.lineItems.map(item => ({ ...item, id: createId('line') })),
+    taxRate: params.taxRate,
+    currency: params.currency,
+    ...calculateInvoiceTotals(params.lineItems, params.taxRate, params.currency),
+    amountPaid: 0,
+    status: 'open',
+    createdAt: now,
+    expiresAt: now + params.expiresInMs,
+    quoteWindowMinutes: params.quoteWindowMinutes ?? DEFAULT_QUOTE_WINDOW_MINUTES,
+    memo: params.memo
+  };
+}
+
+export function getAmountDue(invoice: Invoice): number {
+  return Math.max(0, roundMoney(invoice.total - invoice.amountPaid, invoice.currency));
+}
+
+// The stored status, except that an unpaid invoice past its expiry reads as expired
+export function getInvoiceStatus(invoice: Invoice, now: number = Date.now()): InvoiceStatus {
+  if ((invoice.status === 'open' || invoice.status === 'partially_paid') && now >= invoice.expiresAt) {
+    return 'expired';
+  }
+  return invoice.status;
+}
+
+export function isInvoicePayable(invoice: Invoice, now: number = Date.now()): boolean {
+  const status = getInvoiceStatus(invoice, now);
+  return status === 'open' || status === 'partially_paid';
+}
+
+export function isQuoteValid(quote: InvoiceQuote | undefined, now: number = Date.now()): quote is InvoiceQuote {
+  return !!quote && now < quote.expiresAt;
+}
+
+// Fix the token price of what is still due for the invoice's quote window
+export async function lockInvoiceQuote(invoice: Invoice, token: TokenInfo): Promise<Invoice> {
+  if (!isInvoicePayable(invoice)) {
+    throw new Error('Invoice can no longer be paid');
+  }
+
+  const rate = await getTokenRate(token, invoice.currency);
+  const fiatAmount = getAmountDue(invoice);
+  const lockedAt = Date.now();
+  const quote: InvoiceQuote = {
+    token: token.mint,
+    amount: fiatToTokenAmount(fiatAmount, rate, token),
+    fiatAmount,
+    rate,
+    lockedAt,
+    // Never honour a price past the invoice's own expiry
+    expiresAt: Math.min(lockedAt + invoice.quoteWindowMinutes * 60 * 1000, invoice.expiresAt)
+  };
+  return { ...invoice, quote };
+}
+
+// Value a completed payment at the invoice's locked rate and compare it to what was due
+export function settleInvoicePayment(invoice: Invoice, payment: Payment): Payment {
+  if (!invoice.quote || payment.status !== 'completed') return payment;
+
+  const received = payment.receivedAmount ?? payment.amount;
+  const fiatAmount = roundMoney(received * invoice.quote.rate, invoice.currency);
+  const due = getAmountDue(invoice);
+  // Token rounding can leave a payment a minor unit either side of the due amount
+  const tolerance = 10 ** -getCurrencyDecimals(invoice.currency);
+
+  let settlement: PaymentSettlement = 'full';
+  if (fiatAmount < due - tolerance) settlement = 'partial';
+  else if (fiatAmount > due + tolerance) settlement = 'overpaid';
+
+  return {
+    ...payment,
+    invoiceId: invoice.id,
+    fiatAmount: settlement === 'full' ? due : fiatAmount,
+    fiatCurrency: invoice.currency,
+    settlement
+  };
+}
+
+// Record a settled payment against its invoice
+export function applyPaymentToInvoice(invoice: Invoice, payment: Payment): Invoice {
+  if (payment.invoiceId !== invoice.id || payment.status !== 'completed' || payment.fiatAmount === undefined) {
+    return invoice;
+  }
+
+  const amountPaid = roundMoney(invoice.amountPaid + payment.fiatAmount, invoice.currency);
+  let status: InvoiceStatus = 'partially_paid';
+  if (amountPaid > invoice.total) status = 'overpaid';
+  else if (amountPaid === invoice.total) status = 'paid';
+
+  // The locked price covered the old balance; a partial payment needs a fresh quote
+  return { ...invoice, amountPaid, status, quote: undefined };
+}
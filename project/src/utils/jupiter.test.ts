@@ -0,0 +1,119 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { StubJupiter, startStubJupiter } from '../../server/harness/stubJupiter';
+import { TOKENS } from './solana';
+import { MEMO_PROGRAM_ID } from './tokenProgram';
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  JUPITER_API_URL,
+  configureJupiter,
+  createJupiterClient,
+  getQuote,
+  getRoutes
+} from './jupiter';
+
+const wallet = new PublicKey('11111111111111111111111111111112');
+
+describe('jupiter client', () => {
+  let stub: StubJupiter;
+
+  beforeAll(async () => {
+    stub = await startStubJupiter();
+  });
+
+  afterAll(async () => {
+    configureJupiter({ baseUrl: JUPITER_API_URL });
+    await stub.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('quotes against the configured base URL', async () => {
+    const client = createJupiterClient({ baseUrl: stub.url });
+    const quote = await client.getQuote(TOKENS.SOL, TOKENS.USDC, 1.5);
+
+    expect(quote.inputMint).toBe(TOKENS.SOL.mint);
+    expect(quote.outputMint).toBe(TOKENS.USDC.mint);
+    // ExactIn amounts are in the input token's base units
+    expect(quote.inAmount).toBe('1500000000');
+    expect(quote.swapMode).toBe('ExactIn');
+    expect(quote.slippageBps).toBe(DEFAULT_SLIPPAGE_BPS);
+  });
+
+  it('prices ExactOut quotes in the output token', async () => {
+    const client = createJupiterClient({ baseUrl: stub.url });
+    const quote = await client.getQuote(TOKENS.SOL, TOKENS.USDC, 2, { swapMode: 'ExactOut', slippageBps: 10 });
+
+    expect(quote.outAmount).toBe('2000000');
+    expect(quote.swapMode).toBe('ExactOut');
+    expect(quote.slippageBps).toBe(10);
+  });
+
+  it('sends every request through the injected fetch', async () => {
+    const calls: string[] = [];
+    const client = createJupiterClient({
+      baseUrl: stub.url,
+      fetch: (input, init) => {
+        calls.push(String(input instanceof Request ? input.url : input));
+        return fetch(input, init);
+      }
+    });
+
+    const quote = await client.getQuote(TOKENS.USDC, TOKENS.SOL, 3);
+    await client.getSwapInstructions(quote, wallet);
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0]).toMatch(new RegExp(`^${stub.url}/quote\\?`));
+    expect(calls[1]).toBe(`${stub.url}/swap-instructions`);
+  });
+
+  it('fetches swap instructions for a quote', async () => {
+    const client = createJupiterClient({ baseUrl: stub.url });
+    const quote = await client.getQuote(TOKENS.USDC, TOKENS.SOL, 1);
+    const instructions = await client.getSwapInstructions(quote, wallet);
+
+    expect(instructions.swapInstruction.programId).toBe(MEMO_PROGRAM_ID.toBase58());
+    expect(Buffer.from(instructions.swapInstruction.data, 'base64').toString()).toBe('stub swap');
+    expect(instructions.setupInstructions).toEqual([]);
+    expect(instructions.addressLookupTableAddresses).toEqual([]);
+  });
+
+  it('uses the configured client for module-level calls', async () => {
+    configureJupiter({ baseUrl: stub.url });
+
+    const quote = await getQuote(TOKENS.SOL, TOKENS.USDC, 1);
+    const routes = await getRoutes(TOKENS.SOL.mint, TOKENS.USDC.mint, 1000);
+
+    expect(quote.outAmount).toBe('1000000000');
+    expect(routes).toHaveLength(1);
+    expect(routes[0].swapInfo.label).toBe('Stub');
+  });
+
+  it('reports failed requests as Jupiter errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    configureJupiter({ baseUrl: `${stub.url}/missing` });
+
+    await expect(getQuote(TOKENS.SOL, TOKENS.USDC, 1)).rejects.toThrow('Failed to get quote from Jupiter');
+    await expect(getRoutes(TOKENS.SOL.mint, TOKENS.USDC.mint, 1000)).rejects.toThrow('Failed to fetch routes');
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects swap instructions the server refuses', async () => {
+    const client = createJupiterClient({
+      baseUrl: stub.url,
+      fetch: async (input, init) => {
+        const url = String(input instanceof Request ? input.url : input);
+        return url.endsWith('/swap-instructions')
+          ? new Response(JSON.stringify({ error: 'Route expired' }), { status: 400 })
+          : fetch(input, init);
+      }
+    });
+    const quote = await client.getQuote(TOKENS.SOL, TOKENS.USDC, 1);
+
+    await expect(client.getSwapInstructions(quote, wallet)).rejects.toMatchObject({
+      response: { status: 400 }
+    });
+  });
+});
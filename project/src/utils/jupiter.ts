@@ -1,60 +1,138 @@
-import { TokenInfo } from '../types';
-import { TOKENS } from './solana';
-import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  createJupiterApiClient,
+  Instruction,
+  QuoteResponse,
+  RoutePlanStep,
+  SwapApi,
+  SwapInstructionsResponse,
+  SwapMode
+} from '@jup-ag/api';
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { JupiterQuote, PaymentSplit, SwapResult, TokenInfo } from '../types';
+import {
+  connection,
+  toBaseUnits,
+  fromBaseUnits,
+  createSplitTransferInstructions,
+  SignTransaction
+} from './solana';
+import { sendTransactionWithRetry } from './transactionSender';
+import { SpeedTier, createComputeBudgetInstructions } from './priorityFees';
+
+export const JUPITER_API_URL = 'https://quote-api.jup.ag/v6';
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.5%
+
+export interface JupiterClientOptions {
+  // Override to point at a local stub server in tests
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface QuoteOptions {
+  slippageBps?: number;
+  swapMode?: SwapMode;
+  platformFeeBps?: number;
+  onlyDirectRoutes?: boolean;
+}
+
+export interface JupiterClient {
+  getQuote(inputToken: TokenInfo, outputToken: TokenInfo, amount: number, options?: QuoteOptions): Promise<JupiterQuote>;
+  getSwapTransaction(quote: JupiterQuote, userPublicKey: PublicKey): Promise<VersionedTransaction>;
+  getSwapInstructions(quote: JupiterQuote, userPublicKey: PublicKey): Promise<SwapInstructionsResponse>;
+  api: SwapApi;
+}
+
+export function createJupiterClient(options: JupiterClientOptions = {}): JupiterClient {
+  const api = createJupiterApiClient({
+    basePath: options.baseUrl || JUPITER_API_URL,
+    fetchApi: options.fetch
+  });
+
+  return {
+    api,
+
+    async getQuote(inputToken, outputToken, amount, quoteOptions = {}) {
+      const swapMode = quoteOptions.swapMode || 'ExactIn';
+      // In ExactOut mode the amount is denominated in the output token
+      const amountToken = swapMode === 'ExactOut' ? outputToken : inputToken;
+
+      return api.quoteGet({
+        inputMint: inputToken.mint,
+        outputMint: outputToken.mint,
+        amount: toBaseUnits(amount, amountToken.decimals),
+        slippageBps: quoteOptions.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+        swapMode,
+        platformFeeBps: quoteOptions.platformFeeBps,
+        onlyDirectRoutes: quoteOptions.onlyDirectRoutes
+      });
+    },
+
+    async getSwapTransaction(quote, userPublicKey) {
+      const { swapTransaction } = await api.swapPost({
+        swapRequest: {
+          quoteResponse: quote,
+          userPublicKey: userPublicKey.toBase58(),
+          wrapAndUnwrapSol: true,
+          dynamicComputeUnitLimit: true
+        }
+      });
+
+      return VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64'));
+    },
+
+    async getSwapInstructions(quote, userPublicKey) {
+      return api.swapInstructionsPost({
+        swapRequest: {
+          quoteResponse: quote,
+          userPublicKey: userPublicKey.toBase58(),
+          wrapAndUnwrapSol: true
+        }
+      });
+    }
+  };
+}
+
+let jupiterClient = createJupiterClient();
+
+// Swap the module-level client, e.g. to point the app at a stub server
+export function configureJupiter(options: JupiterClientOptions) {
+  jupiterClient = createJupiterClient(options);
+}
+
+export function getJupiterClient(): JupiterClient {
+  return jupiterClient;
+}
+
+// A no-op quote for payments made directly in the merchant's preferred token
+export function createDirectQuote(token: TokenInfo, amount: number): JupiterQuote {
+  const baseAmount = String(toBaseUnits(amount, token.decimals));
+  return {
+    inputMint: token.mint,
+    outputMint: token.mint,
+    inAmount: baseAmount,
+    outAmount: baseAmount,
+    otherAmountThreshold: baseAmount,
+    swapMode: 'ExactIn',
+    slippageBps: 0,
+    priceImpactPct: '0',
+    routePlan: []
+  };
+}
 
-// In a real implementation, we would use the actual Jupiter API
-// This is a more realistic simulation of how the Jupiter API would be used
 export async function getQuote(
   inputToken: TokenInfo,
   outputToken: TokenInfo,
-  amount: number
-) {
+  amount: number,
+  options: QuoteOptions = {}
+): Promise<JupiterQuote> {
   try {
-    // In a real implementation, this would be a call to Jupiter's API
-    // Example of how the actual API call would look:
-    /*
-    const response = await fetch(
-      `https://quote-api.jup.ag/v6/quote?inputMint=${inputToken.mint}&outputMint=${outputToken.mint}&amount=${amount * 10 ** inputToken.decimals}&slippageBps=50`
-    );
-    const data = await response.json();
-    return data;
-    */
-    
-    // For demo purposes, we'll simulate the response
-    const mockRate = getMockExchangeRate(inputToken.symbol, outputToken.symbol);
-    const outputAmount = amount * mockRate;
-    const fee = amount * 0.003; // 0.3% fee
-    
-    // This structure mimics Jupiter's actual API response
-    return {
-      inputMint: inputToken.mint,
-      outputMint: outputToken.mint,
-      inAmount: amount * (10 ** inputToken.decimals),
-      outAmount: Math.floor(outputAmount * (10 ** outputToken.decimals)),
-      otherAmountThreshold: Math.floor(outputAmount * 0.995 * (10 ** outputToken.decimals)), // 0.5% slippage
-      swapMode: "ExactIn",
-      slippageBps: 50,
-      platformFee: {
-        amount: Math.floor(fee * (10 ** inputToken.decimals)),
-        feeBps: 30 // 0.3%
-      },
-      priceImpactPct: 0.1,
-      routePlan: [
-        {
-          swapInfo: {
-            ammKey: "JUP" + Math.random().toString(36).substring(2, 10),
-            label: "Jupiter Aggregator",
-            inputMint: inputToken.mint,
-            outputMint: outputToken.mint,
-            inAmount: amount * (10 ** inputToken.decimals),
-            outAmount: Math.floor(outputAmount * (10 ** outputToken.decimals)),
-            feeAmount: Math.floor(fee * (10 ** inputToken.decimals)),
-            feeMint: inputToken.mint
-          }
-        }
-      ],
-      contextSlot: 234567890
-    };
+    return await jupiterClient.getQuote(inputToken, outputToken, amount, options);
   } catch (error) {
     console.error("Error fetching Jupiter quote:", error);
     throw new Error("Failed to get quote from Jupiter");
@@ -65,133 +143,177 @@ export async function executeSwap(
   inputToken: TokenInfo,
   outputToken: TokenInfo,
   amount: number,
-  slippageBps: number = 50 // 0.5% slippage by default
-) {
+  userPublicKey: PublicKey,
+  signTransaction: SignTransaction,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<SwapResult> {
   try {
-    // In a real implementation, this would be a multi-step process:
-    // 1. Get a quote from Jupiter
-    // 2. Get the transaction data from Jupiter
-    // 3. Sign and send the transaction
-    
-    // For demo purposes, we'll simulate the response
-    const mockRate = getMockExchangeRate(inputToken.symbol, outputToken.symbol);
-    const outputAmount = amount * mockRate * (1 - slippageBps / 10000);
-    
-    // This structure mimics what would happen in a real implementation
-    return {
-      inputAmount: amount,
-      outputAmount,
-      inputToken: inputToken.symbol,
-      outputToken: outputToken.symbol,
-      txSignature: 'mock-swap-tx-' + Math.random().toString(36).substring(2, 15),
-      fee: amount * 0.003 // 0.3% fee
-    };
+    const quote = await jupiterClient.getQuote(inputToken, outputToken, amount, { slippageBps });
+    const { signature } = await sendTransactionWithRetry(
+      () => jupiterClient.getSwapTransaction(quote, userPublicKey),
+      signTransaction
+    );
+
+    return toSwapResult(quote, inputToken, outputToken, signature);
   } catch (error) {
     console.error("Error executing Jupiter swap:", error);
     throw new Error("Failed to execute swap through Jupiter");
   }
 }
 
-// More realistic exchange rates based on actual market data (as of the model's knowledge cutoff)
-function getMockExchangeRate(fromSymbol: string, toSymbol: string): number {
-  const rates: Record<string, Record<string, number>> = {
-    'SOL': { 'USDC': 150.25, 'USDT': 150.15, 'BONK': 1000000 },
-    'USDC': { 'SOL': 1/150.25, 'USDT': 0.998, 'BONK': 6500 },
-    'USDT': { 'SOL': 1/150.15, 'USDC': 1.002, 'BONK': 6520 },
-    'BONK': { 'SOL': 0.000001, 'USDC': 0.00015, 'USDT': 0.00015 }
-  };
-  
-  // If direct rate exists, use it
-  if (rates[fromSymbol]?.[toSymbol]) {
-    return rates[fromSymbol][toSymbol];
-  }
-  
-  // If reverse rate exists, use its inverse
-  if (rates[toSymbol]?.[fromSymbol]) {
-    return 1 / rates[toSymbol][fromSymbol];
-  }
-  
-  // If no direct conversion, try to go through USDC
-  if (rates[fromSymbol]?.['USDC'] && rates['USDC']?.[toSymbol]) {
-    return rates[fromSymbol]['USDC'] * rates['USDC'][toSymbol];
-  }
-  
-  // Default fallback
-  return 1;
+function toTransactionInstruction(instruction: Instruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(instruction.programId),
+    keys: instruction.accounts.map(account => ({
+      pubkey: new PublicKey(account.pubkey),
+      isSigner: account.isSigner,
+      isWritable: account.isWritable
+    })),
+    data: Buffer.from(instruction.data, 'base64')
+  });
 }
 
-export async function getAllTokens() {
-  try {
-    // In a real implementation, this would fetch the token list from Jupiter
-    // Example of how the actual API call would look:
-    /*
-    const response = await fetch('https://token.jup.ag/all');
-    const data = await response.json();
-    return data;
-    */
-    
-    // For demo purposes, we'll return our predefined tokens
-    return Object.values(TOKENS);
-  } catch (error) {
-    console.error("Error fetching token list:", error);
-    throw new Error("Failed to fetch token list");
-  }
+async function getLookupTables(addresses: string[]): Promise<AddressLookupTableAccount[]> {
+  const tables = await Promise.all(
+    addresses.map(address => connection.getAddressLookupTable(new PublicKey(address)))
+  );
+  return tables
+    .map(table => table.value)
+    .filter((table): table is AddressLookupTableAccount => table !== null);
+}
+
+// The amount the merchant transfer can safely move after the swap. ExactOut swaps deliver
+// exactly outAmount; ExactIn swaps only guarantee otherAmountThreshold after slippage.
+export function getGuaranteedOutAmount(quote: JupiterQuote): string {
+  return quote.swapMode === 'ExactOut' ? quote.outAmount : quote.otherAmountThreshold;
+}
+
+export interface SwapAndPayInstructions {
+  instructions: TransactionInstruction[];
+  lookupTables: AddressLookupTableAccount[];
+}
+
+// The swap followed by the payment to the merchant, without a compute budget, so the
+// transaction can be simulated to size one
+export async function createSwapAndPayInstructions(
+  quote: JupiterQuote,
+  outputToken: TokenInfo,
+  fromWallet: PublicKey,
+  toWallet: PublicKey,
+  reference?: PublicKey,
+  memo?: string,
+  splits: PaymentSplit[] = []
+): Promise<SwapAndPayInstructions> {
+  const swapInstructions = await jupiterClient.getSwapInstructions(quote, fromWallet);
+  const paymentAmount = fromBaseUnits(getGuaranteedOutAmount(quote), outputToken.decimals);
+
+  const [transferInstructions, lookupTables] = await Promise.all([
+    createSplitTransferInstructions(
+      paymentAmount,
+      outputToken.mint,
+      fromWallet,
+      toWallet,
+      reference,
+      splits,
+      // The swap only yields the guaranteed amount, so any Token-2022 transfer fee comes out of it
+      { amountIncludesFee: true, memo }
+    ),
+    getLookupTables(swapInstructions.addressLookupTableAddresses)
+  ]);
+
+  // Cleanup unwraps wSOL back to native SOL, so a SOL payment must come after it
+  const instructions = [
+    ...swapInstructions.setupInstructions.map(toTransactionInstruction),
+    toTransactionInstruction(swapInstructions.swapInstruction),
+    ...(swapInstructions.cleanupInstruction
+      ? [toTransactionInstruction(swapInstructions.cleanupInstruction)]
+      : []),
+    ...transferInstructions
+  ];
+
+  return { instructions, lookupTables };
 }
 
-// This would be used in a real implementation to get the routes for a swap
+// Build a single versioned transaction that swaps the customer's token through Jupiter and
+// pays the merchant out of the swap proceeds. Jupiter's program enforces the quote's slippage
+// bounds, and the transfer fails if the swap under-delivers, so either both happen or neither.
+export async function createSwapAndPayTransaction(
+  quote: JupiterQuote,
+  outputToken: TokenInfo,
+  fromWallet: PublicKey,
+  toWallet: PublicKey,
+  reference?: PublicKey,
+  speed: SpeedTier = 'normal',
+  memo?: string,
+  splits: PaymentSplit[] = []
+): Promise<VersionedTransaction> {
+  const { instructions, lookupTables } = await createSwapAndPayInstructions(
+    quote,
+    outputToken,
+    fromWallet,
+    toWallet,
+    reference,
+    memo,
+    splits
+  );
+
+  // Jupiter's own compute budget only covers the swap, so size one for the whole transaction
+  const [computeBudget, { blockhash }] = await Promise.all([
+    createComputeBudgetInstructions(instructions, fromWallet, speed, lookupTables),
+    connection.getLatestBlockhash('confirmed')
+  ]);
+
+  const message = new TransactionMessage({
+    payerKey: fromWallet,
+    recentBlockhash: blockhash,
+    instructions: [...computeBudget, ...instructions]
+  }).compileToV0Message(lookupTables);
+
+  return new VersionedTransaction(message);
+}
+
+// Platform fees are charged in the output token for ExactIn and the input token for ExactOut
+export function getPlatformFee(quote: QuoteResponse, inputToken: TokenInfo, outputToken: TokenInfo): number {
+  if (!quote.platformFee?.amount) return 0;
+  const feeToken = quote.swapMode === 'ExactOut' ? inputToken : outputToken;
+  return fromBaseUnits(quote.platformFee.amount, feeToken.decimals);
+}
+
+export function toSwapResult(
+  quote: JupiterQuote,
+  inputToken: TokenInfo,
+  outputToken: TokenInfo,
+  txSignature: string
+): SwapResult {
+  return {
+    inputAmount: fromBaseUnits(quote.inAmount, inputToken.decimals),
+    outputAmount: fromBaseUnits(getGuaranteedOutAmount(quote), outputToken.decimals),
+    inputToken: inputToken.symbol,
+    outputToken: outputToken.symbol,
+    txSignature,
+    fee: getPlatformFee(quote, inputToken, outputToken),
+    feeMint: quote.swapMode === 'ExactOut' ? inputToken.mint : outputToken.mint,
+    inputMint: inputToken.mint
+  };
+}
+
+// Jupiter v6 returns the single best route; its plan lists every hop
 export async function getRoutes(
   inputMint: string,
   outputMint: string,
   amount: number,
-  slippageBps: number = 50
-) {
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<RoutePlanStep[]> {
   try {
-    // In a real implementation, this would call Jupiter's API
-    // Example of how the actual API call would look:
-    /*
-    const response = await fetch(
-      `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amount}&slippageBps=${slippageBps}`
-    );
-    const data = await response.json();
-    return data;
-    */
-    
-    // For demo purposes, we'll simulate the response
-    return {
-      routes: [
-        {
-          inAmount: amount,
-          outAmount: amount * getMockExchangeRate(
-            Object.values(TOKENS).find(t => t.mint === inputMint)?.symbol || '',
-            Object.values(TOKENS).find(t => t.mint === outputMint)?.symbol || ''
-          ),
-          amount: amount,
-          slippageBps: slippageBps,
-          marketInfos: [
-            {
-              id: "JUP" + Math.random().toString(36).substring(2, 10),
-              label: "Jupiter Aggregator",
-              inputMint: inputMint,
-              outputMint: outputMint,
-              notEnoughLiquidity: false,
-              inAmount: amount,
-              outAmount: amount * getMockExchangeRate(
-                Object.values(TOKENS).find(t => t.mint === inputMint)?.symbol || '',
-                Object.values(TOKENS).find(t => t.mint === outputMint)?.symbol || ''
-              ),
-              priceImpactPct: 0.1,
-              lpFee: {
-                amount: amount * 0.003,
-                mint: inputMint,
-                pct: 0.3
-              }
-            }
-          ]
-        }
-      ]
-    };
+    const quote = await jupiterClient.api.quoteGet({
+      inputMint,
+      outputMint,
+      amount,
+      slippageBps
+    });
+    return quote.routePlan;
   } catch (error) {
     console.error("Error fetching routes:", error);
     throw new Error("Failed to fetch routes");
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+import { Merchant } from '../types';
+import { createId } from './ids';
+import { StorageAdapter } from './storage';
+import { DEFAULT_SLIPPAGE_BPS } from './jupiter';
+import { validateSplits } from './splits';
+import { isValidPublicKey } from './solana';
+
+const MERCHANTS_KEY = 'merchants';
+// Beyond this a swap is more likely a bad route than a market move
+export const MAX_SLIPPAGE_BPS = 1000;
+
+export type MerchantInput = Omit<Merchant, 'id' | 'createdAt'>;
+
+export interface MerchantRegistry {
+  list(): Promise<Merchant[]>;
+  get(id: string): Promise<Merchant | null>;
+  create(input: MerchantInput): Promise<Merchant>;
+  update(id: string, changes: Partial<MerchantInput>): Promise<Merchant>;
+  remove(id: string): Promise<void>;
+}
+
+// Returns a list of problems with the merchant; an empty list means it can be saved
+export function validateMerchant(input: MerchantInput): string[] {
+  const errors: string[] = [];
+  if (!input.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!isValidPublicKey(input.walletAddress)) {
+    errors.push('Merchant wallet is not a valid Solana address');
+  }
+  if (input.settlementWallet && !isValidPublicKey(input.settlementWallet)) {
+    errors.push('Settlement wallet is not a valid Solana address');
+  }
+  if (!isValidPublicKey(input.preferredToken)) {
+    errors.push('Preferred token is not a valid mint');
+  }
+  if (!(input.maxSlippageBps >= 0 && input.maxSlippageBps <= MAX_SLIPPAGE_BPS)) {
+    errors.push(`Max slippage must be between 0 and ${MAX_SLIPPAGE_BPS / 100}%`);
+  }
+  if (input.splits) {
+    errors.push(...validateSplits(input.splits, input.settlementWallet || input.walletAddress));
+  }
+  if (input.webhookUrl) {
+    if (!/^https?:\/\//.test(input.webhookUrl)) {
+      errors.push('Webhook URL must start with http:// or https://');
+    }
+    if (!input.webhookSecret) {
+      errors.push('Webhook secret is required to sign deliveries');
+    }
+  }
+  return errors;
+}
+
+// 32 random bytes, hex encoded
+export function createWebhookSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getSettlementWallet(merchant: Merchant): string {
+  return merchant.settlementWallet || merchant.walletAddress;
+}
+
+// `defaults` stand in until the first merchant is saved, so a fresh install has a storefront
+export function createMerchantRegistry(storage: StorageAdapter, defaults: Merchant[] = []): MerchantRegistry {
+  const load = async () => (await storage.getItem<Merchant[]>(MERCHANTS_KEY)) || defaults;
+  const persist = (merchants: Merchant[]) => storage.setItem(MERCHANTS_KEY, merchants);
+
+  const assertValid = (input: MerchantInput) => {
+    const errors = validateMerchant(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid merchant: ${errors.join('; ')}`);
+    }
+  };
+
+  return {
+    list: load,
+
+    async get(id) {
+      return (await load()).find(merchant => merchant.id === id) || null;
+    },
+
+    async create(input) {
+      assertValid(input);
+      const merchant: Merchant = { ...input, id: createId('merchant'), createdAt: Date.now() };
+      await persist([...await load(), merchant]);
+      return merchant;
+    },
+
+    async update(id, changes) {
+      const merchants = await load();
+      const existing = merchants.find(merchant => merchant.id === id);
+      if (!existing) {
+        throw new Error(`Merchant not found: ${id}`);
+      }
+      const updated: Merchant = { ...existing, ...changes, id, createdAt: existing.createdAt };
+      assertValid(updated);
+      await persist(merchants.map(merchant => (merchant.id === id ? updated : merchant)));
+      return updated;
+    },
+
+    async remove(id) {
+      await persist((await load()).filter(merchant => merchant.id !== id));
+    }
+  };
+}
+
+export function createDefaultMerchantInput(preferredToken: string): MerchantInput {
+  return {
+    name: '',
+    walletAddress: '',
+    preferredToken,
+    maxSlippageBps: DEFAULT_SLIPPAGE_BPS
+  };
+}
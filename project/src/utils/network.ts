@@ -0,0 +1,72 @@
+export type Cluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export interface NetworkConfig {
+  cluster: Cluster;
+  // Custom RPC endpoints override the cluster's public ones
+  rpcUrl: string;
+  wsUrl?: string;
+}
+
+export const CLUSTERS: Cluster[] = ['mainnet-beta', 'devnet', 'testnet', 'localnet'];
+
+export const DEFAULT_RPC_URLS: Record<Cluster, string> = {
+  'mainnet-beta': 'https://api.mainnet-beta.solana.com',
+  devnet: 'https://api.devnet.solana.com',
+  testnet: 'https://api.testnet.solana.com',
+  localnet: 'http://127.0.0.1:8899' // solana-test-validator
+};
+
+const STORAGE_KEY = 'solana-payment-gateway:network';
+
+function isCluster(value: unknown): value is Cluster {
+  return typeof value === 'string' && (CLUSTERS as string[]).includes(value);
+}
+
+// The build-time default, set through VITE_SOLANA_* variables in .env
+export function getEnvNetworkConfig(): NetworkConfig {
+  const env = import.meta.env;
+  const cluster = isCluster(env.VITE_SOLANA_CLUSTER) ? env.VITE_SOLANA_CLUSTER : 'mainnet-beta';
+
+  return {
+    cluster,
+    rpcUrl: env.VITE_SOLANA_RPC_URL || DEFAULT_RPC_URLS[cluster],
+    wsUrl: env.VITE_SOLANA_WS_URL || undefined
+  };
+}
+
+// A network picked in the runtime switcher wins over the build-time default
+export function loadNetworkConfig(): NetworkConfig {
+  // Outside the browser (the API server) there is no switcher to have picked one
+  if (typeof localStorage === 'undefined') return getEnvNetworkConfig();
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const config = JSON.parse(stored);
+      if (isCluster(config.cluster) && typeof config.rpcUrl === 'string') {
+        return config;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading network config:', error);
+  }
+  return getEnvNetworkConfig();
+}
+
+export function saveNetworkConfig(config: NetworkConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+export function clearNetworkConfig() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function getExplorerTxUrl(signature: string, config: NetworkConfig): string {
+  const url = new URL(`https://explorer.solana.com/tx/${signature}`);
+  if (config.cluster === 'localnet') {
+    url.searchParams.set('cluster', 'custom');
+    url.searchParams.set('customUrl', config.rpcUrl);
+  } else if (config.cluster !== 'mainnet-beta') {
+    url.searchParams.set('cluster', config.cluster);
+  }
+  return url.toString();
+}
@@ -0,0 +1,125 @@
+import { Payment } from '../types';
+import { StorageAdapter } from './storage';
+
+export interface PaymentQuery {
+  merchantId?: string;
+  status?: Payment['status'];
+  token?: string;
+  // Inclusive bounds on `timestamp`
+  from?: number;
+  to?: number;
+  // Results are newest first; skip `offset` of them and return at most `limit`
+  offset?: number;
+  limit?: number;
+}
+
+export interface PaymentPage {
+  payments: Payment[];
+  // Every payment matching the query, ignoring `offset` and `limit`
+  total: number;
+}
+
+export interface PaymentRepository {
+  // Inserts the payment, or replaces the stored payment with the same id
+  save(payment: Payment): Promise<Payment>;
+  get(id: string): Promise<Payment | null>;
+  query(query?: PaymentQuery): Promise<PaymentPage>;
+  // Called after every save; returns an unsubscribe function
+  subscribe(listener: (payment: Payment) => void): () => void;
+}
+
+export function matchesPaymentQuery(payment: Payment, query: PaymentQuery): boolean {
+  if (query.merchantId !== undefined && payment.merchantId !== query.merchantId) return false;
+  if (query.status !== undefined && payment.status !== query.status) return false;
+  if (query.token !== undefined && payment.token !== query.token) return false;
+  if (query.from !== undefined && payment.timestamp < query.from) return false;
+  if (query.to !== undefined && payment.timestamp > query.to) return false;
+  return true;
+}
+
+export function paginate(payments: Payment[], { offset = 0, limit }: PaymentQuery): PaymentPage {
+  const end = limit === undefined ? undefined : offset + limit;
+  return { payments: payments.slice(offset, end), total: payments.length };
+}
+
+// Keeps listeners for a repository implementation and notifies them after each save
+export function createPaymentListeners() {
+  const listeners = new Set<(payment: Payment) => void>();
+
+  return {
+    notify(payment: Payment) {
+      listeners.forEach(listener => listener(payment));
+    },
+    subscribe(listener: (payment: Payment) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+// Nothing survives a reload; used when IndexedDB is unavailable and in tests
+export function createInMemoryPaymentRepository(initialPayments: Payment[] = []): PaymentRepository {
+  const payments = new Map(initialPayments.map(payment => [payment.id, payment]));
+  const listeners = createPaymentListeners();
+
+  return {
+    async save(payment) {
+      payments.set(payment.id, payment);
+      listeners.notify(payment);
+      return payment;
+    },
+
+    async get(id) {
+      return payments.get(id) || null;
+    },
+
+    async query(query = {}) {
+      const matches = Array.from(payments.values())
+        .filter(payment => matchesPaymentQuery(payment, query))
+        .sort((a, b) => b.timestamp - a.timestamp);
+      return paginate(matches, query);
+    },
+
+    subscribe: listeners.subscribe
+  };
+}
+
+const PAYMENTS_KEY = 'payments';
+
+// Keeps every payment under one storage key; fine for the API server's file storage at
+// modest volumes, where IndexedDB isn't available
+export function createStoragePaymentRepository(storage: StorageAdapter): PaymentRepository {
+  const listeners = createPaymentListeners();
+  // Saves are read-modify-write, so run them one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async () => (await storage.getItem<Payment[]>(PAYMENTS_KEY)) || [];
+
+  return {
+    save(payment) {
+      const saved = pending.then(async () => {
+        const payments = (await load()).filter(other => other.id !== payment.id);
+        await storage.setItem(PAYMENTS_KEY, [...payments, payment]);
+        listeners.notify(payment);
+        return payment;
+      });
+      pending = saved.catch(() => undefined);
+      return saved;
+    },
+
+    async get(id) {
+      return (await load()).find(payment => payment.id === id) || null;
+    },
+
+    async query(query = {}) {
+      const matches = (await load())
+        .filter(payment => matchesPaymentQuery(payment, query))
+        .sort((a, b) => b.timestamp - a.timestamp);
+      return paginate(matches, query);
+    },
+
+    subscribe: listeners.subscribe
+  };
+}
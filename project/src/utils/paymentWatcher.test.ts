@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConfirmedSignatureInfo, Keypair, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { Payment } from '../types';
+import { TOKENS, connection } from './solana';
+import { findReferenceSignature, getTransferMismatch, watchPayment } from './paymentWatcher';
+
+const reference = Keypair.generate().publicKey.toBase58();
+const gateway = Keypair.generate().publicKey;
+const stranger = Keypair.generate().publicKey;
+
+// Newest first, as the RPC returns them
+function mockSignatures(signatures: Partial<ConfirmedSignatureInfo>[]) {
+  vi.spyOn(connection, 'getSignaturesForAddress')
+    .mockResolvedValue(signatures.map(info => ({ err: null, ...info }) as ConfirmedSignatureInfo));
+}
+
+function mockFeePayers(payers: Record<string, typeof gateway | null>) {
+  vi.spyOn(connection, 'getTransaction').mockImplementation(async signature => {
+    const payer = payers[signature as string];
+    return payer
+      ? { transaction: { message: { staticAccountKeys: [payer] } } } as unknown as VersionedTransactionResponse
+      : null;
+  });
+}
+
+describe('findReferenceSignature', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('finds the oldest transaction that succeeded', async () => {
+    mockSignatures([{ signature: 'newer' }, { signature: 'older' }]);
+    expect(await findReferenceSignature(reference)).toBe('older');
+  });
+
+  it('ignores transactions that failed on chain', async () => {
+    mockSignatures([{ signature: 'failed', err: { InstructionError: [0, 'Custom'] } }]);
+    expect(await findReferenceSignature(reference)).toBeNull();
+  });
+
+  it('finds a retry that landed after an earlier attempt failed on chain', async () => {
+    mockSignatures([{ signature: 'retry' }, { signature: 'failed', err: { InstructionError: [2, 'Custom'] } }]);
+    mockFeePayers({ retry: gateway });
+    expect(await findReferenceSignature(reference, gateway.toBase58())).toBe('retry');
+  });
+
+  it('ignores transactions another wallet paid for', async () => {
+    mockSignatures([{ signature: 'ours' }, { signature: 'dust' }]);
+    mockFeePayers({ dust: stranger, ours: gateway });
+    expect(await findReferenceSignature(reference, gateway.toBase58())).toBe('ours');
+
+    mockSignatures([{ signature: 'dust' }]);
+    expect(await findReferenceSignature(reference, gateway.toBase58())).toBeNull();
+  });
+
+  it('asks again later when a found transaction cannot be read yet', async () => {
+    mockSignatures([{ signature: 'lagging' }]);
+    mockFeePayers({});
+    await expect(findReferenceSignature(reference, gateway.toBase58())).rejects.toThrow('not available yet');
+  });
+});
+
+const merchant = Keypair.generate().publicKey;
+const affiliate = Keypair.generate().publicKey;
+
+function createPayment(changes: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay_1',
+    amount: 1,
+    token: TOKENS.SOL.mint,
+    status: 'pending',
+    timestamp: 0,
+    merchantId: 'merchant',
+    reference,
+    ...changes
+  };
+}
+
+// A SOL transfer from `payer` that moves `gains` lamports into each listed wallet
+function createTransfer(
+  payer: PublicKey,
+  gains: [PublicKey, number][],
+  changes: { err?: unknown; withReference?: boolean } = {}
+): VersionedTransactionResponse {
+  const keys = [payer, ...gains.map(([wallet]) => wallet)];
+  if (changes.withReference !== false) keys.push(new PublicKey(reference));
+  const preBalances = keys.map(() => 10_000_000_000);
+  const postBalances = keys.map(
+    (key, index) => preBalances[index] + (gains.find(([wallet]) => wallet === key)?.[1] || 0)
+  );
+  return {
+    blockTime: 1700000000,
+    meta: { err: changes.err ?? null, fee: 5000, preBalances, postBalances },
+    transaction: {
+      message: {
+        staticAccountKeys: keys,
+        getAccountKeys: () => ({ keySegments: () => [keys] })
+      }
+    }
+  } as unknown as VersionedTransactionResponse;
+}
+
+describe('getTransferMismatch', () => {
+  const recipient = merchant.toBase58();
+
+  it('accepts a transfer of the whole amount', () => {
+    expect(getTransferMismatch(createTransfer(stranger, [[merchant, 1_000_000_000]]), createPayment(), recipient))
+      .toBeNull();
+  });
+
+  it('rejects a transfer that failed on chain', () => {
+    const transaction = createTransfer(stranger, [[merchant, 1_000_000_000]], {
+      err: { InstructionError: [0, 'Custom'] }
+    });
+    expect(getTransferMismatch(transaction, createPayment(), recipient)).toMatch('Transaction failed on chain');
+  });
+
+  it('rejects a transaction without the reference', () => {
+    const transaction = createTransfer(stranger, [[merchant, 1_000_000_000]], { withReference: false });
+    expect(getTransferMismatch(transaction, createPayment(), recipient))
+      .toBe('Transaction does not include the payment reference');
+  });
+
+  it('rejects short payments unless partial payments are allowed', () => {
+    const transaction = createTransfer(stranger, [[merchant, 400_000_000]]);
+    expect(getTransferMismatch(transaction, createPayment(), recipient))
+      .toBe('Recipient received less than the payment amount');
+    expect(getTransferMismatch(transaction, createPayment(), recipient, true)).toBeNull();
+  });
+
+  it('rejects transfers that pay the recipient nothing', () => {
+    expect(getTransferMismatch(createTransfer(stranger, [[merchant, 0]]), createPayment(), recipient, true))
+      .toBe('Recipient did not receive the payment token');
+    expect(getTransferMismatch(createTransfer(stranger, [[affiliate, 1]]), createPayment(), recipient))
+      .toBe('Recipient is not part of the transaction');
+  });
+
+  it('expects the merchant share and every whole cut when the payment is split', () => {
+    const payment = createPayment({
+      splits: [{ wallet: affiliate.toBase58(), role: 'affiliate', bps: 1000, amount: 0.1 }]
+    });
+    const check = (merchantGain: number, affiliateGain: number) => {
+      const transaction = createTransfer(stranger, [[merchant, merchantGain], [affiliate, affiliateGain]]);
+      return getTransferMismatch(transaction, payment, recipient);
+    };
+
+    expect(check(900_000_000, 100_000_000)).toBeNull();
+    expect(check(900_000_000, 99_999_999)).toBe(`Split recipient ${affiliate.toBase58()} received less than its cut`);
+    expect(check(899_999_999, 100_000_001)).toBe('Recipient received less than the payment amount');
+  });
+});
+
+describe('watchPayment', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockTransactions(transactions: Record<string, VersionedTransactionResponse | null>) {
+    vi.spyOn(connection, 'getTransaction')
+      .mockImplementation(async signature => transactions[signature as string] ?? null);
+  }
+
+  it('skips a dust transfer carrying the reference and completes with the real payment', async () => {
+    mockSignatures([{ signature: 'payment' }, { signature: 'dust' }]);
+    mockTransactions({
+      dust: createTransfer(stranger, [[merchant, 1]]),
+      payment: createTransfer(gateway, [[merchant, 1_000_000_000]])
+    });
+
+    const settled = await watchPayment(createPayment(), { recipient: merchant.toBase58(), recordPayer: true });
+
+    expect(settled.status).toBe('completed');
+    expect(settled.txSignature).toBe('payment');
+    expect(settled.customerWallet).toBe(gateway.toBase58());
+  });
+
+  it('keeps watching past a mismatch and reports it at the deadline', async () => {
+    mockSignatures([{ signature: 'dust' }]);
+    mockTransactions({ dust: createTransfer(stranger, [[merchant, 1]]) });
+    const statuses: Payment['status'][] = [];
+
+    const settled = await watchPayment(createPayment(), {
+      recipient: merchant.toBase58(),
+      timeoutMs: 30,
+      pollIntervalMs: 10,
+      onStatusChange: update => statuses.push(update.status)
+    });
+
+    expect(statuses).toEqual(['failed']);
+    expect(settled.failureReason).toBe('Recipient received less than the payment amount');
+    expect(vi.mocked(connection.getSignaturesForAddress).mock.calls.length).toBeGreaterThan(1);
+    // A transaction already judged is not fetched again
+    expect(connection.getTransaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,293 @@
+import { LAMPORTS_PER_SOL, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { Payment } from '../types';
+import { TOKENS, connection, fromBaseUnits, toBaseUnits } from './solana';
+import { getTokenByMint } from './tokenRegistry';
+import { getMerchantShare } from './splits';
+
+export const DEFAULT_WATCH_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+// More transactions than this on one reference are spam, not payments
+const REFERENCE_SIGNATURE_LIMIT = 1000;
+
+export interface WatchPaymentOptions {
+  // Merchant wallet that must receive the funds
+  recipient: string;
+  // When the payment's transaction was built by us, it can never land after this height
+  lastValidBlockHeight?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+  // Accept less than `payment.amount`; the received amount is recorded either way
+  allowPartial?: boolean;
+  // Record the transaction's fee payer as the customer wallet, whoever the payment named
+  // before. Off when someone else pays the fee, e.g. a delegate pulling a subscription charge.
+  recordPayer?: boolean;
+  onStatusChange?: (payment: Payment) => void;
+}
+
+// Payments move forward: pending → processing → completed/failed → refunded. A failed payment
+// can still complete, since its transaction may be found after the watch gave up on it.
+const ALLOWED_TRANSITIONS: Record<Payment['status'], Payment['status'][]> = {
+  pending: ['processing', 'failed'],
+  processing: ['completed', 'failed'],
+  completed: ['refunded'],
+  failed: ['processing', 'completed'],
+  refunded: []
+};
+
+export function canTransition(from: Payment['status'], to: Payment['status']): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export function transitionPayment(
+  payment: Payment,
+  status: Payment['status'],
+  changes: Partial<Payment> = {}
+): Payment {
+  if (!canTransition(payment.status, status)) {
+    throw new Error(`Invalid payment status transition: ${payment.status} → ${status}`);
+  }
+  return { ...payment, ...changes, status };
+}
+
+type TransferCheck =
+  | { error: string }
+  // `received` is the recipient's gain and `paidOut` what split recipients got on top
+  | { received: bigint; paidOut: bigint; expected: bigint; decimals: number };
+
+// What `wallet` gained in `mint`, or null when the transaction doesn't touch its balance
+function getReceived(
+  meta: NonNullable<VersionedTransactionResponse['meta']>,
+  keys: string[],
+  mint: string,
+  wallet: string
+): bigint | null {
+  if (mint === TOKENS.SOL.mint) {
+    const index = keys.indexOf(wallet);
+    if (index === -1) return null;
+    return BigInt(meta.postBalances[index]) - BigInt(meta.preBalances[index]);
+  }
+  // Token balances carry owner and mint, so the wallet's ATA need not be derived
+  const matches = (balance: { owner?: string; mint: string }) => balance.owner === wallet && balance.mint === mint;
+  const pre = meta.preTokenBalances?.find(matches);
+  const post = meta.postTokenBalances?.find(matches);
+  if (!post) return null;
+  return BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount || 0);
+}
+
+// Measure what `recipient` gained in the payment's token, or explain why it can't be trusted
+function checkTransfer(
+  transaction: VersionedTransactionResponse,
+  payment: Payment,
+  recipient: string
+): TransferCheck {
+  const { meta } = transaction;
+  if (!meta) return { error: 'Transaction metadata is unavailable' };
+  if (meta.err) return { error: `Transaction failed on chain: ${JSON.stringify(meta.err)}` };
+
+  const accountKeys = transaction.transaction.message.getAccountKeys({
+    accountKeysFromLookups: meta.loadedAddresses
+  });
+  const keys = accountKeys.keySegments().flat().map(key => key.toBase58());
+
+  if (payment.reference && !keys.includes(payment.reference)) {
+    return { error: 'Transaction does not include the payment reference' };
+  }
+
+  const tokenInfo = getTokenByMint(payment.token);
+  if (!tokenInfo) return { error: `Unsupported token mint: ${payment.token}` };
+
+  const received = getReceived(meta, keys, payment.token, recipient);
+  if (received === null) {
+    return {
+      error: payment.token === TOKENS.SOL.mint
+        ? 'Recipient is not part of the transaction'
+        : 'Recipient did not receive the payment token'
+    };
+  }
+
+  // Split recipients are paid by the same transaction, and each must get its whole cut
+  let paidOut = BigInt(0);
+  for (const split of payment.splits || []) {
+    const cut = getReceived(meta, keys, payment.token, split.wallet) ?? BigInt(0);
+    if (cut < BigInt(toBaseUnits(split.amount, tokenInfo.decimals))) {
+      return { error: `Split recipient ${split.wallet} received less than its cut` };
+    }
+    paidOut += cut;
+  }
+
+  return {
+    received,
+    paidOut,
+    expected: getMerchantShare(payment.amount, tokenInfo.decimals, payment.splits),
+    decimals: tokenInfo.decimals
+  };
+}
+
+// Returns why the transaction does not pay `payment` to `recipient`, or null if it does.
+// With `allowPartial`, any positive amount counts, as invoices can be paid in instalments.
+export function getTransferMismatch(
+  transaction: VersionedTransactionResponse,
+  payment: Payment,
+  recipient: string,
+  allowPartial = false
+): string | null {
+  const check = checkTransfer(transaction, payment, recipient);
+  if ('error' in check) return check.error;
+
+  if (check.received <= BigInt(0)) {
+    return 'Recipient did not receive the payment token';
+  }
+  if (!allowPartial && check.received < check.expected) {
+    return 'Recipient received less than the payment amount';
+  }
+
+  return null;
+}
+
+// Confirmed transactions carrying `reference` that the runtime accepted, oldest first. One that
+// failed on chain moved nothing, so it says nothing about the payment.
+export async function findReferenceSignatures(reference: string): Promise<string[]> {
+  const signatures = await connection.getSignaturesForAddress(
+    new PublicKey(reference),
+    { limit: REFERENCE_SIGNATURE_LIMIT },
+    'confirmed'
+  );
+  return signatures.filter(info => !info.err).map(info => info.signature).reverse();
+}
+
+// The first successful transaction carrying `reference`, if one has landed yet. The reference
+// is public, so with `payer` only a transaction that wallet paid the fee for counts, and nobody
+// else's can pass for one the gateway sent.
+export async function findReferenceSignature(reference: string, payer?: string): Promise<string | null> {
+  for (const signature of await findReferenceSignatures(reference)) {
+    if (!payer) return signature;
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      // Skipping it could send the same transfer twice, so the caller has to ask again later
+      throw new Error(`Transaction ${signature} is not available yet`);
+    }
+    if (transaction.transaction.message.staticAccountKeys[0].toBase58() === payer) {
+      return signature;
+    }
+  }
+  return null;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Payment watch aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Poll the chain for the payment's reference key until a transaction carrying it pays the
+// payment, the blockhash it was built with expires, or the timeout elapses. The reference is
+// public, so anyone can send a transaction carrying it; ones that don't pay are skipped rather
+// than failing the payment. Resolves with the payment in its final state (completed or
+// failed); only rejects when aborted.
+export async function watchPayment(payment: Payment, options: WatchPaymentOptions): Promise<Payment> {
+  const {
+    recipient,
+    lastValidBlockHeight,
+    timeoutMs = DEFAULT_WATCH_TIMEOUT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    signal,
+    allowPartial = false,
+    recordPayer = false,
+    onStatusChange
+  } = options;
+
+  const { reference } = payment;
+  if (!reference) {
+    throw new Error('Payment has no reference to watch');
+  }
+
+  let current = payment;
+  const update = (status: Payment['status'], changes: Partial<Payment> = {}) => {
+    current = transitionPayment(current, status, changes);
+    onStatusChange?.(current);
+    return current;
+  };
+
+  const deadline = Date.now() + timeoutMs;
+  // Transactions that were read and don't pay, with why; the last reason is reported if
+  // nothing better turns up
+  const rejected = new Set<string>();
+  let lastMismatch: string | null = null;
+
+  for (;;) {
+    if (signal?.aborted) throw new Error('Payment watch aborted');
+
+    // A transaction carrying the reference was seen but couldn't be read yet
+    let unread = false;
+    try {
+      for (const signature of await findReferenceSignatures(reference)) {
+        if (rejected.has(signature)) continue;
+
+        // The node that found the reference may be ahead of the one serving the transaction,
+        // so it's asked again on the next poll
+        const transaction = await connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        });
+        if (!transaction) {
+          unread = true;
+          continue;
+        }
+
+        let mismatch: string | null;
+        try {
+          mismatch = getTransferMismatch(transaction, current, recipient, allowPartial);
+        } catch (error) {
+          console.error('Error validating payment transaction:', error);
+          mismatch = 'Failed to validate payment transaction';
+        }
+        if (mismatch) {
+          rejected.add(signature);
+          lastMismatch = mismatch;
+          continue;
+        }
+
+        update('processing', { txSignature: signature });
+        const check = checkTransfer(transaction, current, recipient);
+        return update('completed', {
+          timestamp: (transaction.blockTime ?? 0) * 1000 || current.timestamp,
+          receivedAmount: 'error' in check ? undefined : fromBaseUnits(check.received + check.paidOut, check.decimals),
+          networkFee: transaction.meta ? transaction.meta.fee / LAMPORTS_PER_SOL : undefined,
+          ...(recordPayer && { customerWallet: transaction.transaction.message.staticAccountKeys[0].toBase58() })
+        });
+      }
+    } catch (error) {
+      // RPC hiccups are retried until the deadline
+      console.error('Error looking up payment reference:', error);
+    }
+
+    // A transaction that can't be read yet may still be the payment, so it holds off expiry
+    if (lastValidBlockHeight !== undefined && !unread) {
+      const blockHeight = await connection.getBlockHeight('confirmed').catch(() => 0);
+      if (blockHeight > lastValidBlockHeight) {
+        return update('failed', {
+          failureReason: lastMismatch || 'Transaction expired before it was confirmed'
+        });
+      }
+    }
+
+    if (Date.now() >= deadline) {
+      return update('failed', {
+        failureReason: lastMismatch || (unread ? 'Transaction not found' : 'Timed out waiting for the payment')
+      });
+    }
+
+    await wait(pollIntervalMs, signal);
+  }
+}
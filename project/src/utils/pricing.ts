@@ -0,0 +1,115 @@
+import BigNumber from 'bignumber.js';
+import { Payment, TokenInfo } from '../types';
+import { TOKENS_BY_CLUSTER, getNetwork } from './solana';
+import { resolveToken } from './tokenRegistry';
+
+// Jupiter prices every mainnet token in USDC, which we treat as USD
+export const JUPITER_PRICE_API_URL = 'https://api.jup.ag/price/v2';
+// Any endpoint returning `{ rates: { EUR: 0.92, ... } }` against USD works
+export const FX_RATES_URL = import.meta.env.VITE_FX_RATES_URL || 'https://open.er-api.com/v6/latest/USD';
+const FX_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY'];
+
+interface JupiterPriceResponse {
+  data: Record<string, { id: string; price: string } | null>;
+}
+
+interface FxRatesResponse {
+  rates: Record<string, number>;
+}
+
+let fxRates: { fetchedAt: number; rates: Record<string, number> } | null = null;
+
+// Test clusters use their own mints, so price the built-in tokens by their mainnet twin
+function getPricingMint(token: TokenInfo): string {
+  const { cluster } = getNetwork();
+  if (cluster === 'mainnet-beta') return token.mint;
+  return TOKENS_BY_CLUSTER['mainnet-beta'][token.symbol]?.mint || token.mint;
+}
+
+export async function getUsdPrice(token: TokenInfo): Promise<number> {
+  const mint = getPricingMint(token);
+  try {
+    const response = await fetch(`${JUPITER_PRICE_API_URL}?ids=${mint}`);
+    if (!response.ok) {
+      throw new Error(`Price request failed with status ${response.status}`);
+    }
+    const { data }: JupiterPriceResponse = await response.json();
+    const price = Number(data[mint]?.price);
+    if (!price) {
+      throw new Error(`No price available for ${token.symbol}`);
+    }
+    return price;
+  } catch (error) {
+    console.error('Error fetching token price:', error);
+    throw new Error(`Failed to get a price for ${token.symbol}`);
+  }
+}
+
+// Units of `currency` per US dollar
+export async function getFiatRate(currency: string): Promise<number> {
+  if (currency === 'USD') return 1;
+
+  try {
+    if (!fxRates || Date.now() - fxRates.fetchedAt > FX_CACHE_TTL_MS) {
+      const response = await fetch(FX_RATES_URL);
+      if (!response.ok) {
+        throw new Error(`FX rate request failed with status ${response.status}`);
+      }
+      const { rates }: FxRatesResponse = await response.json();
+      fxRates = { fetchedAt: Date.now(), rates };
+    }
+
+    const rate = fxRates.rates[currency];
+    if (!rate) {
+      throw new Error(`No exchange rate for ${currency}`);
+    }
+    return rate;
+  } catch (error) {
+    console.error('Error fetching exchange rate:', error);
+    throw new Error(`Failed to get an exchange rate for ${currency}`);
+  }
+}
+
+// Price of one whole token in `currency`
+export async function getTokenRate(token: TokenInfo, currency: string): Promise<number> {
+  const [usdPrice, fiatRate] = await Promise.all([getUsdPrice(token), getFiatRate(currency)]);
+  return usdPrice * fiatRate;
+}
+
+// Record what a payment was worth when it was made. Invoice payments are already valued at
+// their locked rate and are left alone.
+export async function valuePayment(payment: Payment, currency = 'USD'): Promise<Payment> {
+  if (payment.fiatAmount !== undefined) return payment;
+
+  const token = await resolveToken(payment.token);
+  const rate = await getTokenRate(token, currency);
+  return {
+    ...payment,
+    fiatAmount: roundMoney((payment.receivedAmount ?? payment.amount) * rate, currency),
+    fiatCurrency: currency
+  };
+}
+
+// Token amount worth `fiatAmount` at `rate`, rounded up so the merchant is never short
+export function fiatToTokenAmount(fiatAmount: number, rate: number, token: TokenInfo): number {
+  return new BigNumber(fiatAmount)
+    .dividedBy(rate)
+    .decimalPlaces(token.decimals, BigNumber.ROUND_UP)
+    .toNumber();
+}
+
+export function getCurrencyDecimals(currency: string): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Round to the currency's minor unit (cents, or whole yen)
+export function roundMoney(amount: number, currency: string): number {
+  return new BigNumber(amount).decimalPlaces(getCurrencyDecimals(currency), BigNumber.ROUND_HALF_UP).toNumber();
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
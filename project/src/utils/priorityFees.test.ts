@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Keypair, LAMPORTS_PER_SOL, SystemProgram } from '@solana/web3.js';
+import { connection } from './solana';
+import { estimateNetworkFees, getNetworkFee, getSignerCount } from './priorityFees';
+
+const payer = Keypair.generate().publicKey;
+const holder = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+
+describe('network fees', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('charges the base fee per signature on top of the priority fee', () => {
+    expect(getNetworkFee({ units: 200_000, microLamports: 0 })).toBe(5000 / LAMPORTS_PER_SOL);
+    expect(getNetworkFee({ units: 200_000, microLamports: 1_000 }, 2)).toBe(10_200 / LAMPORTS_PER_SOL);
+  });
+
+  it('counts the fee payer and every other signer once', () => {
+    const transfer = SystemProgram.transfer({ fromPubkey: holder, toPubkey: recipient, lamports: 1 });
+
+    expect(getSignerCount([], payer)).toBe(1);
+    expect(getSignerCount([transfer, transfer], payer)).toBe(2);
+    expect(getSignerCount([transfer], holder)).toBe(1);
+  });
+
+  it('estimates a payout signed by its own wallet at two signatures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(connection, 'simulateTransaction').mockRejectedValue(new Error('offline'));
+    vi.spyOn(connection, 'getRecentPrioritizationFees').mockResolvedValue([]);
+    const transfer = SystemProgram.transfer({ fromPubkey: holder, toPubkey: recipient, lamports: 1 });
+
+    const estimates = await estimateNetworkFees([transfer], payer);
+    expect(estimates.normal.fee).toBe(10_000 / LAMPORTS_PER_SOL);
+  });
+});
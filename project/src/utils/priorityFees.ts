@@ -0,0 +1,176 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { connection } from './solana';
+
+export type SpeedTier = 'economy' | 'normal' | 'fast';
+
+export const SPEED_TIERS: SpeedTier[] = ['economy', 'normal', 'fast'];
+
+// Used when a transaction can't be simulated, e.g. before the customer has the funds
+export const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// Simulation runs against slightly different state than the real transaction will
+const COMPUTE_UNIT_MARGIN = 1.1;
+const COMPUTE_UNIT_HEADROOM = 1_000;
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5_000;
+// Keeps a fee spike on a hot account from costing the customer more than ~0.007 SOL
+const MAX_PRIORITY_FEE_MICRO_LAMPORTS = 5_000_000;
+
+// Percentile of recent fees paid on the same accounts that each tier bids
+const TIER_PERCENTILES: Record<SpeedTier, number> = {
+  economy: 25,
+  normal: 50,
+  fast: 90
+};
+
+export interface ComputeBudget {
+  units: number;
+  // Priority fee per compute unit
+  microLamports: number;
+}
+
+export interface NetworkFeeEstimate extends ComputeBudget {
+  tier: SpeedTier;
+  // Base fee plus priority fee, in SOL
+  fee: number;
+}
+
+function getPercentile(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((percentile / 100) * sorted.length))];
+}
+
+// Fees only compete with other transactions locking the same accounts, so those are what to sample
+export function getWritableAccounts(instructions: TransactionInstruction[], payer: PublicKey): PublicKey[] {
+  const accounts = new Map([[payer.toBase58(), payer]]);
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) accounts.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return Array.from(accounts.values());
+}
+
+// Every signature pays the base fee: the fee payer's and one per other signer, e.g. an escrow
+// wallet moving its funds
+export function getSignerCount(instructions: TransactionInstruction[], payer: PublicKey): number {
+  const signers = new Set([payer.toBase58()]);
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isSigner) signers.add(key.pubkey.toBase58());
+    }
+  }
+  return signers.size;
+}
+
+// Micro-lamports per compute unit each tier should bid, from the last 150 slots
+export async function getPriorityFeeLevels(writableAccounts: PublicKey[]): Promise<Record<SpeedTier, number>> {
+  try {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts.slice(0, 128)
+    });
+    const fees = recent.map(({ prioritizationFee }) => prioritizationFee);
+    const levels = {} as Record<SpeedTier, number>;
+    for (const tier of SPEED_TIERS) {
+      levels[tier] = Math.min(MAX_PRIORITY_FEE_MICRO_LAMPORTS, getPercentile(fees, TIER_PERCENTILES[tier]));
+    }
+    return levels;
+  } catch (error) {
+    console.error('Error fetching prioritization fees:', error);
+    throw new Error('Failed to estimate priority fees');
+  }
+}
+
+// Compute units the instructions use, from a simulation; null when the simulation fails
+export async function simulateComputeUnits(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<number | null> {
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      // Replaced by the RPC node, as is the missing signature
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+        ...instructions
+      ]
+    }).compileToV0Message(lookupTables);
+
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      commitment: 'confirmed',
+      replaceRecentBlockhash: true,
+      sigVerify: false
+    });
+    if (value.err || !value.unitsConsumed) {
+      console.error('Simulation failed:', value.err, value.logs);
+      return null;
+    }
+    return value.unitsConsumed;
+  } catch (error) {
+    console.error('Error simulating transaction:', error);
+    return null;
+  }
+}
+
+function toComputeUnitLimit(unitsConsumed: number | null): number {
+  if (unitsConsumed === null) return DEFAULT_COMPUTE_UNIT_LIMIT;
+  return Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN) + COMPUTE_UNIT_HEADROOM);
+}
+
+export function getNetworkFee({ units, microLamports }: ComputeBudget, signatures = 1): number {
+  const priorityLamports = Math.ceil((units * microLamports) / 1_000_000);
+  return (BASE_FEE_LAMPORTS_PER_SIGNATURE * signatures + priorityLamports) / LAMPORTS_PER_SOL;
+}
+
+// What the transaction would cost at every tier; one simulation and one fee lookup cover them all
+export async function estimateNetworkFees(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<Record<SpeedTier, NetworkFeeEstimate>> {
+  const [unitsConsumed, levels] = await Promise.all([
+    simulateComputeUnits(instructions, payer, lookupTables),
+    getPriorityFeeLevels(getWritableAccounts(instructions, payer))
+  ]);
+  const units = toComputeUnitLimit(unitsConsumed);
+  const signatures = getSignerCount(instructions, payer);
+
+  const estimates = {} as Record<SpeedTier, NetworkFeeEstimate>;
+  for (const tier of SPEED_TIERS) {
+    const budget = { units, microLamports: levels[tier] };
+    estimates[tier] = { ...budget, tier, fee: getNetworkFee(budget, signatures) };
+  }
+  return estimates;
+}
+
+// Size the compute budget for `instructions` and return it as the instructions that set it
+export async function createComputeBudgetInstructions(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  speed: SpeedTier,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<TransactionInstruction[]> {
+  let budget: ComputeBudget = { units: DEFAULT_COMPUTE_UNIT_LIMIT, microLamports: 0 };
+  try {
+    budget = (await estimateNetworkFees(instructions, payer, lookupTables))[speed];
+  } catch (error) {
+    // A payment shouldn't fail because fees couldn't be estimated; it just goes without a tip
+    console.error('Error sizing compute budget:', error);
+  }
+
+  const { units, microLamports } = budget;
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ...(microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : [])
+  ];
+}
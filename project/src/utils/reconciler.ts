@@ -0,0 +1,346 @@
+import { ConfirmedSignatureInfo, LAMPORTS_PER_SOL, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { Merchant, Payment, ReconciliationIssue, ReconciliationReport } from '../types';
+import { TOKENS, connection, fromBaseUnits, toBaseUnits } from './solana';
+import { getMintDetails } from './tokenProgram';
+import { getSettlementWallet } from './merchants';
+import { getMerchantShare, getSplitTotal } from './splits';
+import { PaymentRepository } from './paymentRepository';
+import { StorageAdapter } from './storage';
+import { createId } from './ids';
+
+export const DEFAULT_RECONCILE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SIGNATURE_PAGE_SIZE = 1000;
+const TRANSACTION_BATCH_SIZE = 50;
+const REPORT_KEY_PREFIX = 'reconciliation:';
+
+export interface ReconcileOptions {
+  // Only transactions and payments from this time on are compared
+  since?: number;
+  onProgress?: (progress: { signatures: number; transactions: number }) => void;
+}
+
+export interface Reconciler {
+  // Scan the merchant's settlement wallet, save recovered payments and store the report
+  run(merchant: Merchant, options?: ReconcileOptions): Promise<ReconciliationReport>;
+  getLastReport(merchantId: string): Promise<ReconciliationReport | null>;
+  // Record an unmatched deposit as a completed payment; returns the updated report
+  importDeposit(merchantId: string, issue: ReconciliationIssue): Promise<ReconciliationReport | null>;
+}
+
+interface IncomingTransfer {
+  mint: string;
+  amount: bigint;
+  decimals: number;
+}
+
+interface ScannedTransaction {
+  signature: string;
+  timestamp: number;
+  keys: string[];
+  // Fee payer, taken to be whoever sent the funds
+  sender: string;
+  networkFee: number;
+  transfers: IncomingTransfer[];
+}
+
+const isSettled = (payment: Payment) =>
+  payment.status === 'completed' || payment.status === 'refunded';
+
+// Escrowed funds only reach the settlement wallet once released, in a payout tagged with a
+// reference of its own
+const reachesWallet = (payment: Payment) => !payment.escrow || payment.escrow.status === 'released';
+const getSettlementReference = (payment: Payment) =>
+  payment.escrow ? payment.escrow.payout?.reference : payment.reference;
+
+// What `wallet` gained in each token, from the balance changes the RPC reports
+function getIncomingTransfers(
+  transaction: VersionedTransactionResponse,
+  keys: string[],
+  wallet: string
+): IncomingTransfer[] {
+  const { meta } = transaction;
+  if (!meta || meta.err) return [];
+
+  const transfers: IncomingTransfer[] = [];
+  const index = keys.indexOf(wallet);
+  if (index !== -1) {
+    const lamports = BigInt(meta.postBalances[index]) - BigInt(meta.preBalances[index]);
+    if (lamports > BigInt(0)) {
+      transfers.push({ mint: TOKENS.SOL.mint, amount: lamports, decimals: TOKENS.SOL.decimals });
+    }
+  }
+
+  // A wallet can hold a mint in more than one account, so sum them
+  const owned = (meta.postTokenBalances || []).filter(balance => balance.owner === wallet);
+  for (const mint of new Set(owned.map(balance => balance.mint))) {
+    const sum = (balances: typeof owned) => balances
+      .filter(balance => balance.owner === wallet && balance.mint === mint)
+      .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+    const amount = sum(owned) - sum(meta.preTokenBalances || []);
+    if (amount > BigInt(0)) {
+      const decimals = owned.find(balance => balance.mint === mint)?.uiTokenAmount.decimals ?? 0;
+      transfers.push({ mint, amount, decimals });
+    }
+  }
+
+  return transfers;
+}
+
+// Every address incoming funds can show up under: the wallet itself and its token accounts
+async function getWatchedAddresses(wallet: PublicKey, mints: string[]): Promise<PublicKey[]> {
+  const addresses = [wallet];
+  for (const mint of mints) {
+    if (mint === TOKENS.SOL.mint) continue;
+    try {
+      const { programId } = await getMintDetails(mint);
+      addresses.push(getAssociatedTokenAddressSync(new PublicKey(mint), wallet, true, programId));
+    } catch (error) {
+      // Mints from another cluster don't exist here; there's nothing to scan for them
+      console.error(`Error deriving token account for ${mint}:`, error);
+    }
+  }
+  return addresses;
+}
+
+// Page back through an address's history until the window starts or the history runs out
+async function getSignaturesSince(address: PublicKey, since: number): Promise<ConfirmedSignatureInfo[]> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(
+      address,
+      { before, limit: SIGNATURE_PAGE_SIZE },
+      'confirmed'
+    );
+    for (const info of page) {
+      if (info.blockTime && info.blockTime * 1000 < since) return signatures;
+      signatures.push(info);
+    }
+    if (page.length < SIGNATURE_PAGE_SIZE) return signatures;
+    before = page[page.length - 1].signature;
+  }
+}
+
+async function scanTransactions(
+  signatures: string[],
+  wallet: string,
+  onProgress?: ReconcileOptions['onProgress']
+): Promise<ScannedTransaction[]> {
+  const scanned: ScannedTransaction[] = [];
+
+  for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const transactions = await connection.getTransactions(batch, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+
+    transactions.forEach((transaction, index) => {
+      if (!transaction?.meta) return;
+      const keys = transaction.transaction.message
+        .getAccountKeys({ accountKeysFromLookups: transaction.meta.loadedAddresses })
+        .keySegments().flat().map(key => key.toBase58());
+      // Transactions the merchant paid for are its own refunds, swaps and withdrawals
+      if (keys[0] === wallet) return;
+
+      const transfers = getIncomingTransfers(transaction, keys, wallet);
+      if (transfers.length === 0) return;
+      scanned.push({
+        signature: batch[index],
+        timestamp: (transaction.blockTime ?? 0) * 1000,
+        keys,
+        sender: keys[0],
+        networkFee: transaction.meta.fee / LAMPORTS_PER_SOL,
+        transfers
+      });
+    });
+
+    onProgress?.({ signatures: signatures.length, transactions: Math.min(i + batch.length, signatures.length) });
+  }
+
+  return scanned;
+}
+
+// Compare what the chain shows against the payment records; returns the issues found and the
+// payments that turned out to have settled
+function compare(
+  scanned: ScannedTransaction[],
+  payments: Payment[],
+  since: number,
+  wallet: string
+): { matched: number; recovered: Payment[]; issues: ReconciliationIssue[] } {
+  const bySignature = new Map(payments
+    .filter(p => p.txSignature && !p.escrow)
+    .map(p => [p.txSignature as string, p]));
+  const byReference = new Map(payments
+    .filter(p => reachesWallet(p) && getSettlementReference(p))
+    .map(p => [getSettlementReference(p) as string, p]));
+  const seen = new Set<string>();
+  const recovered: Payment[] = [];
+  const issues: ReconciliationIssue[] = [];
+  let matched = 0;
+
+  for (const transaction of scanned) {
+    const payment = bySignature.get(transaction.signature) ||
+      transaction.keys.map(key => byReference.get(key)).find(Boolean);
+
+    if (!payment) {
+      for (const transfer of transaction.transfers) {
+        issues.push({
+          type: 'unmatched_deposit',
+          token: transfer.mint,
+          timestamp: transaction.timestamp,
+          signature: transaction.signature,
+          received: fromBaseUnits(transfer.amount, transfer.decimals),
+          sender: transaction.sender,
+          detail: 'Deposit does not match any payment'
+        });
+      }
+      continue;
+    }
+
+    seen.add(payment.id);
+    matched += 1;
+    const transfer = transaction.transfers.find(t => t.mint === payment.token);
+    const received = transfer ? fromBaseUnits(transfer.amount, transfer.decimals) : 0;
+
+    // Split recipients are paid by the same transaction, but only the merchant's share
+    // reaches the settlement wallet
+    const splitTotal = getSplitTotal(payment.splits);
+    let recorded = (payment.receivedAmount ?? payment.amount) - splitTotal;
+    const decimals = transfer?.decimals ?? 0;
+    if (!isSettled(payment)) {
+      // Invoices take instalments; anything else has to arrive in full before it can be
+      // fulfilled, so an underpaid payment keeps its status and the shortfall is reported
+      const paid = payment.invoiceId
+        ? received > 0
+        : !!transfer && transfer.amount >= getMerchantShare(payment.amount, decimals, payment.splits);
+      recorded = payment.invoiceId && paid ? received : payment.amount - splitTotal;
+      if (paid) {
+        // The session that made the payment ended before it saw the transaction confirm
+        recovered.push({
+          ...payment,
+          status: 'completed',
+          txSignature: transaction.signature,
+          timestamp: transaction.timestamp || payment.timestamp,
+          receivedAmount: received + splitTotal,
+          networkFee: transaction.networkFee,
+          failureReason: undefined
+        });
+      }
+    }
+
+    if (!transfer || transfer.amount !== BigInt(toBaseUnits(recorded, decimals))) {
+      issues.push({
+        type: 'amount_mismatch',
+        token: payment.token,
+        timestamp: transaction.timestamp,
+        signature: transaction.signature,
+        paymentId: payment.id,
+        received,
+        expected: recorded,
+        sender: transaction.sender,
+        detail: transfer
+          ? `Received ${received} on chain, ${recorded} on record`
+          : 'Transaction did not pay the payment token'
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    if (!isSettled(payment) || !reachesWallet(payment) || seen.has(payment.id) || payment.timestamp < since) continue;
+    issues.push({
+      type: 'missing_payment',
+      token: payment.token,
+      timestamp: payment.timestamp,
+      signature: payment.escrow?.payout?.txSignature || payment.txSignature,
+      paymentId: payment.id,
+      expected: (payment.receivedAmount ?? payment.amount) - getSplitTotal(payment.splits),
+      detail: `No incoming transaction for this payment in ${wallet}'s history`
+    });
+  }
+
+  issues.sort((a, b) => b.timestamp - a.timestamp);
+  return { matched, recovered, issues };
+}
+
+export function createReconciler(repository: PaymentRepository, storage: StorageAdapter): Reconciler {
+  const getReportKey = (merchantId: string) => `${REPORT_KEY_PREFIX}${merchantId}`;
+
+  return {
+    async run(merchant, { since = Date.now() - DEFAULT_RECONCILE_WINDOW_MS, onProgress } = {}) {
+      const wallet = getSettlementWallet(merchant);
+
+      try {
+        const { payments } = await repository.query({ merchantId: merchant.id });
+        const mints = new Set([
+          merchant.preferredToken,
+          ...(merchant.acceptedTokens || []),
+          ...payments.map(payment => payment.token)
+        ]);
+
+        const signatures = new Map<string, ConfirmedSignatureInfo>();
+        for (const address of await getWatchedAddresses(new PublicKey(wallet), Array.from(mints))) {
+          for (const info of await getSignaturesSince(address, since)) {
+            if (!info.err) signatures.set(info.signature, info);
+          }
+          onProgress?.({ signatures: signatures.size, transactions: 0 });
+        }
+
+        const scanned = await scanTransactions(Array.from(signatures.keys()), wallet, onProgress);
+        const { matched, recovered, issues } = compare(scanned, payments, since, wallet);
+        await Promise.all(recovered.map(payment => repository.save(payment)));
+
+        const report: ReconciliationReport = {
+          merchantId: merchant.id,
+          scannedAt: Date.now(),
+          since,
+          signaturesScanned: signatures.size,
+          matched,
+          recovered: recovered.map(payment => payment.id),
+          issues
+        };
+        await storage.setItem(getReportKey(merchant.id), report);
+        return report;
+      } catch (error) {
+        console.error('Error reconciling payments:', error);
+        throw new Error('Failed to reconcile payments');
+      }
+    },
+
+    getLastReport(merchantId) {
+      return storage.getItem<ReconciliationReport>(getReportKey(merchantId));
+    },
+
+    async importDeposit(merchantId, issue) {
+      if (issue.type !== 'unmatched_deposit' || !issue.signature || issue.received === undefined) {
+        throw new Error('Only unmatched deposits can be imported');
+      }
+
+      await repository.save({
+        id: createId('payment'),
+        amount: issue.received,
+        token: issue.token,
+        status: 'completed',
+        timestamp: issue.timestamp,
+        merchantId,
+        customerWallet: issue.sender,
+        txSignature: issue.signature,
+        receivedAmount: issue.received
+      });
+
+      const report = await storage.getItem<ReconciliationReport>(getReportKey(merchantId));
+      if (!report) return null;
+      const updated: ReconciliationReport = {
+        ...report,
+        matched: report.matched + 1,
+        issues: report.issues.filter(other =>
+          !(other.type === issue.type && other.signature === issue.signature && other.token === issue.token))
+      };
+      await storage.setItem(getReportKey(merchantId), updated);
+      return updated;
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { Payment, Refund } from '../types';
+import { TOKENS } from './solana';
+import { applyRefund, getRefundableAmount, validateRefund } from './refunds';
+
+const customer = Keypair.generate().publicKey.toBase58();
+
+function createPayment(changes: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay_1',
+    amount: 10,
+    token: TOKENS.USDC.mint,
+    status: 'completed',
+    timestamp: 0,
+    merchantId: 'merchant-1',
+    customerWallet: customer,
+    ...changes
+  };
+}
+
+function createRefund(id: string, amount: number, status: Refund['status'] = 'completed'): Refund {
+  return {
+    id,
+    paymentId: 'pay_1',
+    amount,
+    outputToken: TOKENS.USDC.mint,
+    outputAmount: amount,
+    recipient: customer,
+    status,
+    timestamp: 0,
+    reference: `${id}-reference`
+  };
+}
+
+describe('getRefundableAmount', () => {
+  it('is what was received when nothing was refunded', () => {
+    expect(getRefundableAmount(createPayment())).toBe(10);
+  });
+
+  it('is limited to what a partial payment actually received', () => {
+    expect(getRefundableAmount(createPayment({ receivedAmount: 4 }))).toBe(4);
+  });
+
+  it('subtracts completed and pending refunds but not failed ones', () => {
+    const payment = createPayment({
+      refunds: [createRefund('a', 0.1), createRefund('b', 0.2, 'pending'), createRefund('c', 5, 'failed')]
+    });
+    expect(getRefundableAmount(payment)).toBe(9.7);
+  });
+
+  it('never goes below zero', () => {
+    expect(getRefundableAmount(createPayment({ receivedAmount: 1, refunds: [createRefund('a', 2)] }))).toBe(0);
+  });
+});
+
+describe('validateRefund', () => {
+  it('rejects refunds larger than what is left', () => {
+    const payment = createPayment({ receivedAmount: 4, refunds: [createRefund('a', 1.5)] });
+
+    expect(validateRefund(payment, 2.5)).toEqual([]);
+    expect(validateRefund(payment, 2.500001)).toEqual(['At most 2.5 can be refunded']);
+  });
+
+  it('rejects refunds that are not positive', () => {
+    for (const amount of [0, -1, Number.NaN]) {
+      expect(validateRefund(createPayment(), amount)).toEqual(['Refund amount must be greater than zero']);
+    }
+  });
+
+  it('rejects escrowed payments until their funds are released', () => {
+    const payment = createPayment({ escrow: { wallet: customer, status: 'held', timeoutMs: 1000 } });
+    expect(validateRefund(payment, 1)).toContain('Escrowed funds are refunded out of escrow until they are released');
+  });
+});
+
+describe('applyRefund', () => {
+  it('records a partial refund without refunding the payment', () => {
+    const refunded = applyRefund(createPayment(), createRefund('a', 3));
+
+    expect(refunded.status).toBe('completed');
+    expect(refunded.refundedAmount).toBe(3);
+  });
+
+  it('refunds a partly paid payment once everything it received is returned', () => {
+    const payment = applyRefund(createPayment({ receivedAmount: 4 }), createRefund('a', 1.1));
+    const refunded = applyRefund(payment, createRefund('b', 2.9));
+
+    expect(refunded.refundedAmount).toBe(4);
+    expect(refunded.status).toBe('refunded');
+  });
+
+  it('replaces a refund by id instead of counting it twice', () => {
+    const pending = applyRefund(createPayment(), createRefund('a', 10, 'pending'));
+    expect(pending.refundedAmount).toBe(0);
+    expect(pending.status).toBe('completed');
+
+    const completed = applyRefund(pending, createRefund('a', 10));
+    expect(completed.refunds).toHaveLength(1);
+    expect(completed.refundedAmount).toBe(10);
+    expect(completed.status).toBe('refunded');
+  });
+});
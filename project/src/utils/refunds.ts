@@ -0,0 +1,140 @@
+import BigNumber from 'bignumber.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { Payment, Refund } from '../types';
+import { createPaymentTransaction } from './solana';
+import { createSwapAndPayTransaction, getGuaranteedOutAmount, getQuote } from './jupiter';
+import { resolveToken } from './tokenRegistry';
+import { transitionPayment } from './paymentWatcher';
+import { createPaymentReference } from './solanaPay';
+import { createId } from './ids';
+
+export interface RefundParams {
+  payment: Payment;
+  // In the payment's token
+  amount: number;
+  // Swap back into the token the customer originally paid with
+  swapBack?: boolean;
+  slippageBps?: number;
+  reason?: string;
+}
+
+export interface RefundTransaction {
+  refund: Refund;
+  transaction: Transaction | VersionedTransaction;
+}
+
+// What the customer actually paid, split cuts included, less refunds that are done or still in flight
+export function getRefundableAmount(payment: Payment): number {
+  const received = payment.receivedAmount ?? payment.amount;
+  const committed = (payment.refunds || [])
+    .filter(refund => refund.status !== 'failed')
+    .reduce((sum, refund) => sum.plus(refund.amount), new BigNumber(0));
+  return BigNumber.max(0, new BigNumber(received).minus(committed)).toNumber();
+}
+
+// The token the customer paid with, when it was swapped into the merchant's token
+export function getSwapBackToken(payment: Payment): string | null {
+  const mint = payment.swap?.inputMint;
+  return mint && mint !== payment.token ? mint : null;
+}
+
+export function validateRefund(payment: Payment, amount: number): string[] {
+  const errors: string[] = [];
+  if (payment.status !== 'completed') {
+    errors.push('Only completed payments can be refunded');
+  }
+  if (payment.escrow && payment.escrow.status !== 'released') {
+    errors.push('Escrowed funds are refunded out of escrow until they are released');
+  }
+  if (!payment.customerWallet) {
+    errors.push('The payment has no customer wallet to refund to');
+  }
+  if (!(amount > 0)) {
+    errors.push('Refund amount must be greater than zero');
+  } else if (amount > getRefundableAmount(payment)) {
+    errors.push(`At most ${getRefundableAmount(payment)} can be refunded`);
+  }
+  return errors;
+}
+
+// Build the transfer from the merchant's settlement wallet back to the customer, along
+// the same paths payments take: a plain transfer, or a Jupiter swap-and-pay
+export async function createRefundTransaction(
+  { payment, amount, swapBack = false, slippageBps, reason }: RefundParams,
+  merchantWallet: PublicKey
+): Promise<RefundTransaction> {
+  const errors = validateRefund(payment, amount);
+  if (errors.length > 0) {
+    throw new Error(`Invalid refund: ${errors.join('; ')}`);
+  }
+
+  const customer = new PublicKey(payment.customerWallet as string);
+  const reference = createPaymentReference();
+  const swapBackToken = swapBack ? getSwapBackToken(payment) : null;
+
+  const refund: Refund = {
+    id: createId('refund'),
+    paymentId: payment.id,
+    amount,
+    outputToken: payment.token,
+    outputAmount: amount,
+    recipient: customer.toBase58(),
+    status: 'pending',
+    timestamp: Date.now(),
+    reference,
+    reason
+  };
+
+  try {
+    if (!swapBackToken) {
+      const transaction = await createPaymentTransaction(
+        amount,
+        payment.token,
+        merchantWallet,
+        customer,
+        new PublicKey(reference)
+      );
+      return { refund, transaction };
+    }
+
+    const [paymentToken, originalToken] = await Promise.all([
+      resolveToken(payment.token),
+      resolveToken(swapBackToken)
+    ]);
+    const quote = await getQuote(paymentToken, originalToken, amount, { swapMode: 'ExactIn', slippageBps });
+    const transaction = await createSwapAndPayTransaction(
+      quote,
+      originalToken,
+      merchantWallet,
+      customer,
+      new PublicKey(reference)
+    );
+    return {
+      refund: {
+        ...refund,
+        outputToken: originalToken.mint,
+        outputAmount: new BigNumber(getGuaranteedOutAmount(quote)).shiftedBy(-originalToken.decimals).toNumber()
+      },
+      transaction
+    };
+  } catch (error) {
+    console.error('Error creating refund transaction:', error);
+    throw new Error('Failed to create refund transaction');
+  }
+}
+
+// Record a refund on its payment; the payment becomes `refunded` once nothing is left to refund
+export function applyRefund(payment: Payment, refund: Refund): Payment {
+  const refunds = [...(payment.refunds || []).filter(r => r.id !== refund.id), refund];
+  const refundedAmount = refunds
+    .filter(r => r.status === 'completed')
+    .reduce((sum, r) => sum.plus(r.amount), new BigNumber(0))
+    .toNumber();
+
+  const updated: Payment = { ...payment, refunds, refundedAmount };
+  const received = payment.receivedAmount ?? payment.amount;
+  if (payment.status === 'completed' && refundedAmount >= received) {
+    return transitionPayment(updated, 'refunded');
+  }
+  return updated;
+}
@@ -2,36 +2,40 @@ import {
   Connection, 
   PublicKey, 
   Transaction, 
+  VersionedTransaction,
   SystemProgram, 
-  Keypair, 
-  sendAndConfirmTransaction,
   TransactionInstruction,
-  LAMPORTS_PER_SOL,
-  ComputeBudgetProgram
+  LAMPORTS_PER_SOL
 } from '@solana/web3.js';
 import { 
-  TOKEN_PROGRAM_ID, 
-  createTransferInstruction, 
-  getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  getAccount
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeAndTransferHookInstruction,
+  createTransferCheckedWithFeeInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  getAssociatedTokenAddressSync
 } from '@solana/spl-token';
-import { TokenInfo } from '../types';
-import bs58 from 'bs58';
+import { PaymentSplit, TokenInfo } from '../types';
+import { Cluster, NetworkConfig, loadNetworkConfig, saveNetworkConfig } from './network';
+import { resolveToken } from './tokenRegistry';
+import {
+  assertTransferable,
+  createMemoInstruction,
+  getMintDetails,
+  getTokenAccount,
+  getTransferAmounts,
+  hasTransferFee,
+  hasTransferHook,
+  requiresIncomingMemo
+} from './tokenProgram';
+import { getMerchantShare } from './splits';
+import { SpeedTier, createComputeBudgetInstructions } from './priorityFees';
 
-// Solana connection with more realistic configuration
-export const connection = new Connection(
-  'https://api.mainnet-beta.solana.com', 
-  {
-    commitment: 'confirmed',
-    confirmTransactionInitialTimeout: 60000, // 60 seconds
-    disableRetryOnRateLimit: false,
-    fetch: fetch
-  }
-);
+// Matches the wallet adapter's signTransaction so it can be passed straight through
+export type SignTransaction = <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
 
 // Common token addresses with accurate mainnet addresses
-export const TOKENS: Record<string, TokenInfo> = {
+const MAINNET_TOKENS: Record<string, TokenInfo> = {
   SOL: {
     symbol: 'SOL',
     name: 'Solana',
@@ -69,146 +73,328 @@ export const TOKENS: Record<string, TokenInfo> = {
   }
 };
 
-// Create a payment transaction with more realistic handling
-export async function createPaymentTransaction(
+// Test clusters only carry SOL and USDC. Devnet USDC is Circle's faucet mint; on testnet and
+// localnet set VITE_USDC_MINT to a mint you control, or clone the devnet mint into
+// solana-test-validator with `--clone 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU --url devnet`.
+const DEVNET_USDC_MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+function getTestClusterTokens(usdcMint: string): Record<string, TokenInfo> {
+  return {
+    SOL: MAINNET_TOKENS.SOL,
+    USDC: { ...MAINNET_TOKENS.USDC, mint: import.meta.env.VITE_USDC_MINT || usdcMint }
+  };
+}
+
+export const TOKENS_BY_CLUSTER: Record<Cluster, Record<string, TokenInfo>> = {
+  'mainnet-beta': MAINNET_TOKENS,
+  devnet: getTestClusterTokens(DEVNET_USDC_MINT),
+  testnet: getTestClusterTokens(DEVNET_USDC_MINT),
+  localnet: getTestClusterTokens(DEVNET_USDC_MINT)
+};
+
+function createConnection(config: NetworkConfig): Connection {
+  return new Connection(config.rpcUrl, {
+    commitment: 'confirmed',
+    confirmTransactionInitialTimeout: 60000, // 60 seconds
+    disableRetryOnRateLimit: false,
+    wsEndpoint: config.wsUrl,
+    fetch: fetch
+  });
+}
+
+let network = loadNetworkConfig();
+
+// Both are reassigned by setNetwork; ES module live bindings keep importers in sync
+export let connection = createConnection(network);
+export let TOKENS: Record<string, TokenInfo> = TOKENS_BY_CLUSTER[network.cluster];
+
+const networkListeners = new Set<(config: NetworkConfig) => void>();
+
+export function getNetwork(): NetworkConfig {
+  return network;
+}
+
+// Point the whole app at another cluster or RPC endpoint and remember the choice.
+// The API server configures the network per process, so it has nothing to remember.
+export function setNetwork(config: NetworkConfig, persist: boolean = true) {
+  network = config;
+  connection = createConnection(config);
+  TOKENS = TOKENS_BY_CLUSTER[config.cluster];
+  if (persist) saveNetworkConfig(config);
+  networkListeners.forEach(listener => listener(config));
+}
+
+export function onNetworkChange(listener: (config: NetworkConfig) => void): () => void {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+}
+
+// Convert a UI amount (e.g. 1.5 USDC) into the token's base units
+export function toBaseUnits(amount: number, decimals: number): number {
+  return Math.round(amount * (10 ** decimals));
+}
+
+// Convert base units (as returned by RPC and Jupiter) back to a UI amount
+export function fromBaseUnits(amount: string | number | bigint, decimals: number): number {
+  return Number(amount) / (10 ** decimals);
+}
+
+// Whether `value` is a base58 address, e.g. from a form or a request body
+export function isValidPublicKey(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Solana Pay tags a transfer by appending the reference as a read-only, non-signer key
+function addReference(instruction: TransactionInstruction, reference?: PublicKey): TransactionInstruction {
+  if (reference) {
+    instruction.keys.push({ pubkey: reference, isSigner: false, isWritable: false });
+  }
+  return instruction;
+}
+
+export interface TransferOptions {
+  // Solana Pay memo, placed right before the transfer
+  memo?: string;
+  // Treat `amount` as what leaves the sender rather than what the recipient nets,
+  // e.g. when paying out swap proceeds that can't be topped up
+  amountIncludesFee?: boolean;
+  // Move the tokens under an `approve` delegation: the delegate signs in place of
+  // `fromWallet` and pays for any account the transfer creates
+  delegate?: PublicKey;
+  // Pays for any account the transfer creates in place of whoever signs for the tokens,
+  // e.g. when the sender holds no SOL
+  payer?: PublicKey;
+}
+
+// Build the instructions that move `amount` of a token from one wallet to another.
+// Shared by plain payments and the atomic swap-and-pay transaction.
+export async function createTransferInstructions(
   amount: number,
   tokenMint: string,
   fromWallet: PublicKey,
-  toWallet: PublicKey
-): Promise<Transaction> {
-  // Create a new transaction with recent blockhash
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-  const transaction = new Transaction({
-    feePayer: fromWallet,
-    blockhash,
-    lastValidBlockHeight
-  });
-
-  // Add a compute budget instruction to potentially increase compute limit
-  transaction.add(
-    ComputeBudgetProgram.setComputeUnitLimit({
-      units: 200000 // Increase compute units for complex transactions
-    })
-  );
+  toWallet: PublicKey,
+  reference?: PublicKey,
+  options: TransferOptions = {}
+): Promise<TransactionInstruction[]> {
+  const instructions: TransactionInstruction[] = [];
 
   // If the token is SOL, create a simple transfer
   if (tokenMint === TOKENS.SOL.mint) {
-    transaction.add(
-      SystemProgram.transfer({
-        fromPubkey: fromWallet,
-        toPubkey: toWallet,
-        lamports: Math.floor(amount * LAMPORTS_PER_SOL)
-      })
-    );
-  } else {
-    // For SPL tokens, we need to transfer from the associated token account
-    const fromTokenAccount = await getAssociatedTokenAddress(
-      new PublicKey(tokenMint),
-      fromWallet
+    if (options.delegate) {
+      throw new Error('Native SOL transfers cannot be delegated');
+    }
+    if (options.memo) {
+      instructions.push(createMemoInstruction(options.memo, fromWallet));
+    }
+    instructions.push(
+      addReference(
+        SystemProgram.transfer({
+          fromPubkey: fromWallet,
+          toPubkey: toWallet,
+          lamports: toBaseUnits(amount, TOKENS.SOL.decimals)
+        }),
+        reference
+      )
     );
+    return instructions;
+  }
 
-    const toTokenAccount = await getAssociatedTokenAddress(
-      new PublicKey(tokenMint),
-      toWallet
+  // The mint's owner decides whether this is a classic SPL Token or a Token-2022 transfer
+  const [tokenInfo, mintDetails] = await Promise.all([
+    resolveToken(tokenMint),
+    getMintDetails(tokenMint)
+  ]);
+  assertTransferable(mintDetails);
+  const mint = new PublicKey(tokenMint);
+  const { programId } = mintDetails;
+  // Whoever signs for the sender's token account
+  const authority = options.delegate || fromWallet;
+
+  // For SPL tokens, we need to transfer from the associated token account
+  const fromTokenAccount = getAssociatedTokenAddressSync(mint, fromWallet, false, programId);
+  const toTokenAccount = getAssociatedTokenAddressSync(mint, toWallet, true, programId);
+
+  // Check if the recipient's token account exists
+  const recipientAccount = await getTokenAccount(toTokenAccount, mintDetails);
+  if (!recipientAccount) {
+    // If the account doesn't exist, add an instruction to create it; the idempotent variant
+    // still succeeds if something else creates it before this transaction lands
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        options.payer || authority, // payer
+        toTokenAccount, // associated token account
+        toWallet, // owner
+        mint,
+        programId
+      )
     );
+  }
 
-    // Check if the recipient's token account exists
-    try {
-      await getAccount(connection, toTokenAccount);
-    } catch (error) {
-      // If the account doesn't exist, add an instruction to create it
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          fromWallet, // payer
-          toTokenAccount, // associated token account
-          toWallet, // owner
-          new PublicKey(tokenMint) // mint
-        )
-      );
-    }
+  // Token-2022 transfer fees come out of the transferred amount, so the customer
+  // covers them on top unless the amount is fixed
+  const { gross, fee } = await getTransferAmounts(
+    mintDetails,
+    BigInt(toBaseUnits(amount, tokenInfo.decimals)),
+    options.amountIncludesFee
+  );
 
-    // Add the token transfer instruction
-    const tokenInfo = Object.values(TOKENS).find(t => t.mint === tokenMint);
-    if (!tokenInfo) {
-      throw new Error(`Token info not found for mint: ${tokenMint}`);
-    }
+  // Accounts that require memos reject a transfer not immediately preceded by one
+  const memo = options.memo || (
+    recipientAccount && requiresIncomingMemo(recipientAccount)
+      ? reference?.toBase58() || 'payment'
+      : undefined
+  );
+  if (memo) {
+    instructions.push(createMemoInstruction(memo, authority));
+  }
 
-    transaction.add(
-      createTransferInstruction(
-        fromTokenAccount,
-        toTokenAccount,
-        fromWallet,
-        Math.floor(amount * (10 ** tokenInfo.decimals)),
-        [], // multisigners
-        TOKEN_PROGRAM_ID
+  // transferChecked makes the token program verify the mint and decimals; the fee variant
+  // also pins the fee so a fee change can't silently short the merchant
+  let transfer: TransactionInstruction;
+  if (hasTransferHook(mintDetails)) {
+    transfer = fee > BigInt(0)
+      ? await createTransferCheckedWithFeeAndTransferHookInstruction(
+        connection, fromTokenAccount, mint, toTokenAccount, authority,
+        gross, tokenInfo.decimals, fee, [], 'confirmed', programId
       )
+      : await createTransferCheckedWithTransferHookInstruction(
+        connection, fromTokenAccount, mint, toTokenAccount, authority,
+        gross, tokenInfo.decimals, [], 'confirmed', programId
+      );
+  } else if (fee > BigInt(0)) {
+    transfer = createTransferCheckedWithFeeInstruction(
+      fromTokenAccount, mint, toTokenAccount, authority,
+      gross, tokenInfo.decimals, fee, [], programId
+    );
+  } else {
+    transfer = createTransferCheckedInstruction(
+      fromTokenAccount, mint, toTokenAccount, authority,
+      gross, tokenInfo.decimals, [], programId
     );
   }
 
-  return transaction;
+  instructions.push(addReference(transfer, reference));
+
+  return instructions;
 }
 
-// This is a mock function since we can't actually sign transactions in this demo
-// But it's structured more realistically
-export async function mockSendTransaction(transaction: Transaction): Promise<string> {
-  try {
-    // In a real implementation, this would use the wallet adapter to sign and send
-    console.log('Sending transaction:', transaction);
-    
-    // Simulate network latency
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Return a mock transaction signature that looks like a real one
-    return bs58.encode(Buffer.from(Array.from({ length: 64 }, () => Math.floor(Math.random() * 256))));
-  } catch (error) {
-    console.error('Error sending transaction:', error);
-    throw new Error('Failed to send transaction');
+// Build the transfers that pay `amount` when part of it is split off: each recipient gets its
+// cut in a transfer of its own, creating its token account if needed, and `toWallet` gets the
+// rest. The reference and memo go on the merchant's transfer.
+export async function createSplitTransferInstructions(
+  amount: number,
+  tokenMint: string,
+  fromWallet: PublicKey,
+  toWallet: PublicKey,
+  reference: PublicKey | undefined,
+  splits: PaymentSplit[],
+  options: TransferOptions = {}
+): Promise<TransactionInstruction[]> {
+  if (splits.length === 0) {
+    return createTransferInstructions(amount, tokenMint, fromWallet, toWallet, reference, options);
+  }
+
+  const isSol = tokenMint === TOKENS.SOL.mint;
+  const decimals = isSol ? TOKENS.SOL.decimals : (await resolveToken(tokenMint)).decimals;
+  if (options.amountIncludesFee && !isSol && hasTransferFee(await getMintDetails(tokenMint))) {
+    // Every cut would lose its own fee, so the transfers could no longer add up to `amount`
+    throw new Error('Split payments out of swap proceeds need a token without transfer fees');
   }
+
+  const merchantShare = fromBaseUnits(getMerchantShare(amount, decimals, splits), decimals);
+  const transfers = await Promise.all([
+    createTransferInstructions(merchantShare, tokenMint, fromWallet, toWallet, reference, options),
+    ...splits.map(split => createTransferInstructions(
+      split.amount,
+      tokenMint,
+      fromWallet,
+      new PublicKey(split.wallet),
+      undefined,
+      { ...options, memo: undefined }
+    ))
+  ]);
+  return transfers.flat();
 }
 
-// Get token balance - would be used in a real implementation
+// Create a payment transaction with a compute budget sized by simulation and a priority fee
+// bid for the chosen speed
+export async function createPaymentTransaction(
+  amount: number,
+  tokenMint: string,
+  fromWallet: PublicKey,
+  toWallet: PublicKey,
+  reference?: PublicKey,
+  speed: SpeedTier = 'normal',
+  memo?: string,
+  splits: PaymentSplit[] = []
+): Promise<Transaction> {
+  const instructions = await createSplitTransferInstructions(
+    amount,
+    tokenMint,
+    fromWallet,
+    toWallet,
+    reference,
+    splits,
+    { memo }
+  );
+  const [computeBudget, { blockhash, lastValidBlockHeight }] = await Promise.all([
+    createComputeBudgetInstructions(instructions, fromWallet, speed),
+    connection.getLatestBlockhash('confirmed')
+  ]);
+
+  return new Transaction({
+    feePayer: fromWallet,
+    blockhash,
+    lastValidBlockHeight
+  }).add(...computeBudget, ...instructions);
+}
+
+// Get a wallet's balance of SOL or any SPL Token / Token-2022 mint
 export async function getTokenBalance(
   walletAddress: PublicKey,
   tokenMint: string
 ): Promise<number> {
   try {
-    const tokenInfo = Object.values(TOKENS).find(t => t.mint === tokenMint);
-    if (!tokenInfo) {
-      throw new Error(`Token info not found for mint: ${tokenMint}`);
-    }
-
     // If SOL, get SOL balance
     if (tokenMint === TOKENS.SOL.mint) {
       const balance = await connection.getBalance(walletAddress);
       return balance / LAMPORTS_PER_SOL;
     }
 
-    // For other tokens, get the associated token account
-    const tokenAccount = await getAssociatedTokenAddress(
+    // For other tokens, get the associated token account under the mint's program
+    const mintDetails = await getMintDetails(tokenMint);
+    const tokenAccount = getAssociatedTokenAddressSync(
       new PublicKey(tokenMint),
-      walletAddress
+      walletAddress,
+      true,
+      mintDetails.programId
     );
 
-    try {
-      const account = await getAccount(connection, tokenAccount);
-      return Number(account.amount) / (10 ** tokenInfo.decimals);
-    } catch (error) {
-      // If the account doesn't exist, the balance is 0
-      return 0;
-    }
+    // If the account doesn't exist, the balance is 0
+    const account = await getTokenAccount(tokenAccount, mintDetails);
+    return account ? fromBaseUnits(account.amount, mintDetails.mint.decimals) : 0;
   } catch (error) {
     console.error('Error getting token balance:', error);
     throw new Error('Failed to get token balance');
   }
 }
 
-// Verify transaction - would be used in a real implementation
+// Check that a transaction landed without error at confirmed commitment or better
 export async function verifyTransaction(signature: string): Promise<boolean> {
   try {
-    // In a real implementation, this would check the transaction status
-    // For demo purposes, we'll simulate success
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    return true;
+    const { value } = await connection.getSignatureStatus(signature, {
+      searchTransactionHistory: true
+    });
+    if (!value || value.err) return false;
+    return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized';
   } catch (error) {
     console.error('Error verifying transaction:', error);
     return false;
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TransferRequest } from '../types';
+import { TOKENS } from './solana';
+import {
+  createPaymentReference,
+  createTransactionRequestURL,
+  createTransferRequestURL,
+  parseTransferRequestURL,
+  validateTransferRequest
+} from './solanaPay';
+
+const recipient = 'GvHeR432g7MjN9uKyX3Dzg66TqwrEWgANLnnFZXMeyyj';
+
+function createRequest(changes: Partial<TransferRequest> = {}): TransferRequest {
+  return {
+    recipient,
+    amount: 1.25,
+    token: TOKENS.SOL.mint,
+    reference: createPaymentReference(),
+    ...changes
+  };
+}
+
+describe('transfer request URLs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips a SOL transfer without an spl-token', () => {
+    const request = createRequest();
+    const url = createTransferRequestURL(request);
+
+    expect(url.searchParams.has('spl-token')).toBe(false);
+    expect(parseTransferRequestURL(url)).toEqual(request);
+  });
+
+  it('round-trips an SPL token transfer with a label, message and memo', () => {
+    const request = createRequest({
+      amount: 0.000001,
+      token: TOKENS.USDC.mint,
+      label: 'Coffee & Co',
+      message: 'Order #42 — thanks!',
+      memo: 'order-42'
+    });
+    const url = createTransferRequestURL(request);
+
+    expect(url.searchParams.get('spl-token')).toBe(TOKENS.USDC.mint);
+    expect(url.searchParams.get('reference')).toBe(request.reference);
+    expect(parseTransferRequestURL(url.toString())).toEqual(request);
+  });
+
+  it('keeps large amounts exact', () => {
+    const request = createRequest({ amount: 123456789.123456 });
+    expect(parseTransferRequestURL(createTransferRequestURL(request)).amount).toBe(request.amount);
+  });
+
+  it('rejects invalid recipients', () => {
+    const request = createRequest({ recipient: 'not-a-wallet' });
+
+    expect(validateTransferRequest(request)).toContain('Recipient is not a valid Solana address');
+    expect(() => createTransferRequestURL(request)).toThrow('Recipient is not a valid Solana address');
+  });
+
+  it('rejects amounts that are not positive', () => {
+    for (const amount of [0, -1, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(() => createTransferRequestURL(createRequest({ amount }))).toThrow('Amount must be greater than zero');
+    }
+  });
+
+  it('rejects amounts finer than the token allows', () => {
+    const request = createRequest({ amount: 0.0000001, token: TOKENS.USDC.mint });
+    expect(() => createTransferRequestURL(request)).toThrow('more than 6 decimal places for USDC');
+  });
+
+  it('rejects URLs that cannot be tracked as payments', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const reference = createPaymentReference();
+
+    expect(() => parseTransferRequestURL(`solana:${recipient}?reference=${reference}`))
+      .toThrow('missing an amount');
+    expect(() => parseTransferRequestURL(`solana:${recipient}?amount=1`)).toThrow('missing a reference');
+    expect(() => parseTransferRequestURL(`solana:${recipient}?amount=-1&reference=${reference}`))
+      .toThrow('Failed to parse Solana Pay URL');
+    expect(() => parseTransferRequestURL(`solana:${recipient}?amount=0.0000000001&reference=${reference}`))
+      .toThrow('more than 9 decimal places for SOL');
+    expect(() => parseTransferRequestURL(`solana:not-a-wallet?amount=1&reference=${reference}`))
+      .toThrow('Failed to parse Solana Pay URL');
+    expect(() => parseTransferRequestURL(createTransactionRequestURL('https://example.com/pay')))
+      .toThrow('Expected a transfer request URL');
+  });
+});
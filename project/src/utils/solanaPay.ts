@@ -0,0 +1,114 @@
+import { encodeURL, parseURL, TransferRequestURL } from '@solana/pay';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import BigNumber from 'bignumber.js';
+import { TransferRequest } from '../types';
+import { TOKENS, isValidPublicKey } from './solana';
+import { getTokenByMint } from './tokenRegistry';
+
+// A fresh, random public key that tags the payment transaction so it can be found on chain.
+// Nobody holds the secret key; it only ever appears as a read-only account.
+export function createPaymentReference(): string {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+// Count the digits after the decimal point without going through floating point formatting
+function countDecimals(amount: number): number {
+  const [, fraction = ''] = new BigNumber(amount).toFixed().split('.');
+  return fraction.length;
+}
+
+// Returns a list of problems with the request; an empty list means it is valid
+export function validateTransferRequest(request: TransferRequest): string[] {
+  const errors: string[] = [];
+
+  if (!isValidPublicKey(request.recipient)) {
+    errors.push('Recipient is not a valid Solana address');
+  }
+
+  if (!isValidPublicKey(request.reference)) {
+    errors.push('Reference is not a valid public key');
+  }
+
+  const tokenInfo = getTokenByMint(request.token);
+  if (!tokenInfo) {
+    errors.push(`Unsupported token mint: ${request.token}`);
+  }
+
+  if (!Number.isFinite(request.amount) || request.amount <= 0) {
+    errors.push('Amount must be greater than zero');
+  } else if (tokenInfo && countDecimals(request.amount) > tokenInfo.decimals) {
+    errors.push(`Amount has more than ${tokenInfo.decimals} decimal places for ${tokenInfo.symbol}`);
+  }
+
+  return errors;
+}
+
+// Encode a transfer request as a solana: URL that any Solana Pay wallet can open
+export function createTransferRequestURL(request: TransferRequest): URL {
+  const errors = validateTransferRequest(request);
+  if (errors.length > 0) {
+    throw new Error(`Invalid transfer request: ${errors.join('; ')}`);
+  }
+
+  return encodeURL({
+    recipient: new PublicKey(request.recipient),
+    amount: new BigNumber(request.amount),
+    // Native SOL transfers omit spl-token entirely
+    splToken: request.token === TOKENS.SOL.mint ? undefined : new PublicKey(request.token),
+    reference: new PublicKey(request.reference),
+    label: request.label,
+    message: request.message,
+    memo: request.memo
+  });
+}
+
+// Encode a transaction request: the wallet fetches `link` for a label and icon, then POSTs
+// its account to it and signs whatever transaction comes back
+export function createTransactionRequestURL(link: string | URL, label?: string, message?: string): URL {
+  const url = new URL(link);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Transaction request link must be an http(s) URL');
+  }
+  return encodeURL({ link: url, label, message });
+}
+
+// Parse a solana: URL back into a transfer request. Transaction request URLs are rejected,
+// as are transfer requests without the amount and reference needed to track the payment.
+export function parseTransferRequestURL(url: string | URL): TransferRequest {
+  let parsed: ReturnType<typeof parseURL>;
+  try {
+    parsed = parseURL(url);
+  } catch (error) {
+    console.error('Error parsing Solana Pay URL:', error);
+    throw new Error('Failed to parse Solana Pay URL');
+  }
+
+  if (!('recipient' in parsed)) {
+    throw new Error('Expected a transfer request URL, got a transaction request');
+  }
+
+  const transfer: TransferRequestURL = parsed;
+  if (!transfer.amount) {
+    throw new Error('Transfer request is missing an amount');
+  }
+  if (!transfer.reference?.length) {
+    throw new Error('Transfer request is missing a reference');
+  }
+
+  const request: TransferRequest = {
+    recipient: transfer.recipient.toBase58(),
+    amount: transfer.amount.toNumber(),
+    token: transfer.splToken ? transfer.splToken.toBase58() : TOKENS.SOL.mint,
+    reference: transfer.reference[0].toBase58(),
+    label: transfer.label,
+    message: transfer.message,
+    memo: transfer.memo
+  };
+
+  const errors = validateTransferRequest(request);
+  if (errors.length > 0) {
+    throw new Error(`Invalid transfer request: ${errors.join('; ')}`);
+  }
+
+  return request;
+}
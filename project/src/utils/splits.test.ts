@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { SplitRecipient } from '../types';
+import { toBaseUnits } from './solana';
+import { calculateSplits, getMerchantShare, getSplitTotal, validateSplits } from './splits';
+
+const settlementWallet = Keypair.generate().publicKey.toBase58();
+const platform: SplitRecipient = { wallet: Keypair.generate().publicKey.toBase58(), role: 'platform', bps: 250 };
+const affiliate: SplitRecipient = { wallet: Keypair.generate().publicKey.toBase58(), role: 'affiliate', bps: 3333 };
+
+describe('calculateSplits', () => {
+  it('takes each cut in basis points of the amount', () => {
+    expect(calculateSplits(100, 6, [platform])).toEqual([{ ...platform, amount: 2.5 }]);
+  });
+
+  it('rounds cuts down to the smallest unit and leaves the remainder to the merchant', () => {
+    // 33.33% of 7 base units is 2.33 of them
+    const splits = calculateSplits(0.000007, 6, [affiliate, affiliate]);
+
+    expect(splits?.map(split => split.amount)).toEqual([0.000002, 0.000002]);
+    expect(getMerchantShare(0.000007, 6, splits)).toBe(BigInt(3));
+  });
+
+  it('keeps the amounts in base units adding up to the payment', () => {
+    const splits = calculateSplits(0.123457, 6, [platform, affiliate]);
+    const cuts = (splits || []).reduce((total, split) => total + BigInt(toBaseUnits(split.amount, 6)), BigInt(0));
+
+    expect(cuts + getMerchantShare(0.123457, 6, splits)).toBe(BigInt(123457));
+  });
+
+  it('drops cuts that round to nothing', () => {
+    expect(calculateSplits(0.000001, 6, [platform, affiliate])).toBeUndefined();
+    expect(calculateSplits(0.00001, 6, [platform, affiliate])).toEqual([{ ...affiliate, amount: 0.000003 }]);
+  });
+
+  it('returns undefined when nothing is split off', () => {
+    expect(calculateSplits(10, 9)).toBeUndefined();
+    expect(getMerchantShare(10, 9)).toBe(BigInt(10_000_000_000));
+  });
+
+  it('totals cuts without floating point drift', () => {
+    expect(getSplitTotal([{ ...platform, amount: 0.1 }, { ...affiliate, amount: 0.2 }])).toBe(0.3);
+  });
+});
+
+describe('validateSplits', () => {
+  it('accepts splits that leave the merchant a share', () => {
+    expect(validateSplits([platform, affiliate], settlementWallet)).toEqual([]);
+  });
+
+  it('rejects splits that take the whole payment', () => {
+    expect(validateSplits([{ ...platform, bps: 10000 }], settlementWallet))
+      .toContain('Splits must leave the merchant part of each payment');
+  });
+
+  it('rejects fractional shares and the settlement wallet', () => {
+    expect(validateSplits([{ ...platform, bps: 2.5, wallet: settlementWallet }], settlementWallet)).toEqual([
+      'Split 1: wallet is the settlement wallet, which already keeps the rest',
+      'Split 1: share must be a whole number of basis points above zero'
+    ]);
+  });
+});
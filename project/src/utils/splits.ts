@@ -0,0 +1,78 @@
+import BigNumber from 'bignumber.js';
+import { PaymentSplit, SplitRecipient, SplitRole } from '../types';
+import { fromBaseUnits, isValidPublicKey, toBaseUnits } from './solana';
+
+export const SPLIT_ROLES: SplitRole[] = ['platform', 'seller', 'affiliate'];
+export const SPLIT_ROLE_LABELS: Record<SplitRole, string> = {
+  platform: 'Platform fee',
+  seller: 'Seller payout',
+  affiliate: 'Affiliate cut'
+};
+// Every cut is its own transfer, and may need a token account created; more than this won't
+// fit in one transaction next to a Jupiter swap
+export const MAX_SPLIT_RECIPIENTS = 4;
+
+const BASIS_POINTS = 10000;
+
+// Returns a list of problems with a merchant's splits; an empty list means they can be saved
+export function validateSplits(splits: SplitRecipient[], settlementWallet: string): string[] {
+  const errors: string[] = [];
+  if (splits.length > MAX_SPLIT_RECIPIENTS) {
+    errors.push(`At most ${MAX_SPLIT_RECIPIENTS} split recipients fit in one transaction`);
+  }
+
+  const wallets = new Set<string>();
+  splits.forEach((split, index) => {
+    const name = split.label || `Split ${index + 1}`;
+    if (!isValidPublicKey(split.wallet)) {
+      errors.push(`${name}: wallet is not a valid Solana address`);
+    } else if (split.wallet === settlementWallet) {
+      errors.push(`${name}: wallet is the settlement wallet, which already keeps the rest`);
+    } else if (wallets.has(split.wallet)) {
+      errors.push(`${name}: wallet already has a split`);
+    }
+    wallets.add(split.wallet);
+    if (!SPLIT_ROLES.includes(split.role)) {
+      errors.push(`${name}: role must be one of ${SPLIT_ROLES.join(', ')}`);
+    }
+    if (!(Number.isInteger(split.bps) && split.bps > 0)) {
+      errors.push(`${name}: share must be a whole number of basis points above zero`);
+    }
+  });
+
+  const total = splits.reduce((sum, split) => sum + split.bps, 0);
+  if (total >= BASIS_POINTS) {
+    errors.push('Splits must leave the merchant part of each payment');
+  }
+  return errors;
+}
+
+// Divide `amount` of a token among the recipients. Cuts round down to the token's smallest
+// unit, so any dust stays with the merchant, and cuts that round to nothing are dropped.
+// Undefined when nothing is split off, so unsplit payments don't carry an empty list.
+export function calculateSplits(
+  amount: number,
+  decimals: number,
+  recipients: SplitRecipient[] = []
+): PaymentSplit[] | undefined {
+  const total = BigInt(toBaseUnits(amount, decimals));
+  const splits = recipients
+    .map(recipient => ({
+      ...recipient,
+      amount: fromBaseUnits(total * BigInt(recipient.bps) / BigInt(BASIS_POINTS), decimals)
+    }))
+    .filter(split => split.amount > 0);
+  return splits.length > 0 ? splits : undefined;
+}
+
+// The part of `amount` left for the merchant's settlement wallet, in base units
+export function getMerchantShare(amount: number, decimals: number, splits: PaymentSplit[] = []): bigint {
+  return splits.reduce(
+    (share, split) => share - BigInt(toBaseUnits(split.amount, decimals)),
+    BigInt(toBaseUnits(amount, decimals))
+  );
+}
+
+export function getSplitTotal(splits: PaymentSplit[] = []): number {
+  return splits.reduce((total, split) => total.plus(split.amount), new BigNumber(0)).toNumber();
+}
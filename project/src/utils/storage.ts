@@ -0,0 +1,44 @@
+// Minimal async key-value storage so persistence can move from localStorage to a server
+// or IndexedDB without touching the code that saves things
+export interface StorageAdapter {
+  getItem<T>(key: string): Promise<T | null>;
+  setItem<T>(key: string, value: T): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+const DEFAULT_NAMESPACE = 'solana-payment-gateway';
+
+export function createLocalStorageAdapter(namespace: string = DEFAULT_NAMESPACE): StorageAdapter {
+  const toKey = (key: string) => `${namespace}:${key}`;
+
+  return {
+    async getItem<T>(key: string): Promise<T | null> {
+      const stored = localStorage.getItem(toKey(key));
+      return stored ? (JSON.parse(stored) as T) : null;
+    },
+    async setItem<T>(key: string, value: T): Promise<void> {
+      localStorage.setItem(toKey(key), JSON.stringify(value));
+    },
+    async removeItem(key: string): Promise<void> {
+      localStorage.removeItem(toKey(key));
+    }
+  };
+}
+
+// Nothing survives a reload; useful for demos and for running without browser storage
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const items = new Map<string, string>();
+
+  return {
+    async getItem<T>(key: string): Promise<T | null> {
+      const stored = items.get(key);
+      return stored ? (JSON.parse(stored) as T) : null;
+    },
+    async setItem<T>(key: string, value: T): Promise<void> {
+      items.set(key, JSON.stringify(value));
+    },
+    async removeItem(key: string): Promise<void> {
+      items.delete(key);
+    }
+  };
+}
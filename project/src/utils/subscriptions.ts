@@ -0,0 +1,223 @@
+import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  createApproveCheckedInstruction,
+  createRevokeInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { BillingInterval, PaymentSplit, Subscription, SubscriptionPlan } from '../types';
+import { createId } from './ids';
+import { TOKENS, connection, createSplitTransferInstructions, toBaseUnits } from './solana';
+import { resolveToken } from './tokenRegistry';
+import { assertTransferable, getMintDetails, getTokenAccount, getTransferAmounts } from './tokenProgram';
+import { SpeedTier, createComputeBudgetInstructions } from './priorityFees';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BILLING_INTERVALS: BillingInterval[] = ['day', 'week', 'month', 'year'];
+export const DEFAULT_ALLOWANCE_PERIODS = 12;
+
+// Waits before each retry of a failed charge; once they run out the subscription is canceled
+export const DUNNING_RETRY_DELAYS_MS = [1, 3, 5].map(days => days * DAY_MS);
+
+export interface CreatePlanParams {
+  merchantId: string;
+  name: string;
+  amount: number;
+  token: string;
+  interval: BillingInterval;
+  intervalCount?: number;
+  allowancePeriods?: number;
+}
+
+// What the customer's token account holds and how much of it the gateway may still pull
+export interface Delegation {
+  balance: bigint;
+  // Zero when the account is delegated to someone else or not at all
+  delegatedAmount: bigint;
+}
+
+// Returns a list of problems with the plan; an empty list means it can be created
+export function validatePlan(params: CreatePlanParams): string[] {
+  const errors: string[] = [];
+  if (!params.name.trim()) {
+    errors.push('Plan needs a name');
+  }
+  if (!(params.amount > 0)) {
+    errors.push('Amount must be greater than zero');
+  }
+  if (params.token === TOKENS.SOL.mint) {
+    errors.push('Plans must be priced in an SPL token; native SOL cannot be delegated');
+  }
+  if (!BILLING_INTERVALS.includes(params.interval)) {
+    errors.push(`Interval must be one of ${BILLING_INTERVALS.join(', ')}`);
+  }
+  for (const field of ['intervalCount', 'allowancePeriods'] as const) {
+    const value = params[field];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      errors.push(`${field} must be a whole number above zero`);
+    }
+  }
+  return errors;
+}
+
+export function createPlan(params: CreatePlanParams): SubscriptionPlan {
+  const errors = validatePlan(params);
+  if (errors.length > 0) {
+    throw new Error(`Invalid plan: ${errors.join('; ')}`);
+  }
+
+  return {
+    id: createId('plan'),
+    merchantId: params.merchantId,
+    name: params.name.trim(),
+    amount: params.amount,
+    token: params.token,
+    interval: params.interval,
+    intervalCount: params.intervalCount ?? 1,
+    allowancePeriods: params.allowancePeriods ?? DEFAULT_ALLOWANCE_PERIODS,
+    createdAt: Date.now()
+  };
+}
+
+// Starts out incomplete; the scheduler activates it once the customer's approval lands
+export function createSubscription(
+  plan: SubscriptionPlan,
+  customerWallet: string,
+  tokenAccount: string,
+  delegate: string
+): Subscription {
+  const now = Date.now();
+  return {
+    id: createId('sub'),
+    planId: plan.id,
+    merchantId: plan.merchantId,
+    customerWallet,
+    tokenAccount,
+    delegate,
+    status: 'incomplete',
+    createdAt: now,
+    nextChargeAt: now,
+    failedAttempts: 0
+  };
+}
+
+// End of the billing period starting at `start`. Months and years keep the day of the month
+// where they can, so a period starting on the 31st ends on the last day of a shorter month.
+export function getPeriodEnd(start: number, plan: Pick<SubscriptionPlan, 'interval' | 'intervalCount'>): number {
+  const { interval, intervalCount } = plan;
+  if (interval === 'day' || interval === 'week') {
+    return start + intervalCount * (interval === 'week' ? 7 : 1) * DAY_MS;
+  }
+
+  const date = new Date(start);
+  const months = interval === 'year' ? intervalCount * 12 : intervalCount;
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.getTime();
+}
+
+// When to retry after the `failedAttempts`th failed charge; null once dunning is exhausted
+export function getDunningRetryAt(failedAttempts: number, now: number = Date.now()): number | null {
+  const delay = DUNNING_RETRY_DELAYS_MS[failedAttempts - 1];
+  return delay === undefined ? null : now + delay;
+}
+
+export function isSubscriptionLive(subscription: Subscription): boolean {
+  return subscription.status !== 'canceled';
+}
+
+// What one charge pulls from the customer, in base units: the plan amount plus any
+// Token-2022 transfer fee, since the merchant must net the full amount
+export async function getChargeAmount(plan: SubscriptionPlan): Promise<bigint> {
+  const [token, details] = await Promise.all([resolveToken(plan.token), getMintDetails(plan.token)]);
+  const { gross } = await getTransferAmounts(details, BigInt(toBaseUnits(plan.amount, token.decimals)));
+  return gross;
+}
+
+export async function getDelegation(subscription: Subscription, plan: SubscriptionPlan): Promise<Delegation> {
+  const details = await getMintDetails(plan.token);
+  const account = await getTokenAccount(new PublicKey(subscription.tokenAccount), details);
+  if (!account) {
+    return { balance: BigInt(0), delegatedAmount: BigInt(0) };
+  }
+  return {
+    balance: account.amount,
+    delegatedAmount: account.delegate?.toBase58() === subscription.delegate ? account.delegatedAmount : BigInt(0)
+  };
+}
+
+async function toTransaction(
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  speed: SpeedTier
+): Promise<Transaction> {
+  const [computeBudget, { blockhash, lastValidBlockHeight }] = await Promise.all([
+    createComputeBudgetInstructions(instructions, feePayer, speed),
+    connection.getLatestBlockhash('confirmed')
+  ]);
+  return new Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(...computeBudget, ...instructions);
+}
+
+// The transaction the customer signs to subscribe, or to top the allowance up once it runs
+// low. A token account has a single delegate, so allowance the gateway already holds for the
+// customer's other subscriptions is carried over rather than replaced.
+export async function createApprovalTransaction(
+  plan: SubscriptionPlan,
+  customer: PublicKey,
+  delegate: PublicKey,
+  speed: SpeedTier = 'normal'
+): Promise<{ transaction: Transaction; tokenAccount: PublicKey }> {
+  const [token, details] = await Promise.all([resolveToken(plan.token), getMintDetails(plan.token)]);
+  assertTransferable(details);
+  const mint = new PublicKey(plan.token);
+  const tokenAccount = getAssociatedTokenAddressSync(mint, customer, false, details.programId);
+
+  const account = await getTokenAccount(tokenAccount, details);
+  if (!account) {
+    throw new Error(`${customer.toBase58()} has no ${token.symbol} account to pay from`);
+  }
+  const carriedOver = account.delegate?.equals(delegate) ? account.delegatedAmount : BigInt(0);
+  const allowance = (await getChargeAmount(plan)) * BigInt(plan.allowancePeriods) + carriedOver;
+
+  const approve = createApproveCheckedInstruction(
+    tokenAccount, mint, delegate, customer, allowance, token.decimals, [], details.programId
+  );
+  return { transaction: await toTransaction([approve], customer, speed), tokenAccount };
+}
+
+// The transaction the customer signs to withdraw the gateway's delegation altogether
+export async function createRevokeTransaction(
+  subscription: Subscription,
+  plan: SubscriptionPlan,
+  speed: SpeedTier = 'normal'
+): Promise<Transaction> {
+  const { programId } = await getMintDetails(plan.token);
+  const customer = new PublicKey(subscription.customerWallet);
+  const revoke = createRevokeInstruction(new PublicKey(subscription.tokenAccount), customer, [], programId);
+  return toTransaction([revoke], customer, speed);
+}
+
+// One period's charge, pulled by the delegate, which signs and pays the network fee
+export async function createChargeTransaction(
+  subscription: Subscription,
+  plan: SubscriptionPlan,
+  recipient: PublicKey,
+  reference: PublicKey,
+  splits: PaymentSplit[] = [],
+  speed: SpeedTier = 'normal'
+): Promise<Transaction> {
+  const delegate = new PublicKey(subscription.delegate);
+  const instructions = await createSplitTransferInstructions(
+    plan.amount,
+    plan.token,
+    new PublicKey(subscription.customerWallet),
+    recipient,
+    reference,
+    splits,
+    { delegate }
+  );
+  return toTransaction(instructions, delegate, speed);
+}
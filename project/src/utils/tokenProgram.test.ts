@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EpochInfo, Keypair } from '@solana/web3.js';
+import {
+  ExtensionType,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TRANSFER_FEE_CONFIG_SIZE,
+  TransferFeeConfig,
+  TransferFeeConfigLayout,
+  calculateEpochFee,
+  getTransferFeeConfig
+} from '@solana/spl-token';
+import { TOKENS, connection } from './solana';
+import { MintDetails, getGrossAmount, getNetAmount, getTransferAmounts } from './tokenProgram';
+
+// A Token-2022 mint whose transfer fee is `bps` basis points, capped at `maximumFee` base units
+function createMintDetails(fee?: { bps: number; maximumFee: bigint }): MintDetails {
+  let tlvData = Buffer.alloc(0);
+  if (fee) {
+    const transferFee = { epoch: BigInt(0), maximumFee: fee.maximumFee, transferFeeBasisPoints: fee.bps };
+    const config = Buffer.alloc(TRANSFER_FEE_CONFIG_SIZE);
+    TransferFeeConfigLayout.encode({
+      transferFeeConfigAuthority: Keypair.generate().publicKey,
+      withdrawWithheldAuthority: Keypair.generate().publicKey,
+      withheldAmount: BigInt(0),
+      olderTransferFee: transferFee,
+      newerTransferFee: transferFee
+    }, config);
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(ExtensionType.TransferFeeConfig, 0);
+    header.writeUInt16LE(TRANSFER_FEE_CONFIG_SIZE, 2);
+    tlvData = Buffer.concat([header, config]);
+  }
+  const mint: Mint = {
+    address: Keypair.generate().publicKey,
+    mintAuthority: null,
+    supply: BigInt(0),
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthority: null,
+    tlvData
+  };
+  return { programId: TOKEN_2022_PROGRAM_ID, mint };
+}
+
+const feeFor = (details: MintDetails, gross: bigint) =>
+  calculateEpochFee(getTransferFeeConfig(details.mint) as TransferFeeConfig, BigInt(1), gross);
+
+describe('getTransferAmounts', () => {
+  beforeEach(() => {
+    vi.spyOn(connection, 'getEpochInfo').mockResolvedValue({ epoch: 1 } as EpochInfo);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('leaves amounts alone for mints without a transfer fee', async () => {
+    expect(await getTransferAmounts(createMintDetails(), BigInt(1000)))
+      .toEqual({ gross: BigInt(1000), fee: BigInt(0), net: BigInt(1000) });
+    expect(connection.getEpochInfo).not.toHaveBeenCalled();
+  });
+
+  it('finds the smallest gross that nets the amount', async () => {
+    for (const bps of [1, 50, 100, 333, 2500, 9999]) {
+      const details = createMintDetails({ bps, maximumFee: BigInt(10) ** BigInt(18) });
+      for (const amount of [1, 7, 999, 1000, 123457, 1_000_000].map(BigInt)) {
+        const { gross, fee, net } = await getTransferAmounts(details, amount);
+
+        expect(net).toBe(amount);
+        expect(fee).toBe(feeFor(details, gross));
+        expect(gross - BigInt(1) - feeFor(details, gross - BigInt(1))).toBeLessThan(amount);
+      }
+    }
+  });
+
+  it('adds no more than the maximum fee once the cap applies', async () => {
+    const details = createMintDetails({ bps: 500, maximumFee: BigInt(5000) });
+
+    expect(await getTransferAmounts(details, BigInt(1_000_000)))
+      .toEqual({ gross: BigInt(1_005_000), fee: BigInt(5000), net: BigInt(1_000_000) });
+    // Just under the cap, the uncapped inversion is cheaper
+    expect(await getTransferAmounts(details, BigInt(95_000)))
+      .toEqual({ gross: BigInt(100_000), fee: BigInt(5000), net: BigInt(95_000) });
+  });
+
+  it('takes the fee out of the amount when it is what the sender sends', async () => {
+    const details = createMintDetails({ bps: 100, maximumFee: BigInt(1_000_000) });
+
+    expect(await getTransferAmounts(details, BigInt(1001), true))
+      .toEqual({ gross: BigInt(1001), fee: BigInt(11), net: BigInt(990) });
+  });
+
+  it('charges nothing at zero basis points', async () => {
+    const details = createMintDetails({ bps: 0, maximumFee: BigInt(5000) });
+    expect(await getTransferAmounts(details, BigInt(1000)))
+      .toEqual({ gross: BigInt(1000), fee: BigInt(0), net: BigInt(1000) });
+  });
+});
+
+describe('UI amount wrappers', () => {
+  it('leave SOL untouched without reading a mint', async () => {
+    const getAccountInfo = vi.spyOn(connection, 'getAccountInfo');
+
+    expect(await getGrossAmount(1.5, TOKENS.SOL)).toBe(1.5);
+    expect(await getNetAmount(1.5, TOKENS.SOL)).toBe(1.5);
+    expect(getAccountInfo).not.toHaveBeenCalled();
+    getAccountInfo.mockRestore();
+  });
+});
@@ -0,0 +1,167 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  Account,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+  calculateEpochFee,
+  getAccount,
+  getEpochFee,
+  getMemoTransfer,
+  getNonTransferable,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint
+} from '@solana/spl-token';
+import { TokenInfo } from '../types';
+import { TOKENS, connection, fromBaseUnits, getNetwork, toBaseUnits } from './solana';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const BASIS_POINTS = BigInt(10000);
+
+export interface MintDetails {
+  // The token program that owns the mint: classic SPL Token or Token-2022
+  programId: PublicKey;
+  mint: Mint;
+}
+
+export interface TransferAmounts {
+  // What leaves the sender's account
+  gross: bigint;
+  // Withheld by a Token-2022 transfer fee
+  fee: bigint;
+  // What the recipient ends up with
+  net: bigint;
+}
+
+// Mint accounts rarely change, so each one is read once per RPC endpoint
+const mintCache = new Map<string, Promise<MintDetails>>();
+
+async function fetchMintDetails(mint: string): Promise<MintDetails> {
+  try {
+    const address = new PublicKey(mint);
+    const info = await connection.getAccountInfo(address);
+    if (!info) {
+      throw new Error(`Mint account not found: ${mint}`);
+    }
+    if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      throw new Error(`Mint ${mint} is not owned by a token program`);
+    }
+    return { programId: info.owner, mint: unpackMint(address, info, info.owner) };
+  } catch (error) {
+    console.error('Error reading mint account:', error);
+    throw new Error(`Failed to read mint: ${mint}`);
+  }
+}
+
+export function getMintDetails(mint: string): Promise<MintDetails> {
+  const cacheKey = `${getNetwork().rpcUrl}:${mint}`;
+  let details = mintCache.get(cacheKey);
+  if (!details) {
+    details = fetchMintDetails(mint);
+    // Don't remember failures; the next payment should try again
+    details.catch(() => mintCache.delete(cacheKey));
+    mintCache.set(cacheKey, details);
+  }
+  return details;
+}
+
+export function hasTransferHook(details: MintDetails): boolean {
+  return getTransferHook(details.mint) !== null;
+}
+
+export function hasTransferFee(details: MintDetails): boolean {
+  return getTransferFeeConfig(details.mint) !== null;
+}
+
+// Non-transferable (soulbound) tokens can never be used to pay
+export function assertTransferable(details: MintDetails) {
+  if (getNonTransferable(details.mint)) {
+    throw new Error(`Token ${details.mint.address.toBase58()} is non-transferable`);
+  }
+}
+
+// Work out the gross, fee and net of a transfer under the mint's current transfer fee.
+// By default `amount` is what the recipient must net and the sender pays the fee on top;
+// with `amountIncludesFee` it is what the sender sends and the recipient absorbs the fee.
+export async function getTransferAmounts(
+  details: MintDetails,
+  amount: bigint,
+  amountIncludesFee = false
+): Promise<TransferAmounts> {
+  const feeConfig = getTransferFeeConfig(details.mint);
+  if (!feeConfig) {
+    return { gross: amount, fee: BigInt(0), net: amount };
+  }
+
+  const { epoch } = await connection.getEpochInfo();
+  const feeFor = (gross: bigint) => calculateEpochFee(feeConfig, BigInt(epoch), gross);
+
+  if (amountIncludesFee) {
+    const fee = feeFor(amount);
+    return { gross: amount, fee, net: amount - fee };
+  }
+
+  // Invert fee = min(ceil(gross * bps / 10000), maximumFee) to get a starting estimate
+  const { transferFeeBasisPoints, maximumFee } = getEpochFee(feeConfig, BigInt(epoch));
+  const bps = BigInt(transferFeeBasisPoints);
+  let gross = amount + maximumFee;
+  if (bps === BigInt(0)) {
+    gross = amount;
+  } else if (bps < BASIS_POINTS) {
+    const uncapped = (amount * BASIS_POINTS + BASIS_POINTS - bps - BigInt(1)) / (BASIS_POINTS - bps);
+    if (uncapped < gross) gross = uncapped;
+  }
+  // Rounding can leave the estimate a unit short
+  while (gross - feeFor(gross) < amount) {
+    gross += BigInt(1);
+  }
+
+  const fee = feeFor(gross);
+  return { gross, fee, net: gross - fee };
+}
+
+// UI-amount wrapper: how much of `token` to send so the recipient nets `amount`
+export async function getGrossAmount(amount: number, token: TokenInfo): Promise<number> {
+  if (token.mint === TOKENS.SOL.mint) return amount;
+  const details = await getMintDetails(token.mint);
+  const { gross } = await getTransferAmounts(details, BigInt(toBaseUnits(amount, token.decimals)));
+  return fromBaseUnits(gross, token.decimals);
+}
+
+// UI-amount wrapper: what the recipient nets when `amount` of `token` is sent
+export async function getNetAmount(amount: number, token: TokenInfo): Promise<number> {
+  if (token.mint === TOKENS.SOL.mint) return amount;
+  const details = await getMintDetails(token.mint);
+  const { net } = await getTransferAmounts(details, BigInt(toBaseUnits(amount, token.decimals)), true);
+  return fromBaseUnits(net, token.decimals);
+}
+
+// Token-2022 accounts can refuse incoming transfers that aren't preceded by a memo
+export function requiresIncomingMemo(account: Account): boolean {
+  return getMemoTransfer(account)?.requireIncomingTransferMemos ?? false;
+}
+
+// Returns null when the token account does not exist yet. Any other failure is thrown, so a
+// flaky RPC can't pass for a missing account.
+export async function getTokenAccount(address: PublicKey, details: MintDetails): Promise<Account | null> {
+  try {
+    return await getAccount(connection, address, 'confirmed', details.programId);
+  } catch (error) {
+    if (error instanceof TokenAccountNotFoundError || error instanceof TokenInvalidAccountOwnerError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function createMemoInstruction(memo: string, signer: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(memo, 'utf8')
+  });
+}
@@ -0,0 +1,235 @@
+import { TokenInfo } from '../types';
+import { TOKENS, getNetwork, onNetworkChange } from './solana';
+import { getMintDetails } from './tokenProgram';
+
+// Jupiter's verified token list. Point VITE_TOKEN_LIST_URL at a local JSON file
+// (e.g. /tokens.json in public/) to use your own list instead.
+export const JUPITER_TOKEN_LIST_URL = 'https://token.jup.ag/strict';
+const CACHE_KEY_PREFIX = 'solana-payment-gateway:tokens:';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_SEARCH_LIMIT = 50;
+
+// Jupiter lists use `address`; our own JSON files use `mint` like TokenInfo
+interface TokenListEntry {
+  address?: string;
+  mint?: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+interface CachedTokenList {
+  fetchedAt: number;
+  tokens: TokenInfo[];
+}
+
+const tokensByMint = new Map<string, TokenInfo>();
+const tokensBySymbol = new Map<string, TokenInfo[]>();
+const listeners = new Set<() => void>();
+const pendingLoads = new Map<string, Promise<TokenInfo[]>>();
+let initialized = false;
+
+function indexToken(token: TokenInfo) {
+  const existing = tokensByMint.get(token.mint);
+  tokensByMint.set(token.mint, token);
+
+  const symbol = token.symbol.toUpperCase();
+  const sameSymbol = (tokensBySymbol.get(symbol) || []).filter(t => t !== existing);
+  tokensBySymbol.set(symbol, [...sameSymbol, token]);
+}
+
+function resetRegistry() {
+  tokensByMint.clear();
+  tokensBySymbol.clear();
+  // The cluster's built-in tokens always take precedence over list entries
+  Object.values(TOKENS).forEach(indexToken);
+}
+
+// Seeding is deferred to first use because this module and solana.ts import each other
+function ensureInitialized() {
+  if (initialized) return;
+  initialized = true;
+  resetRegistry();
+  onNetworkChange(() => {
+    resetRegistry();
+    notify();
+  });
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function onTokenRegistryChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function registerTokens(tokens: TokenInfo[]) {
+  ensureInitialized();
+  const builtIn = new Set(Object.values(TOKENS).map(t => t.mint));
+  tokens.filter(token => !builtIn.has(token.mint)).forEach(indexToken);
+  notify();
+}
+
+function normalizeEntry(entry: TokenListEntry): TokenInfo | null {
+  const mint = entry.address || entry.mint;
+  if (!mint || typeof entry.decimals !== 'number' || !entry.symbol) return null;
+  return {
+    symbol: entry.symbol,
+    name: entry.name || entry.symbol,
+    mint,
+    decimals: entry.decimals,
+    logoURI: entry.logoURI
+  };
+}
+
+function readCache(cacheKey: string): TokenInfo[] | null {
+  try {
+    const stored = localStorage.getItem(cacheKey);
+    if (!stored) return null;
+    const cached: CachedTokenList = JSON.parse(stored);
+    if (Date.now() - cached.fetchedAt > CACHE_TTL_MS) return null;
+    return cached.tokens;
+  } catch (error) {
+    console.error('Error reading token list cache:', error);
+    return null;
+  }
+}
+
+function writeCache(cacheKey: string, tokens: TokenInfo[]) {
+  try {
+    const cached: CachedTokenList = { fetchedAt: Date.now(), tokens };
+    localStorage.setItem(cacheKey, JSON.stringify(cached));
+  } catch (error) {
+    // The full list can exceed the storage quota; the registry still works uncached
+    console.error('Error caching token list:', error);
+  }
+}
+
+// Load a token list into the registry, serving it from localStorage while the cache is fresh.
+// Jupiter's list only covers mainnet, so other clusters stick to their built-in tokens
+// unless a custom list is configured.
+export async function loadTokenList(
+  source: string = import.meta.env.VITE_TOKEN_LIST_URL || JUPITER_TOKEN_LIST_URL
+): Promise<TokenInfo[]> {
+  ensureInitialized();
+
+  const { cluster } = getNetwork();
+  if (source === JUPITER_TOKEN_LIST_URL && cluster !== 'mainnet-beta') {
+    return getAllTokens();
+  }
+
+  const cacheKey = `${CACHE_KEY_PREFIX}${cluster}:${source}`;
+  const cached = readCache(cacheKey);
+  if (cached) {
+    registerTokens(cached);
+    return getAllTokens();
+  }
+
+  // Several components may ask for the list at once; share a single request
+  const pending = pendingLoads.get(cacheKey);
+  if (pending) return pending;
+
+  const load = fetchTokenList(source, cacheKey).finally(() => pendingLoads.delete(cacheKey));
+  pendingLoads.set(cacheKey, load);
+  return load;
+}
+
+async function fetchTokenList(source: string, cacheKey: string): Promise<TokenInfo[]> {
+  try {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Token list request failed with status ${response.status}`);
+    }
+    const entries: TokenListEntry[] = await response.json();
+    const tokens = entries
+      .map(normalizeEntry)
+      .filter((token): token is TokenInfo => token !== null);
+
+    writeCache(cacheKey, tokens);
+    registerTokens(tokens);
+    return getAllTokens();
+  } catch (error) {
+    console.error("Error fetching token list:", error);
+    throw new Error("Failed to fetch token list");
+  }
+}
+
+export function getAllTokens(): TokenInfo[] {
+  ensureInitialized();
+  return Array.from(tokensByMint.values());
+}
+
+export function getTokenByMint(mint: string): TokenInfo | undefined {
+  ensureInitialized();
+  return tokensByMint.get(mint);
+}
+
+// Symbols are not unique across a full token list; built-in tokens win, then list order
+export function getTokenBySymbol(symbol: string): TokenInfo | undefined {
+  ensureInitialized();
+  return tokensBySymbol.get(symbol.toUpperCase())?.[0];
+}
+
+// Look a mint up in the registry, falling back to reading its decimals on chain
+export async function resolveToken(mint: string): Promise<TokenInfo> {
+  const known = getTokenByMint(mint);
+  if (known) return known;
+
+  try {
+    // Reads SPL Token and Token-2022 mints alike
+    const { mint: mintAccount } = await getMintDetails(mint);
+    const token: TokenInfo = {
+      symbol: `${mint.slice(0, 4)}...${mint.slice(-4)}`,
+      name: 'Unknown Token',
+      mint,
+      decimals: mintAccount.decimals
+    };
+    indexToken(token);
+    notify();
+    return token;
+  } catch (error) {
+    console.error('Error resolving token:', error);
+    throw new Error(`Token info not found for mint: ${mint}`);
+  }
+}
+
+// Case-insensitive match on symbol, name or mint; exact symbol matches first
+export function searchTokens(
+  query: string,
+  tokens: TokenInfo[] = getAllTokens(),
+  limit: number = DEFAULT_SEARCH_LIMIT
+): TokenInfo[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return tokens.slice(0, limit);
+
+  const matches = tokens.filter(token =>
+    token.symbol.toLowerCase().includes(needle) ||
+    token.name.toLowerCase().includes(needle) ||
+    token.mint.toLowerCase() === needle
+  );
+
+  matches.sort((a, b) => {
+    const aExact = a.symbol.toLowerCase() === needle ? 0 : 1;
+    const bExact = b.symbol.toLowerCase() === needle ? 0 : 1;
+    return aExact - bExact;
+  });
+
+  return matches.slice(0, limit);
+}
+
+// A merchant without an allowlist accepts every token in the registry
+export function getAcceptedTokens(
+  acceptedMints?: string[],
+  tokens: TokenInfo[] = getAllTokens()
+): TokenInfo[] {
+  if (!acceptedMints || acceptedMints.length === 0) return tokens;
+  const byMint = new Map(tokens.map(token => [token.mint, token]));
+  return acceptedMints
+    .map(mint => byMint.get(mint))
+    .filter((token): token is TokenInfo => token !== undefined);
+}
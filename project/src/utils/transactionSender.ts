@@ -0,0 +1,137 @@
+import { SignatureStatus, Transaction, TransactionConfirmationStatus, VersionedTransaction } from '@solana/web3.js';
+import { connection, SignTransaction } from './solana';
+
+export const REBROADCAST_INTERVAL_MS = 2000;
+const MAX_SIGN_ATTEMPTS = 3;
+// Status checks failing in a row for about a minute mean the RPC is down, not flaky
+const MAX_RPC_FAILURES = 30;
+
+export type TransactionProgress = 'signing' | 'sent' | TransactionConfirmationStatus;
+
+export interface SendTransactionOptions {
+  // Stop once the transaction reaches this commitment
+  commitment?: 'confirmed' | 'finalized';
+  onProgress?: (progress: TransactionProgress, signature?: string) => void;
+  // Called when the blockhash expires before the transaction lands. Resolve true to rebuild
+  // the transaction and have the user sign it again; false gives up.
+  onBlockhashExpired?: () => Promise<boolean>;
+}
+
+export interface SentTransaction {
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+// The transaction can no longer land; it has to be rebuilt and signed again
+export class BlockhashExpiredError extends Error {
+  name = 'BlockhashExpiredError';
+}
+
+// The transaction landed but the runtime rejected it
+export class TransactionFailedError extends Error {
+  name = 'TransactionFailedError';
+}
+
+const COMMITMENT_ORDER: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function setBlockhash(transaction: Transaction | VersionedTransaction, blockhash: string, lastValidBlockHeight: number) {
+  if (transaction instanceof VersionedTransaction) {
+    transaction.message.recentBlockhash = blockhash;
+  } else {
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+  }
+}
+
+// Sign once and keep rebroadcasting the same bytes until the cluster reaches the requested
+// commitment or the blockhash expires. Preflight is skipped because the rebroadcast loop,
+// not the RPC node's retry queue, is responsible for getting the transaction landed.
+async function sendOnce(
+  transaction: Transaction | VersionedTransaction,
+  signTransaction: SignTransaction,
+  options: SendTransactionOptions
+): Promise<SentTransaction> {
+  const { commitment = 'confirmed', onProgress } = options;
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  setBlockhash(transaction, blockhash, lastValidBlockHeight);
+
+  onProgress?.('signing');
+  const signed = await signTransaction(transaction);
+  const rawTransaction = signed.serialize();
+  const sendOptions = { skipPreflight: true, maxRetries: 0 };
+
+  const signature = await connection.sendRawTransaction(rawTransaction, sendOptions);
+  onProgress?.('sent', signature);
+
+  let reached = -1;
+  let rpcFailures = 0;
+  const target = COMMITMENT_ORDER.indexOf(commitment);
+
+  while (reached < target) {
+    await wait(REBROADCAST_INTERVAL_MS);
+
+    // The transaction is already out and may still land, so an RPC hiccup is retried rather
+    // than reported as a failed send. Only an on-chain error or an expired blockhash end it,
+    // unless the RPC stays unreachable for good.
+    let status: SignatureStatus | null = null;
+    try {
+      ({ value: [status] } = await connection.getSignatureStatuses([signature]));
+      rpcFailures = 0;
+    } catch (error) {
+      console.error('Error checking transaction status:', error);
+      rpcFailures += 1;
+      if (rpcFailures >= MAX_RPC_FAILURES) throw error;
+    }
+    if (status?.err) {
+      throw new TransactionFailedError(`Transaction failed: ${JSON.stringify(status.err)}`);
+    }
+
+    const level = status?.confirmationStatus ? COMMITMENT_ORDER.indexOf(status.confirmationStatus) : -1;
+    // Report each level once, filling in any the poll skipped over
+    while (reached < level) {
+      reached += 1;
+      onProgress?.(COMMITMENT_ORDER[reached], signature);
+    }
+
+    // Once confirmed the transaction is in a block; only finalization remains
+    if (reached >= COMMITMENT_ORDER.indexOf('confirmed')) continue;
+
+    const blockHeight = await connection.getBlockHeight('confirmed').catch(error => {
+      console.error('Error checking block height:', error);
+      return 0;
+    });
+    if (blockHeight > lastValidBlockHeight) {
+      throw new BlockhashExpiredError('Transaction expired before it was confirmed');
+    }
+
+    await connection.sendRawTransaction(rawTransaction, sendOptions).catch(error => {
+      // A rebroadcast can race the original landing; the status poll settles it
+      console.error('Error rebroadcasting transaction:', error);
+    });
+  }
+
+  return { signature, lastValidBlockHeight };
+}
+
+// Build, sign and send a transaction, rebuilding and re-signing it if its blockhash expires
+// and the caller agrees to try again
+export async function sendTransactionWithRetry(
+  buildTransaction: () => Promise<Transaction | VersionedTransaction>,
+  signTransaction: SignTransaction,
+  options: SendTransactionOptions = {}
+): Promise<SentTransaction> {
+  for (let attempt = 1; ; attempt++) {
+    const transaction = await buildTransaction();
+    try {
+      return await sendOnce(transaction, signTransaction, options);
+    } catch (error) {
+      if (!(error instanceof BlockhashExpiredError) || attempt >= MAX_SIGN_ATTEMPTS) throw error;
+
+      const retry = options.onBlockhashExpired ? await options.onBlockhashExpired() : false;
+      if (!retry) throw error;
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { GatewayEvent, WebhookDelivery } from '../types';
+import { EventSink } from './events';
+import { createId } from './ids';
+import { StorageAdapter } from './storage';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Gateway-Signature';
+export const WEBHOOK_EVENT_ID_HEADER = 'X-Gateway-Event-Id';
+
+const DELIVERIES_KEY = 'webhook-deliveries';
+const DEFAULT_DELIVERY_LOG_LIMIT = 200;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+// A receiver that hangs would otherwise hold the delivery, and every retry after it, forever
+const DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+// Receivers should reject signatures older than this to stop replays
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface WebhookEndpoint {
+  url: string;
+  secret: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// HMAC-SHA256 over `${timestamp}.${body}`, so a signature can't be replayed with another timestamp
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+}
+
+// Header value of the form `t=<unix ms>,v1=<hex signature>`
+export async function createSignatureHeader(secret: string, body: string, timestamp = Date.now()): Promise<string> {
+  return `t=${timestamp},v1=${await signWebhookPayload(secret, timestamp, body)}`;
+}
+
+// For receivers: check a request's signature header against the raw request body
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Date.now()
+): Promise<boolean> {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1 || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) {
+    return false;
+  }
+
+  const expected = await signWebhookPayload(secret, timestamp, body);
+  // Compare every character so the time taken doesn't reveal how much matched
+  let difference = expected.length ^ parts.v1.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (parts.v1.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+export interface DeliveryLog {
+  record(delivery: WebhookDelivery): Promise<void>;
+  // Newest first
+  list(merchantId?: string): Promise<WebhookDelivery[]>;
+  subscribe(listener: (delivery: WebhookDelivery) => void): () => void;
+}
+
+// Keeps the most recent `limit` delivery attempts
+export function createDeliveryLog(storage: StorageAdapter, limit = DEFAULT_DELIVERY_LOG_LIMIT): DeliveryLog {
+  const listeners = new Set<(delivery: WebhookDelivery) => void>();
+  // Writes are read-modify-write, so run them one at a time
+  let pending: Promise<void> = Promise.resolve();
+
+  const load = async () => (await storage.getItem<WebhookDelivery[]>(DELIVERIES_KEY)) || [];
+
+  return {
+    record(delivery) {
+      pending = pending
+        .then(async () => {
+          await storage.setItem(DELIVERIES_KEY, [delivery, ...await load()].slice(0, limit));
+          listeners.forEach(listener => listener(delivery));
+        })
+        .catch(error => console.error('Error recording webhook delivery:', error));
+      return pending;
+    },
+
+    async list(merchantId) {
+      const deliveries = await load();
+      return merchantId ? deliveries.filter(delivery => delivery.merchantId === merchantId) : deliveries;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+export interface WebhookSinkOptions {
+  // Where an event goes; null skips it, e.g. for merchants without a webhook
+  getEndpoint: (event: GatewayEvent) => WebhookEndpoint | null;
+  log: DeliveryLog;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // How long one attempt waits for a response before it counts as failed and is retried
+  requestTimeoutMs?: number;
+  fetchFn?: typeof fetch;
+}
+
+// Timeouts, rate limits and server errors may succeed later; other client errors won't
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Exponential backoff with full jitter, so failed deliveries don't retry in lockstep
+function getRetryDelay(attempt: number, baseDelayMs: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** (attempt - 1));
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createWebhookSink({
+  getEndpoint,
+  log,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  fetchFn = (...args) => fetch(...args)
+}: WebhookSinkOptions): EventSink {
+  return {
+    name: 'webhook',
+
+    async deliver(event) {
+      const endpoint = getEndpoint(event);
+      if (!endpoint) return;
+
+      const body = JSON.stringify(event);
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        let responseStatus: number | undefined;
+        let error: string | undefined;
+
+        try {
+          const response = await fetchFn(endpoint.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              [WEBHOOK_EVENT_ID_HEADER]: event.id,
+              // Signed per attempt so a late retry still passes the receiver's freshness check
+              [WEBHOOK_SIGNATURE_HEADER]: await createSignatureHeader(endpoint.secret, body)
+            },
+            body,
+            signal: AbortSignal.timeout(requestTimeoutMs)
+          });
+          responseStatus = response.status;
+          if (!response.ok) error = `HTTP ${response.status}`;
+        } catch (err) {
+          // No status either way, so a timeout is retried like any other network failure
+          error = err instanceof Error && err.name === 'TimeoutError'
+            ? `Timed out after ${requestTimeoutMs}ms`
+            : err instanceof Error ? err.message : 'Request failed';
+        }
+
+        const succeeded = !error;
+        const willRetry = !succeeded && attempt < maxAttempts &&
+          (responseStatus === undefined || isRetryable(responseStatus));
+
+        await log.record({
+          id: createId('delivery'),
+          eventId: event.id,
+          eventType: event.type,
+          merchantId: event.merchantId,
+          url: endpoint.url,
+          attempt,
+          status: succeeded ? 'succeeded' : willRetry ? 'retrying' : 'failed',
+          responseStatus,
+          error,
+          timestamp: Date.now()
+        });
+
+        if (!willRetry) {
+          if (!succeeded) {
+            throw new Error(`Webhook delivery of ${event.id} failed: ${error}`);
+          }
+          return;
+        }
+        await wait(getRetryDelay(attempt, baseDelayMs));
+      }
+    }
+  };
+}
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SOLANA_CLUSTER?: string;
+  readonly VITE_SOLANA_RPC_URL?: string;
+  readonly VITE_SOLANA_WS_URL?: string;
+  readonly VITE_USDC_MINT?: string;
+  readonly VITE_TOKEN_LIST_URL?: string;
+  readonly VITE_FX_RATES_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Merchant, Payment } from '../types';
+import { WalletContextProvider } from '../components/WalletContextProvider';
+import { PaymentForm } from '../components/PaymentForm';
+import { WidgetEmitter } from './events';
+
+interface CheckoutWidgetProps {
+  merchant: Merchant;
+  amount?: number;
+  token?: string;
+  reference?: string;
+  emitter: WidgetEmitter;
+}
+
+// The hosted checkout's payment form, on its own wallet connection for embedding in other sites
+export const CheckoutWidget: React.FC<CheckoutWidgetProps> = ({ merchant, amount, token, reference, emitter }) => {
+  const handlePaymentComplete = (payment: Payment) => {
+    emitter.emit(payment.status === 'completed' ? 'payment:completed' : 'payment:failed', payment);
+  };
+
+  return (
+    <WalletContextProvider>
+      <PaymentForm
+        merchant={merchant}
+        initialAmount={amount}
+        initialToken={token}
+        linkReference={reference}
+        onPaymentComplete={handlePaymentComplete}
+        onPaymentFailed={payment => emitter.emit('payment:failed', payment)}
+      />
+    </WalletContextProvider>
+  );
+};
@@ -0,0 +1,45 @@
+import { Payment } from '../types';
+
+// Events the widget reports to the host page, each carrying the payment it is about
+export interface WidgetEventMap {
+  'payment:completed': Payment;
+  'payment:failed': Payment;
+}
+
+export type WidgetEventName = keyof WidgetEventMap;
+
+export type WidgetEventHandler<E extends WidgetEventName> = (payment: WidgetEventMap[E]) => void;
+
+export interface WidgetEmitter {
+  on<E extends WidgetEventName>(event: E, handler: WidgetEventHandler<E>): () => void;
+  emit<E extends WidgetEventName>(event: E, payment: WidgetEventMap[E]): void;
+}
+
+// Handlers registered through the JS API; events are also dispatched on the mount element
+// as DOM CustomEvents so pages without a handle on the widget can still listen
+export function createWidgetEmitter(element: HTMLElement): WidgetEmitter {
+  const handlers: { [E in WidgetEventName]: Set<WidgetEventHandler<E>> } = {
+    'payment:completed': new Set(),
+    'payment:failed': new Set()
+  };
+
+  return {
+    on(event, handler) {
+      handlers[event].add(handler);
+      return () => {
+        handlers[event].delete(handler);
+      };
+    },
+
+    emit(event, payment) {
+      handlers[event].forEach(handler => {
+        try {
+          handler(payment);
+        } catch (error) {
+          console.error(`Error in ${event} handler:`, error);
+        }
+      });
+      element.dispatchEvent(new CustomEvent(event, { detail: payment, bubbles: true }));
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { Merchant } from '../types';
+import { Cluster, DEFAULT_RPC_URLS } from '../utils/network';
+import { getNetwork, setNetwork } from '../utils/solana';
+import { DEFAULT_SLIPPAGE_BPS } from '../utils/jupiter';
+import { validateMerchant } from '../utils/merchants';
+import { CheckoutWidget } from './CheckoutWidget';
+import { WidgetEventHandler, WidgetEventName, createWidgetEmitter } from './events';
+import './widget.css';
+
+export type { WidgetEventMap, WidgetEventName, WidgetEventHandler } from './events';
+
+// What a partner site has to tell us about itself; the rest of a Merchant has defaults
+export type WidgetMerchant =
+  Pick<Merchant, 'id' | 'name' | 'walletAddress' | 'preferredToken'> &
+  Partial<Pick<Merchant, 'settlementWallet' | 'acceptedTokens' | 'maxSlippageBps' | 'branding'>>;
+
+export interface MountOptions {
+  merchant: WidgetMerchant;
+  // Prefilled payment amount and the mint the customer pays with
+  amount?: number;
+  token?: string;
+  // Solana Pay reference key, so the site can find the payment on chain itself
+  reference?: string;
+  // Defaults to the cluster the widget was built for
+  cluster?: Cluster;
+  rpcUrl?: string;
+  onPaymentCompleted?: WidgetEventHandler<'payment:completed'>;
+  onPaymentFailed?: WidgetEventHandler<'payment:failed'>;
+}
+
+export interface WidgetHandle {
+  on<E extends WidgetEventName>(event: E, handler: WidgetEventHandler<E>): () => void;
+  unmount(): void;
+}
+
+// Render the checkout into `target`, an element or a selector for one
+export function mount(target: HTMLElement | string, options: MountOptions): WidgetHandle {
+  const element = typeof target === 'string' ? document.querySelector<HTMLElement>(target) : target;
+  if (!element) {
+    throw new Error(`Mount target not found: ${String(target)}`);
+  }
+
+  const merchant: Merchant = {
+    maxSlippageBps: DEFAULT_SLIPPAGE_BPS,
+    createdAt: 0,
+    ...options.merchant
+  };
+  const errors = validateMerchant(merchant);
+  if (errors.length > 0) {
+    throw new Error(`Invalid merchant: ${errors.join('; ')}`);
+  }
+
+  if (options.cluster || options.rpcUrl) {
+    const cluster = options.cluster || getNetwork().cluster;
+    setNetwork({ cluster, rpcUrl: options.rpcUrl || DEFAULT_RPC_URLS[cluster] });
+  }
+
+  const emitter = createWidgetEmitter(element);
+  if (options.onPaymentCompleted) emitter.on('payment:completed', options.onPaymentCompleted);
+  if (options.onPaymentFailed) emitter.on('payment:failed', options.onPaymentFailed);
+
+  const root = createRoot(element);
+  root.render(
+    <StrictMode>
+      <CheckoutWidget
+        merchant={merchant}
+        amount={options.amount}
+        token={options.token}
+        reference={options.reference}
+        emitter={emitter}
+      />
+    </StrictMode>
+  );
+
+  return {
+    on: emitter.on,
+    unmount: () => root.unmount()
+  };
+}
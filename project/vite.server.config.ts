@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Builds the payment API (`server/`) and its integration harness for Node. Dependencies stay
+// external and are loaded from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/server',
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        index: 'server/index.ts',
+        harness: 'server/harness/index.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+});
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Builds the embeddable checkout (`src/widget`) as a standalone library with React bundled in,
+// since partner sites can't be expected to provide it
+export default defineConfig({
+  plugins: [react()],
+  // Library mode leaves this to the consumer, but the bundle runs straight in the browser
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/widget',
+    lib: {
+      entry: 'src/widget/index.tsx',
+      name: 'SolanaPaymentWidget',
+      formats: ['es', 'umd'],
+      fileName: format => `solana-payment-widget.${format}.js`,
+    },
+  },
+});